@@ -0,0 +1,25 @@
+#!/usr/bin/env node
+// Runs cli/index.ts through vite-node, which resolves the app's '@/' imports, from any directory
+import { spawnSync } from 'node:child_process'
+import { fileURLToPath } from 'node:url'
+
+const root = fileURLToPath(new URL('..', import.meta.url))
+// vite-node is a dependency, installed beside this package rather than inside it once installed
+const viteNode = fileURLToPath(import.meta.resolve('vite-node/vite-node.mjs'))
+const { status, error } = spawnSync(
+  process.execPath,
+  [
+    viteNode,
+    '--root',
+    root,
+    '--config',
+    `${root}cli/vite.config.ts`,
+    `${root}cli/index.ts`,
+    '--',
+    ...process.argv.slice(2),
+  ],
+  { stdio: 'inherit' },
+)
+
+if (error) console.error(error.message)
+process.exit(status ?? 1)
@@ -0,0 +1,164 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest'
+
+import type { Location, ProcessedWeatherData } from '@/types/weather'
+import { withQualityFlags } from '@/services/qualityControl'
+import { parseCsvRecords } from '@/services/csv'
+import { runCli, type CliDependencies } from '../pme'
+
+const day = (date: string, location: Location): ProcessedWeatherData =>
+  withQualityFlags({
+    date,
+    maxTemperature: 32,
+    minTemperature: 14,
+    relativeHumidity: 50,
+    windSpeed: 2,
+    station: {
+      id: 'grid',
+      name: 'Grid',
+      latitude: location.latitude,
+      longitude: location.longitude,
+      elevation: 20,
+      timeZone: 'America/Los_Angeles',
+    },
+    timestamp: `${date}T12:00:00Z`,
+    sourceData: {
+      temperatures: [],
+      humidity: [],
+      windSpeed: [],
+      forecastDate: `${date}T12:00:00Z`,
+      provider: 'Test provider',
+    },
+  })
+
+const series = (location: Location, days = 7) =>
+  ['2026-07-10', '2026-07-11', '2026-07-12'].slice(0, days).map((date) => day(date, location))
+
+// Stand-ins for the weather and geocoding services: no forecast north of 60°, one known address
+const weather: CliDependencies['weather'] = {
+  getDailyForecastSeries: async (location, days) => {
+    if (location.latitude > 60) throw new Error('Forecast unavailable')
+    return series(location, days)
+  },
+  getDailyForecastBatch: async (locations, days) =>
+    locations.map((location) =>
+      location.latitude > 60 ? new Error('Forecast unavailable') : series(location, days),
+    ),
+}
+const geocoder: CliDependencies['geocoder'] = {
+  searchLocations: async (query) =>
+    query === 'Davis, CA'
+      ? [
+          {
+            latitude: 38.54,
+            longitude: -121.74,
+            formattedAddress: 'Davis, Yolo County, California',
+            addressComponents: {},
+          },
+        ]
+      : [],
+}
+
+async function run(
+  args: string[],
+  files: Record<string, string> = {},
+  dependencies: Partial<CliDependencies> = {},
+) {
+  let stdout = ''
+  let stderr = ''
+  const code = await runCli(args, {
+    weather,
+    geocoder,
+    readFile: async (path) => {
+      if (!(path in files)) throw new Error(`ENOENT: ${path}`)
+      return files[path]
+    },
+    stdout: (text) => (stdout += text),
+    stderr: (text) => (stderr += text),
+    ...dependencies,
+  })
+  return { code, stdout, stderr }
+}
+
+describe('pme', () => {
+  it('prints ET₀ of a location for each forecast day as CSV', async () => {
+    const { code, stdout } = await run(['et0', '--lat', '38.5', '--lon', '-121.7', '--days', '2'])
+    const { header, records } = parseCsvRecords(stdout)
+
+    expect(code).toBe(0)
+    expect(header).toContain('et0_mm')
+    expect(records.map((record) => record.date)).toEqual(['2026-07-10', '2026-07-11'])
+    expect(records[0].longitude).toBe('-121.7')
+    expect(Number(records[0].et0_mm)).toBeGreaterThan(5)
+    expect(records[0].rs_method).toBe('temperature')
+  })
+
+  it('geocodes an address and prints JSON with the inputs and quality flags', async () => {
+    const { code, stdout } = await run(['et0', '--address', 'Davis, CA', '--format', 'json'])
+    const [site] = JSON.parse(stdout)
+
+    expect(code).toBe(0)
+    expect(site.latitude).toBe(38.54)
+    expect(site.days).toHaveLength(1)
+    expect(site.days[0].inputs.elevation).toBe(20)
+    expect(site.days[0].quality.maxTemperature).toEqual({ flag: 'forecast' })
+  })
+
+  it('exits with 2 for bad input and 3 when data is unavailable', async () => {
+    expect((await run(['et0', '--lat', '38.5'])).code).toBe(2)
+    expect((await run(['et0', '--lat', '38.5', '--lon', '-121.7', '--days', '9'])).code).toBe(2)
+    expect((await run(['et0', '--address', 'Nowhere'])).code).toBe(2)
+    expect((await run(['forecast'])).code).toBe(2)
+    expect((await run(['batch', 'missing.csv'])).code).toBe(2)
+
+    const unavailable = await run(['et0', '--lat', '64.8', '--lon', '-147.7'])
+    expect(unavailable.code).toBe(3)
+    expect(unavailable.stdout).toBe('')
+    expect(unavailable.stderr).toMatch(/Forecast unavailable/)
+  })
+
+  it('runs a fields file, printing the rows it could calculate', async () => {
+    const files = {
+      'fields.csv':
+        'name,lat,lon,address\nNorth,38.5,-121.7,\nTown,,,"Davis, CA"\nTundra,64.8,-147.7,\n',
+    }
+    const { code, stdout, stderr } = await run(['batch', 'fields.csv'], files)
+    const { records } = parseCsvRecords(stdout)
+
+    expect(records.map((record) => record.name)).toEqual(['North', 'Town'])
+    expect(stderr).toMatch(/Tundra: Forecast unavailable/)
+    expect(code).toBe(3)
+
+    const invalid = await run(['batch', 'fields.csv'], {
+      'fields.csv': 'name,lat,lon\nNorth,38.5,-121.7\nTypo,38.5,west\n',
+    })
+    expect(parseCsvRecords(invalid.stdout).records).toHaveLength(1)
+    expect(invalid.stderr).toMatch(/Typo: lon must be a number/)
+    expect(invalid.code).toBe(2)
+  })
+
+  it("keeps the services' logging off stdout and restores the console when they fail", async () => {
+    const { log, info, warn, error } = console
+    const failing: CliDependencies['weather'] = {
+      ...weather,
+      getDailyForecastSeries: async () => {
+        console.warn('NWS failed for daily forecast, trying next provider...')
+        throw new TypeError('Cannot read properties of undefined')
+      },
+    }
+    const args = ['et0', '--lat', '38.5', '--lon', '-121.7']
+
+    // Both failures are thrown out of the run that swapped the console
+    const quiet = await run(args, {}, { weather: failing })
+    expect(quiet.code).toBe(3)
+    expect(quiet.stderr).not.toMatch(/NWS failed/)
+    expect(quiet.stdout).toBe('')
+
+    const verbose = await run([...args, '--verbose'], {}, { weather: failing })
+    expect(verbose.stderr).toMatch(/^NWS failed for daily forecast/)
+    expect(verbose.stdout).toBe('')
+
+    expect((await run(['batch', 'missing.csv'])).code).toBe(2)
+    expect(console).toMatchObject({ log, info, warn, error })
+  })
+})
@@ -0,0 +1,4 @@
+import { runCli } from './pme'
+
+// pme command line: npm run pme -- et0 --lat 38.5 --lon -121.7, or bin/pme.js once linked
+process.exitCode = await runCli(process.argv.slice(2))
@@ -0,0 +1,417 @@
+import { parseArgs } from 'node:util'
+import { readFile } from 'node:fs/promises'
+import type { AridityClass } from '@/types/penmanMonteith'
+import type { Location, ProcessedWeatherData } from '@/types/weather'
+import { weatherService } from '@/services/weatherService'
+import { geocodingService, type GeocodingService } from '@/services/geocodingService'
+import { et0Report, type Et0Report } from '@/services/dailyEt0'
+import { formatCsv, parseCsvRecords, type CsvValue } from '@/services/csv'
+import { createThrottle } from '@/services/requestThrottle'
+
+// Exit codes, so that cron jobs can retry when data is unavailable and alert on bad input
+export const EXIT_OK = 0
+export const EXIT_FAILURE = 1 // unexpected error
+export const EXIT_BAD_INPUT = 2 // usage, arguments or fields file, or an address not found
+export const EXIT_DATA_UNAVAILABLE = 3 // a weather or geocoding service failed or had no data
+
+export interface CliDependencies {
+  weather: Pick<typeof weatherService, 'getDailyForecastSeries' | 'getDailyForecastBatch'>
+  geocoder: Pick<GeocodingService, 'searchLocations'>
+  readFile: (path: string) => Promise<string>
+  stdout: (text: string) => void
+  stderr: (text: string) => void
+}
+
+const defaultDependencies: CliDependencies = {
+  weather: weatherService,
+  geocoder: geocodingService,
+  readFile: (path) => readFile(path, 'utf8'),
+  stdout: (text) => process.stdout.write(text),
+  stderr: (text) => process.stderr.write(text),
+}
+
+const USAGE = `Usage:
+  pme et0 --lat <degrees> --lon <degrees> [options]
+  pme et0 --address <text> [options]
+  pme batch <fields.csv> [options]
+
+Options:
+  --days <1-7>          Forecast days from today (default 1)
+  --format csv|json     Output format (default csv)
+  --aridity <class>     humid, semi-arid or arid, for estimating missing humidity (default humid)
+  --verbose             Log weather and geocoding requests to stderr
+  --help                Show this help
+
+The fields file has a header row naming its columns: name, lat and lon or address, and
+optionally aridity.
+
+Exit codes: 0 success, 1 unexpected error, 2 bad input, 3 weather or location data unavailable
+`
+
+const MAX_DAYS = 7
+const ARIDITY_CLASSES: AridityClass[] = ['humid', 'semi-arid', 'arid']
+const NUMBER_OPTIONS = new Set(['--lat', '--lon'])
+// Nominatim's usage policy allows one request per second
+const GEOCODING_INTERVAL_MS = 1000
+
+const CSV_COLUMNS = [
+  'name',
+  'latitude',
+  'longitude',
+  'date',
+  'mode',
+  'et0_mm',
+  'tmax_c',
+  'tmin_c',
+  'rh_pct',
+  'u2_ms',
+  'rs_mjm2',
+  'rs_method',
+  'station',
+  'provider',
+  'flags',
+]
+
+// A failure with the exit code it maps to
+class CliError extends Error {
+  constructor(
+    message: string,
+    readonly exitCode: number,
+  ) {
+    super(message)
+    this.name = 'CliError'
+  }
+}
+
+// A place to calculate ET₀ for, from the command line or a row of the fields file
+interface Site {
+  name: string
+  latitude?: number
+  longitude?: number
+  address?: string
+  aridity: AridityClass
+}
+
+interface SiteResult {
+  site: Site
+  location?: Location
+  days?: Et0Report[]
+  error?: CliError
+}
+
+type Options = ReturnType<typeof parseOptions>
+
+function parseOptions(args: string[]) {
+  // parseArgs takes '--lon -121.7' for two options, so pass negative numbers as '--lon=-121.7'
+  const joined: string[] = []
+  for (let i = 0; i < args.length; i++) {
+    if (NUMBER_OPTIONS.has(args[i]) && /^-\d/.test(args[i + 1] ?? '')) {
+      joined.push(`${args[i]}=${args[++i]}`)
+    } else {
+      joined.push(args[i])
+    }
+  }
+
+  try {
+    return parseArgs({
+      args: joined,
+      allowPositionals: true,
+      options: {
+        lat: { type: 'string' },
+        lon: { type: 'string' },
+        address: { type: 'string' },
+        days: { type: 'string', default: '1' },
+        format: { type: 'string', default: 'csv' },
+        aridity: { type: 'string', default: 'humid' },
+        verbose: { type: 'boolean', default: false },
+        help: { type: 'boolean', short: 'h', default: false },
+      },
+    })
+  } catch (error) {
+    throw new CliError(error instanceof Error ? error.message : String(error), EXIT_BAD_INPUT)
+  }
+}
+
+function numberOption(value: string | undefined, name: string, min: number, max: number): number {
+  const number = Number(value ?? NaN)
+  if (value === undefined || value === '' || !Number.isFinite(number)) {
+    throw new CliError(`${name} must be a number`, EXIT_BAD_INPUT)
+  }
+  if (number < min || number > max) {
+    throw new CliError(`${name} must be from ${min} to ${max}`, EXIT_BAD_INPUT)
+  }
+  return number
+}
+
+function aridityOption(value: string | undefined, fallback: AridityClass): AridityClass {
+  if (!value) return fallback
+  if (!ARIDITY_CLASSES.includes(value as AridityClass)) {
+    throw new CliError(`aridity must be one of ${ARIDITY_CLASSES.join(', ')}`, EXIT_BAD_INPUT)
+  }
+  return value as AridityClass
+}
+
+/**
+ * A site from coordinates or an address; coordinates win when both are given
+ */
+function siteFrom(
+  name: string,
+  values: { lat?: string; lon?: string; address?: string; aridity?: string },
+  aridity: AridityClass,
+): Site {
+  const site: Site = { name, aridity: aridityOption(values.aridity, aridity) }
+  if (values.lat || values.lon) {
+    site.latitude = numberOption(values.lat, 'lat', -90, 90)
+    site.longitude = numberOption(values.lon, 'lon', -180, 180)
+  } else if (values.address) {
+    site.address = values.address
+  } else {
+    throw new CliError('lat and lon, or an address, are required', EXIT_BAD_INPUT)
+  }
+  return site
+}
+
+/**
+ * Sites of the rows of a fields CSV file
+ * @returns Per row, in order, the site and the error that makes the row invalid, if any
+ */
+function sitesFromCsv(text: string, aridity: AridityClass): SiteResult[] {
+  let parsed: ReturnType<typeof parseCsvRecords>
+  try {
+    parsed = parseCsvRecords(text)
+  } catch (error) {
+    throw new CliError(error instanceof Error ? error.message : String(error), EXIT_BAD_INPUT)
+  }
+
+  const { header, records } = parsed
+  const hasCoordinates = ['lat', 'lon'].every((column) => header.includes(column))
+  if (!hasCoordinates && !header.includes('address')) {
+    throw new CliError('The fields file needs lat and lon, or address, columns', EXIT_BAD_INPUT)
+  }
+  if (records.length === 0) throw new CliError('The fields file has no rows', EXIT_BAD_INPUT)
+
+  return records.map((record, i) => {
+    const name = record.name || `row ${i + 1}`
+    try {
+      return { site: siteFrom(name, record, aridity) }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      const exitCode = error instanceof CliError ? error.exitCode : EXIT_FAILURE
+      return { site: { name, aridity }, error: new CliError(`${name}: ${message}`, exitCode) }
+    }
+  })
+}
+
+/**
+ * Location of a site, looking its address up when it has no coordinates
+ */
+async function locate(site: Site, geocoder: CliDependencies['geocoder']): Promise<Location> {
+  if (site.latitude !== undefined && site.longitude !== undefined) {
+    return { latitude: site.latitude, longitude: site.longitude, aridity: site.aridity }
+  }
+
+  let results
+  try {
+    results = await geocoder.searchLocations(site.address ?? '', 1)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Geocoding failed'
+    throw new CliError(`${site.name}: ${message}`, EXIT_DATA_UNAVAILABLE)
+  }
+  if (results.length === 0) {
+    throw new CliError(`${site.name}: no location found for ${site.address}`, EXIT_BAD_INPUT)
+  }
+  return { latitude: results[0].latitude, longitude: results[0].longitude, aridity: site.aridity }
+}
+
+function dataUnavailable(site: Site, error: unknown): CliError {
+  const message = error instanceof Error ? error.message : 'Failed to get forecast data'
+  return new CliError(`${site.name}: ${message}`, EXIT_DATA_UNAVAILABLE)
+}
+
+function daysOf(site: Site, series: ProcessedWeatherData[]): Et0Report[] {
+  if (series.length === 0)
+    throw new CliError(`${site.name}: no forecast data`, EXIT_DATA_UNAVAILABLE)
+  return series.map((day) => et0Report(day, 'forecast'))
+}
+
+async function runEt0(options: Options, deps: CliDependencies): Promise<SiteResult[]> {
+  const aridity = aridityOption(options.values.aridity, 'humid')
+  const { lat, lon, address } = options.values
+  const site = siteFrom(address ?? `${lat},${lon}`, options.values, aridity)
+  const days = numberOption(options.values.days, 'days', 1, MAX_DAYS)
+  const location = await locate(site, deps.geocoder)
+
+  let series
+  try {
+    series = await deps.weather.getDailyForecastSeries(location, days)
+  } catch (error) {
+    throw dataUnavailable(site, error)
+  }
+  return [{ site, location, days: daysOf(site, series) }]
+}
+
+/**
+ * ET₀ for every row of a fields file, sharing forecast requests between nearby sites
+ */
+async function runBatch(options: Options, deps: CliDependencies): Promise<SiteResult[]> {
+  const file = options.positionals[1]
+  if (!file) throw new CliError('batch needs a fields CSV file', EXIT_BAD_INPUT)
+  const aridity = aridityOption(options.values.aridity, 'humid')
+  const days = numberOption(options.values.days, 'days', 1, MAX_DAYS)
+
+  let text: string
+  try {
+    text = await deps.readFile(file)
+  } catch {
+    throw new CliError(`Cannot read ${file}`, EXIT_BAD_INPUT)
+  }
+
+  const throttle = createThrottle(1, GEOCODING_INTERVAL_MS)
+  const results: SiteResult[] = await Promise.all(
+    sitesFromCsv(text, aridity).map(async (result): Promise<SiteResult> => {
+      const { site } = result
+      if (result.error) return result
+      try {
+        // Only address lookups go to the geocoder, so only they wait their turn
+        const lookup = () => locate(site, deps.geocoder)
+        return { site, location: await (site.address === undefined ? lookup() : throttle(lookup)) }
+      } catch (error) {
+        return { site, error: error instanceof CliError ? error : dataUnavailable(site, error) }
+      }
+    }),
+  )
+
+  const located = results.filter((result) => result.location)
+  const batch = await deps.weather.getDailyForecastBatch(
+    located.map((result) => result.location!),
+    days,
+  )
+  located.forEach((result, i) => {
+    const series = batch[i]
+    try {
+      if (series instanceof Error) throw dataUnavailable(result.site, series)
+      result.days = daysOf(result.site, series)
+    } catch (error) {
+      result.error = error instanceof CliError ? error : dataUnavailable(result.site, error)
+    }
+  })
+  return results
+}
+
+// Flags that qualify a value: estimated, defaulted or suspect inputs
+function flagsOf(day: Et0Report): string {
+  return Object.entries(day.quality ?? {})
+    .filter(([, quality]) => quality.flag !== 'measured' && quality.flag !== 'forecast')
+    .map(([variable, quality]) => `${variable}:${quality.flag}`)
+    .join(' ')
+}
+
+function toCsv(results: SiteResult[]): string {
+  const round = (value: number | undefined, digits: number) =>
+    value === undefined ? undefined : Number(value.toFixed(digits))
+  const rows: CsvValue[][] = results.flatMap(({ site, location, days = [] }) =>
+    days.map((day) => [
+      site.name,
+      location?.latitude,
+      location?.longitude,
+      day.date,
+      day.mode,
+      round(day.et0, 2),
+      round(day.inputs.maxTemperature, 1),
+      round(day.inputs.minTemperature, 1),
+      round(day.inputs.relativeHumidity, 0),
+      round(day.inputs.windSpeed, 2),
+      round(day.result.radiation.solarRadiation, 2),
+      day.inputs.solarRadiationMethod,
+      day.station?.name,
+      day.sourceData?.provider,
+      flagsOf(day),
+    ]),
+  )
+  return formatCsv([CSV_COLUMNS, ...rows])
+}
+
+function toJson(results: SiteResult[]): string {
+  const sites = results.map(({ site, location, days, error }) => ({
+    name: site.name,
+    address: site.address,
+    latitude: location?.latitude,
+    longitude: location?.longitude,
+    aridity: site.aridity,
+    days,
+    error: error?.message,
+  }))
+  return JSON.stringify(sites, null, 2) + '\n'
+}
+
+/**
+ * Route the services' console logging to stderr with --verbose, or drop it, so that stdout holds
+ * only the output and stderr the failures runCli reports
+ */
+async function withQuietConsole<T>(
+  verbose: boolean,
+  stderr: (text: string) => void,
+  run: () => Promise<T>,
+) {
+  const { log, info, warn, error } = console
+  const toStderr = (...values: unknown[]) => {
+    if (verbose) stderr(values.map(String).join(' ') + '\n')
+  }
+  console.log = console.info = console.warn = console.error = toStderr
+  try {
+    return await run()
+  } finally {
+    Object.assign(console, { log, info, warn, error })
+  }
+}
+
+/**
+ * Run the pme command line
+ * @param args - Arguments after the program name
+ * @returns The exit code
+ */
+export async function runCli(
+  args: string[],
+  dependencies: Partial<CliDependencies> = {},
+): Promise<number> {
+  const deps = { ...defaultDependencies, ...dependencies }
+
+  try {
+    const options = parseOptions(args)
+    const [command] = options.positionals
+    if (options.values.help || command === 'help') {
+      deps.stdout(USAGE)
+      return EXIT_OK
+    }
+    if (command !== 'et0' && command !== 'batch') {
+      throw new CliError(
+        command ? `Unknown command ${command}` : 'No command given',
+        EXIT_BAD_INPUT,
+      )
+    }
+    if (options.values.format !== 'csv' && options.values.format !== 'json') {
+      throw new CliError('format must be csv or json', EXIT_BAD_INPUT)
+    }
+
+    const results = await withQuietConsole(options.values.verbose, deps.stderr, () =>
+      command === 'et0' ? runEt0(options, deps) : runBatch(options, deps),
+    )
+    deps.stdout(options.values.format === 'json' ? toJson(results) : toCsv(results))
+
+    // Bad input needs fixing before a retry can help, so it outranks unavailable data
+    const errors = results.flatMap(({ error }) => (error ? [error] : []))
+    errors.forEach((error) => deps.stderr(`${error.message}\n`))
+    if (errors.some((error) => error.exitCode === EXIT_BAD_INPUT)) return EXIT_BAD_INPUT
+    if (errors.some((error) => error.exitCode === EXIT_DATA_UNAVAILABLE))
+      return EXIT_DATA_UNAVAILABLE
+    return errors.length > 0 ? EXIT_FAILURE : EXIT_OK
+  } catch (error) {
+    if (error instanceof CliError) {
+      deps.stderr(`pme: ${error.message}\n`)
+      if (error.exitCode === EXIT_BAD_INPUT) deps.stderr('Run pme --help for usage\n')
+      return error.exitCode
+    }
+    deps.stderr(`pme: ${error instanceof Error ? error.stack : String(error)}\n`)
+    return EXIT_FAILURE
+  }
+}
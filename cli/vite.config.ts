@@ -0,0 +1,13 @@
+import { fileURLToPath, URL } from 'node:url'
+
+import { defineConfig } from 'vite'
+
+// vite-node config for the pme command line: the app's '@/' alias without the app's build
+// plugins, which are development dependencies
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@': fileURLToPath(new URL('../src', import.meta.url)),
+    },
+  },
+})
@@ -1 +1,6 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Base URL of the API proxy in server/, e.g. /proxy or http://localhost:8787
+  readonly VITE_API_PROXY_URL?: string
+}
@@ -0,0 +1,225 @@
+// @vitest-environment node
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest'
+import { createServer, type Server } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+
+import type { Field } from '@/types/field'
+import type { ProcessedWeatherData } from '@/types/weather'
+import { defaultFieldDraft } from '@/data/fields'
+import { withQualityFlags } from '@/services/qualityControl'
+import { windSpeedAt2m } from '@/services/calculations/penmanMonteith'
+import { createApi } from '../api'
+
+const day = (date: string, mode: 'forecast' | 'observed' = 'forecast'): ProcessedWeatherData =>
+  withQualityFlags({
+    date,
+    mode,
+    maxTemperature: 32,
+    minTemperature: 14,
+    relativeHumidity: 50,
+    windSpeed: 2,
+    station: {
+      id: 'grid',
+      name: 'Grid',
+      latitude: 38.5,
+      longitude: -121.7,
+      elevation: 20,
+      timeZone: 'America/Los_Angeles',
+    },
+    timestamp: `${date}T12:00:00Z`,
+    sourceData: {
+      temperatures: [],
+      humidity: [],
+      windSpeed: [],
+      forecastDate: `${date}T12:00:00Z`,
+      provider: 'Test provider',
+    },
+  })
+
+// Stand-in for the weather service: forecast from 10 July, observations for 9 July
+const weather = {
+  getDailyForecastSeries: vi.fn(async () =>
+    ['2026-07-10', '2026-07-11', '2026-07-12'].map((date) => day(date)),
+  ),
+  getObservedWeatherData: async () => day('2026-07-09', 'observed'),
+}
+
+const field: Field = {
+  ...defaultFieldDraft(),
+  id: 'north',
+  name: 'North block',
+  latitude: 38.5,
+  longitude: -121.7,
+  createdAt: '2026-07-01T00:00:00Z',
+  updatedAt: '2026-07-01T00:00:00Z',
+}
+
+describe('createApi', () => {
+  let server: Server
+  let base: string
+  let directory: string
+
+  beforeAll(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'pme-api-'))
+    const fieldsFile = join(directory, 'fields.json')
+    await writeFile(fieldsFile, JSON.stringify([field]))
+
+    const api = createApi({ weather, fieldsFile })
+    server = createServer((req, res) => void api(req, res))
+    await new Promise<void>((resolve) => server.listen(0, resolve))
+    base = `http://localhost:${(server.address() as AddressInfo).port}`
+  })
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve))
+    await rm(directory, { recursive: true })
+  })
+
+  it('returns forecast ET₀ with its inputs, quality flags and provenance', async () => {
+    const response = await fetch(`${base}/api/et0?lat=38.5&lon=-121.7&date=2026-07-11`)
+    const body = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(body.date).toBe('2026-07-11')
+    expect(body.mode).toBe('forecast')
+    expect(body.et0).toBeGreaterThan(5)
+    expect(body.et0).toBe(body.result.et0)
+    expect(body.inputs.solarRadiationMethod).toBe('temperature')
+    expect(body.quality.maxTemperature).toEqual({ flag: 'forecast' })
+    expect(body.sourceData.provider).toBe('Test provider')
+  })
+
+  it('answers yesterday from observations and rejects dates out of range', async () => {
+    const observed = await fetch(`${base}/api/et0?lat=38.5&lon=-121.7&date=2026-07-09`)
+    expect((await observed.json()).mode).toBe('observed')
+
+    const missing = await fetch(`${base}/api/et0?lat=38.5&lon=-121.7&date=2026-08-01`)
+    expect(missing.status).toBe(404)
+
+    const invalid = await fetch(`${base}/api/et0?lat=95&lon=-121.7`)
+    expect(invalid.status).toBe(400)
+    expect((await invalid.json()).field).toBe('lat')
+  })
+
+  it('calculates ET₀ from supplied weather, converting wind to 2 m', async () => {
+    const post = (body: object) =>
+      fetch(`${base}/api/et0`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify(body),
+      })
+    const supplied = {
+      date: '2026-07-06',
+      latitude: 50.8,
+      longitude: 4.35,
+      elevation: 100,
+      maxTemperature: 21.5,
+      minTemperature: 12.3,
+      relativeHumidity: 73,
+      windSpeed: 3.2,
+      windHeight: 10,
+    }
+
+    const response = await post(supplied)
+    const body = await response.json()
+    expect(response.status).toBe(200)
+    expect(body.mode).toBe('supplied')
+    expect(body.inputs.windSpeed).toBeCloseTo(windSpeedAt2m(3.2, 10), 6)
+    expect(body.sourceData.windSpeed[0].measurementHeight).toBe(10)
+    expect(body.quality.relativeHumidity).toEqual({ flag: 'measured' })
+
+    const invalid = await post({ ...supplied, relativeHumidity: undefined })
+    expect(invalid.status).toBe(400)
+    expect((await invalid.json()).field).toBe('relativeHumidity')
+
+    const noLongitude = await post({ ...supplied, longitude: undefined })
+    expect(noLongitude.status).toBe(400)
+    expect((await noLongitude.json()).field).toBe('longitude')
+  })
+
+  it("returns a saved field's ETc with the forecast days behind it", async () => {
+    const response = await fetch(`${base}/api/fields/north/etc`)
+    const body = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(body.field.name).toBe('North block')
+    expect(body.status.date).toBe('2026-07-10')
+    expect(body.status.etc).toBeCloseTo(body.days[0].et0, 6)
+    expect(body.days).toHaveLength(3)
+
+    expect((await fetch(`${base}/api/fields/south/etc`)).status).toBe(404)
+
+    const malformed = await fetch(`${base}/api/fields/%E0/etc`)
+    expect(malformed.status).toBe(400)
+    expect(await malformed.json()).toEqual({ error: 'Invalid field id', field: 'id' })
+  })
+
+  it("estimates a field's missing humidity for the aridity asked for", async () => {
+    const response = await fetch(`${base}/api/fields/north/etc?aridity=arid`)
+    expect(response.status).toBe(200)
+    expect(weather.getDailyForecastSeries).toHaveBeenLastCalledWith(
+      { latitude: 38.5, longitude: -121.7, aridity: 'arid' },
+      7,
+    )
+
+    const invalid = await fetch(`${base}/api/fields/north/etc?aridity=wet`)
+    expect(invalid.status).toBe(400)
+    expect((await invalid.json()).field).toBe('aridity')
+  })
+
+  it('reports a malformed fields file as a configuration error', async () => {
+    const fieldsFile = join(directory, 'broken.json')
+    const api = createApi({ weather, fieldsFile })
+    const broken = createServer((req, res) => void api(req, res))
+    await new Promise<void>((resolve) => broken.listen(0, resolve))
+    const url = `http://localhost:${(broken.address() as AddressInfo).port}/api/fields/north/etc`
+
+    try {
+      await writeFile(fieldsFile, '[{"id": "north",')
+      const invalid = await fetch(url)
+      expect(invalid.status).toBe(500)
+      expect((await invalid.json()).error).toMatch(/broken.json is not valid JSON/)
+
+      await writeFile(fieldsFile, JSON.stringify({ north: field }))
+      const notArray = await fetch(url)
+      expect(notArray.status).toBe(500)
+      expect((await notArray.json()).error).toMatch(/must hold a JSON array of fields/)
+    } finally {
+      await new Promise((resolve) => broken.close(resolve))
+    }
+  })
+
+  it('reports weather service failures as 502 and its own as 500', async () => {
+    const logged = vi.spyOn(console, 'error').mockImplementation(() => undefined)
+    try {
+      weather.getDailyForecastSeries.mockRejectedValueOnce(
+        new Error('No weather providers available for this location'),
+      )
+      const unavailable = await fetch(`${base}/api/et0?lat=38.5&lon=-121.7`)
+      expect(unavailable.status).toBe(502)
+      expect((await unavailable.json()).error).toBe(
+        'No weather providers available for this location',
+      )
+
+      // A series that is not an array: a bug here, not in the request or the weather service
+      weather.getDailyForecastSeries.mockResolvedValueOnce(
+        null as unknown as ProcessedWeatherData[],
+      )
+      const broken = await fetch(`${base}/api/et0?lat=38.5&lon=-121.7`)
+      expect(broken.status).toBe(500)
+      expect(await broken.json()).toEqual({ error: 'Internal server error' })
+      expect(logged).toHaveBeenCalledWith('API error:', expect.any(TypeError))
+    } finally {
+      logged.mockRestore()
+    }
+  })
+
+  it('publishes its OpenAPI document', async () => {
+    const document = await (await fetch(`${base}/api/openapi.json`)).json()
+    expect(document.openapi).toBe('3.1.0')
+    expect(Object.keys(document.paths)).toEqual(['/api/et0', '/api/fields/{id}/etc'])
+  })
+})
@@ -0,0 +1,99 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest'
+import { createServer, type Server } from 'node:http'
+import type { AddressInfo } from 'node:net'
+
+import { createProxy } from '../proxy'
+import { ResponseCache, freshnessLifetime } from '../responseCache'
+
+describe('freshnessLifetime', () => {
+  const now = Date.parse('2025-07-01T12:00:00Z')
+
+  it('prefers s-maxage over max-age', () => {
+    expect(freshnessLifetime({ 'cache-control': 'public, max-age=60, s-maxage=300' }, now)).toBe(
+      300000,
+    )
+    expect(freshnessLifetime({ 'cache-control': 'max-age=60' }, now)).toBe(60000)
+  })
+
+  it('does not store no-store, no-cache or private responses', () => {
+    expect(freshnessLifetime({ 'cache-control': 'no-store' }, now, 1000)).toBe(0)
+    expect(freshnessLifetime({ 'cache-control': 'private, max-age=60' }, now)).toBe(0)
+  })
+
+  it('falls back to Expires relative to Date, then to the default', () => {
+    const headers = {
+      expires: 'Tue, 01 Jul 2025 12:10:00 GMT',
+      date: 'Tue, 01 Jul 2025 12:05:00 GMT',
+    }
+    expect(freshnessLifetime(headers, now)).toBe(300000)
+    expect(freshnessLifetime({ expires: '0' }, now, 1000)).toBe(0)
+    expect(freshnessLifetime({}, now, 1000)).toBe(1000)
+  })
+})
+
+describe('createProxy', () => {
+  // Proxy on a local port with a stand-in for the upstream APIs
+  async function startProxy(upstream: (url: string, init?: RequestInit) => Response) {
+    const requests: Array<{ url: string; headers: Record<string, string> }> = []
+    const proxy = createProxy({
+      userAgent: 'Test Agent (test@example.com)',
+      cache: new ResponseCache(),
+      fetch: async (input, init) => {
+        requests.push({ url: String(input), headers: init?.headers as Record<string, string> })
+        return upstream(String(input), init)
+      },
+    })
+    const server: Server = createServer((req, res) => void proxy(req, res))
+    await new Promise<void>((resolve) => server.listen(0, resolve))
+    const base = `http://localhost:${(server.address() as AddressInfo).port}`
+    return { base, requests, close: () => new Promise((resolve) => server.close(resolve)) }
+  }
+
+  it('forwards to weather.gov with a User-Agent and caches per Cache-Control', async () => {
+    const { base, requests, close } = await startProxy(
+      () =>
+        new Response('{"ok":true}', {
+          headers: { 'content-type': 'application/geo+json', 'cache-control': 'max-age=60' },
+        }),
+    )
+    try {
+      const first = await fetch(`${base}/nws/points/47.6,-122.3`)
+      expect(await first.json()).toEqual({ ok: true })
+      expect(first.headers.get('x-pme-cache')).toBe('MISS')
+      expect(first.headers.get('access-control-allow-origin')).toBe('*')
+      expect(first.headers.get('access-control-expose-headers')).toBe(
+        'x-pme-cache, x-pme-cached-at',
+      )
+
+      const second = await fetch(`${base}/nws/points/47.6,-122.3`)
+      expect(second.headers.get('x-pme-cache')).toBe('HIT')
+
+      expect(requests).toHaveLength(1)
+      expect(requests[0].url).toBe('https://api.weather.gov/points/47.6,-122.3')
+      expect(requests[0].headers['User-Agent']).toBe('Test Agent (test@example.com)')
+    } finally {
+      await close()
+    }
+  })
+
+  it('does not cache errors and rejects unknown APIs and other methods', async () => {
+    const { base, requests, close } = await startProxy(
+      () => new Response('busy', { status: 503, headers: { 'cache-control': 'max-age=60' } }),
+    )
+    try {
+      const search = `${base}/nominatim/search?q=Yakima&format=json`
+      expect((await fetch(search)).status).toBe(503)
+      expect((await fetch(search)).status).toBe(503)
+      expect(requests).toHaveLength(2)
+      expect(requests[0].url).toBe(
+        'https://nominatim.openstreetmap.org/search?q=Yakima&format=json',
+      )
+
+      expect((await fetch(`${base}/elsewhere/x`)).status).toBe(404)
+      expect((await fetch(`${base}/nws/points/1,2`, { method: 'POST' })).status).toBe(405)
+    } finally {
+      await close()
+    }
+  })
+})
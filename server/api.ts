@@ -0,0 +1,330 @@
+import type { IncomingMessage, ServerResponse } from 'node:http'
+import { readFile } from 'node:fs/promises'
+import type { Field } from '@/types/field'
+import type { AridityClass } from '@/types/penmanMonteith'
+import type { Location, ProcessedWeatherData, WeatherDataSource } from '@/types/weather'
+import { weatherService } from '@/services/weatherService'
+import { WeatherServiceError } from '@/services/weatherServiceError'
+import { et0Report, weatherDate, type Et0Report } from '@/services/dailyEt0'
+import { computeFieldStatus } from '@/services/fieldStatus'
+import { withQualityFlags } from '@/services/qualityControl'
+import { windSpeedAt2m } from '@/services/calculations/penmanMonteith'
+import { openApiDocument } from './openapi'
+
+type WeatherSource = Pick<
+  typeof weatherService,
+  'getDailyForecastSeries' | 'getObservedWeatherData'
+>
+
+export interface ApiOptions {
+  weather?: WeatherSource
+  fieldsFile?: string // JSON array of saved fields, for /api/fields
+  allowOrigin?: string // Access-Control-Allow-Origin, '*' by default
+}
+
+export type ApiHandler = (
+  req: IncomingMessage,
+  res: ServerResponse,
+  next?: () => void,
+) => Promise<void>
+
+const FORECAST_DAYS = 7
+const MAX_BODY_BYTES = 64 * 1024
+const ARIDITY_CLASSES: AridityClass[] = ['humid', 'semi-arid', 'arid']
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+// A client error, reported with its status and the offending parameter
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+    readonly field?: string,
+  ) {
+    super(message)
+    this.name = 'HttpError'
+  }
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'content-type': 'application/json; charset=utf-8' })
+  res.end(JSON.stringify(body))
+}
+
+function numberParam(params: URLSearchParams, name: string, min: number, max: number): number {
+  const value = Number(params.get(name) ?? NaN)
+  if (!Number.isFinite(value) || value < min || value > max) {
+    throw new HttpError(400, `${name} must be a number from ${min} to ${max}`, name)
+  }
+  return value
+}
+
+function dateParam(value: unknown, name: string): string {
+  if (typeof value !== 'string' || !DATE_PATTERN.test(value) || Number.isNaN(Date.parse(value))) {
+    throw new HttpError(400, `${name} must be a date as YYYY-MM-DD`, name)
+  }
+  return value
+}
+
+function aridityParam(params: URLSearchParams): AridityClass {
+  const aridity = params.get('aridity') ?? 'humid'
+  if (!ARIDITY_CLASSES.includes(aridity as AridityClass)) {
+    throw new HttpError(400, `aridity must be one of ${ARIDITY_CLASSES.join(', ')}`, 'aridity')
+  }
+  return aridity as AridityClass
+}
+
+// A weather service request, with any failure reported as an upstream error
+async function upstream<T>(request: () => Promise<T>): Promise<T> {
+  try {
+    return await request()
+  } catch (error) {
+    if (error instanceof WeatherServiceError) throw error
+    const message = error instanceof Error ? error.message : 'Weather service error'
+    throw new WeatherServiceError(message, 'UNKNOWN')
+  }
+}
+
+function fieldIdParam(value: string): string {
+  try {
+    return decodeURIComponent(value)
+  } catch {
+    throw new HttpError(400, 'Invalid field id', 'id')
+  }
+}
+
+/**
+ * ET₀ of a location on a forecast day, or yesterday from station observations
+ */
+async function et0ForLocation(weather: WeatherSource, params: URLSearchParams): Promise<Et0Report> {
+  const location: Location = {
+    latitude: numberParam(params, 'lat', -90, 90),
+    longitude: numberParam(params, 'lon', -180, 180),
+    aridity: aridityParam(params),
+  }
+  const date = params.has('date') ? dateParam(params.get('date'), 'date') : undefined
+
+  const series = await upstream(() => weather.getDailyForecastSeries(location, FORECAST_DAYS))
+  if (series.length === 0) throw new HttpError(404, 'No forecast data available')
+  const day = date ? series.find((data) => weatherDate(data) === date) : series[0]
+  if (day) return et0Report(day, 'forecast')
+
+  const firstDate = weatherDate(series[0])
+  if (date && date < firstDate) {
+    const observed = await upstream(() => weather.getObservedWeatherData(location))
+    if (weatherDate(observed) === date) return et0Report(observed, 'observed')
+  }
+  const lastDate = weatherDate(series[series.length - 1])
+  throw new HttpError(
+    404,
+    `No weather for ${date}: yesterday is observed and ${firstDate} to ${lastDate} forecast`,
+    'date',
+  )
+}
+
+async function readJson(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = []
+  let size = 0
+  for await (const chunk of req as AsyncIterable<Buffer>) {
+    size += chunk.length
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, 'Request body is too large')
+    chunks.push(chunk)
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'))
+  } catch {
+    throw new HttpError(400, 'Request body is not valid JSON')
+  }
+}
+
+/**
+ * Daily weather from a POST /api/et0 body, with the request as its provenance
+ */
+function suppliedWeather(body: unknown): ProcessedWeatherData {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    throw new HttpError(400, 'Request body must be a JSON object')
+  }
+  const input = body as Record<string, unknown>
+  const optional = (name: string, min: number, max: number): number | undefined => {
+    const value = input[name]
+    if (value === undefined || value === null) return undefined
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) {
+      throw new HttpError(400, `${name} must be a number from ${min} to ${max}`, name)
+    }
+    return value
+  }
+  const required = (name: string, min: number, max: number): number => {
+    const value = optional(name, min, max)
+    if (value === undefined) throw new HttpError(400, `${name} is required`, name)
+    return value
+  }
+
+  const date = dateParam(input.date, 'date')
+  const maxTemperature = required('maxTemperature', -60, 60)
+  const minTemperature = required('minTemperature', -60, 60)
+  const relativeHumidity = required('relativeHumidity', 0, 100)
+  const windHeight = optional('windHeight', 0.5, 100) ?? 2
+  const windSpeed = windSpeedAt2m(required('windSpeed', 0, 75), windHeight)
+  const retrievedAt = new Date().toISOString()
+  const supplied = (value: number, period: string, valueCelsius?: number): WeatherDataSource => ({
+    value,
+    valueCelsius,
+    date: `${date}T00:00:00Z`,
+    source: 'Supplied with the request',
+    period,
+  })
+
+  return withQualityFlags({
+    date,
+    mode: 'observed',
+    maxTemperature,
+    minTemperature,
+    relativeHumidity,
+    maxRelativeHumidity: optional('maxRelativeHumidity', 0, 100),
+    minRelativeHumidity: optional('minRelativeHumidity', 0, 100),
+    dewpoint: optional('dewpoint', -60, 60),
+    windSpeed,
+    windMeasurementHeight: windHeight !== 2 ? windHeight : undefined,
+    solarRadiation: optional('solarRadiation', 0, 50),
+    station: {
+      id: 'supplied',
+      name: 'Supplied weather',
+      latitude: required('latitude', -90, 90),
+      longitude: required('longitude', -180, 180),
+      elevation: required('elevation', -500, 9000),
+    },
+    timestamp: retrievedAt,
+    sourceData: {
+      temperatures: [
+        // Fahrenheit for display, as from the weather providers
+        supplied((maxTemperature * 9) / 5 + 32, 'Daily maximum', maxTemperature),
+        supplied((minTemperature * 9) / 5 + 32, 'Daily minimum', minTemperature),
+      ],
+      humidity: [supplied(relativeHumidity, 'Daily mean')],
+      windSpeed: [
+        windHeight === 2
+          ? supplied(windSpeed, 'Daily mean')
+          : {
+              ...supplied(windSpeed, `Daily mean at 2 m (from ${windHeight} m)`),
+              measurementHeight: windHeight,
+            },
+      ],
+      forecastDate: `${date}T00:00:00Z`,
+      provider: 'Supplied with the request',
+      retrievedAt,
+    },
+  })
+}
+
+async function loadFields(file: string): Promise<Field[]> {
+  let text: string
+  try {
+    text = await readFile(file, 'utf8')
+  } catch {
+    throw new HttpError(404, `No fields file at ${file}`)
+  }
+  let fields: unknown
+  try {
+    fields = JSON.parse(text)
+  } catch {
+    throw new HttpError(500, `Fields file ${file} is not valid JSON`)
+  }
+  if (!Array.isArray(fields)) {
+    throw new HttpError(500, `Fields file ${file} must hold a JSON array of fields`)
+  }
+  return fields as Field[]
+}
+
+/**
+ * Today's ETc and irrigation outlook of a saved field, with the forecast days behind it
+ */
+async function fieldEtc(
+  weather: WeatherSource,
+  fieldsFile: string,
+  id: string,
+  params: URLSearchParams,
+) {
+  const aridity = aridityParam(params)
+  const field = (await loadFields(fieldsFile)).find((candidate) => candidate.id === id)
+  if (!field) throw new HttpError(404, `No field ${id}`, 'id')
+
+  const series = await upstream(() =>
+    weather.getDailyForecastSeries(
+      { latitude: field.latitude, longitude: field.longitude, aridity },
+      FORECAST_DAYS,
+    ),
+  )
+  const status = computeFieldStatus(field, series)
+  if (!status) throw new HttpError(404, 'No forecast data available')
+
+  const { name, farm, cropId, plantingDate } = field
+  return {
+    field: { id, name, farm, cropId, plantingDate },
+    status,
+    days: series.map((day) => et0Report(day, 'forecast')),
+  }
+}
+
+/**
+ * JSON API over the calculator's weather service and calculations:
+ *
+ * - GET /api/et0?lat=&lon=&date= - ET₀ from forecast or observed weather
+ * - POST /api/et0 - ET₀ from weather in the request body
+ * - GET /api/fields/:id/etc - today's ETc and irrigation outlook of a saved field
+ * - GET /api/openapi.json - OpenAPI description
+ *
+ * Like the proxy it works standalone or as Connect middleware, passing other paths to next().
+ */
+export function createApi(options: ApiOptions = {}): ApiHandler {
+  const weather = options.weather ?? weatherService
+  const fieldsFile = options.fieldsFile ?? 'fields.json'
+  const allowOrigin = options.allowOrigin || '*'
+
+  const route = async (method: string, url: URL, req: IncomingMessage): Promise<unknown> => {
+    const fieldMatch = /^\/api\/fields\/([^/]+)\/etc$/.exec(url.pathname)
+
+    if (url.pathname === '/api/openapi.json' && method === 'GET') return openApiDocument
+    if (url.pathname === '/api/et0' && method === 'GET') {
+      return et0ForLocation(weather, url.searchParams)
+    }
+    if (url.pathname === '/api/et0' && method === 'POST') {
+      return et0Report(suppliedWeather(await readJson(req)), 'supplied')
+    }
+    if (fieldMatch && method === 'GET') {
+      return fieldEtc(weather, fieldsFile, fieldIdParam(fieldMatch[1]), url.searchParams)
+    }
+    throw new HttpError(404, `No route for ${method} ${url.pathname}`)
+  }
+
+  return async (req, res, next) => {
+    const url = new URL(req.url ?? '/', 'http://localhost')
+    if (url.pathname !== '/api' && !url.pathname.startsWith('/api/')) {
+      if (next) return next()
+      return sendJson(res, 404, { error: `No route for ${url.pathname}` })
+    }
+
+    res.setHeader('access-control-allow-origin', allowOrigin)
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, {
+        'access-control-allow-methods': 'GET, POST, OPTIONS',
+        'access-control-allow-headers': 'Content-Type',
+        'access-control-max-age': '86400',
+      })
+      return void res.end()
+    }
+
+    try {
+      sendJson(res, 200, await route(req.method ?? 'GET', url, req))
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return sendJson(res, error.status, { error: error.message, field: error.field })
+      }
+      if (error instanceof WeatherServiceError) {
+        return sendJson(res, 502, { error: error.message, code: error.code, field: error.field })
+      }
+      // A bug rather than a bad request or an unreachable weather service
+      console.error('API error:', error)
+      sendJson(res, 500, { error: 'Internal server error' })
+    }
+  }
+}
@@ -0,0 +1,20 @@
+import { createServer } from 'node:http'
+import { createApi } from './api'
+import { createProxy } from './proxy'
+
+// JSON API under /api and the weather.gov and Nominatim proxy under /nws and /nominatim:
+// npm run server, then build or run the app with VITE_API_PROXY_URL=http://localhost:8787
+const port = Number(process.env.PME_PROXY_PORT) || 8787
+const allowOrigin = process.env.PME_PROXY_ALLOW_ORIGIN
+const api = createApi({ fieldsFile: process.env.PME_FIELDS_FILE, allowOrigin })
+const proxy = createProxy({ userAgent: process.env.PME_PROXY_USER_AGENT, allowOrigin })
+
+createServer((req, res) => {
+  api(req, res, () => proxy(req, res)).catch((error: unknown) => {
+    console.error('Server error:', error)
+    if (!res.headersSent) res.writeHead(500)
+    res.end()
+  })
+}).listen(port, () => {
+  console.log(`Listening on http://localhost:${port} (/api, /nws, /nominatim)`)
+})
@@ -0,0 +1,213 @@
+// OpenAPI description of the JSON API in api.ts, served at /api/openapi.json
+
+const number = { type: 'number' }
+const string = { type: 'string' }
+const date = { type: 'string', format: 'date', example: '2025-07-01' }
+
+const source = {
+  type: 'object',
+  description: 'One value behind a daily input and where it came from',
+  properties: {
+    value: number,
+    valueCelsius: number,
+    date: { type: 'string', format: 'date-time' },
+    source: string,
+    period: string,
+    url: { type: 'string', format: 'uri' },
+    measurementHeight: { ...number, description: 'm, for wind converted to 2 m' },
+  },
+  required: ['value', 'date', 'source'],
+}
+
+const aridity = {
+  name: 'aridity',
+  in: 'query',
+  schema: { type: 'string', enum: ['humid', 'semi-arid', 'arid'] },
+  description: 'Climate for estimating missing humidity (FAO-56 eq. 48), humid when omitted',
+}
+
+const errorResponse = {
+  description: 'Error',
+  content: {
+    'application/json': {
+      schema: {
+        type: 'object',
+        properties: { error: string, code: string, field: string },
+        required: ['error'],
+      },
+    },
+  },
+}
+
+export const openApiDocument = {
+  openapi: '3.1.0',
+  info: {
+    title: 'Penman-Monteith ET API',
+    version: '1.0.0',
+    description:
+      'FAO-56 reference evapotranspiration (ET₀) and crop evapotranspiration (ETc) from the ' +
+      'same weather services and calculations as the web calculator. Every result carries the ' +
+      'provenance of its weather inputs (sourceData) and their quality flags.',
+  },
+  servers: [{ url: '/' }],
+  paths: {
+    '/api/et0': {
+      get: {
+        summary: 'ET₀ of a location from forecast or observed weather',
+        description:
+          'Forecast days (today onwards) come from the gridded forecast, yesterday from the ' +
+          'nearest observing station.',
+        parameters: [
+          { name: 'lat', in: 'query', required: true, schema: number },
+          { name: 'lon', in: 'query', required: true, schema: number },
+          {
+            name: 'date',
+            in: 'query',
+            schema: date,
+            description: 'Yesterday to 6 days ahead; today when omitted',
+          },
+          aridity,
+        ],
+        responses: {
+          '200': {
+            description: 'ET₀ with its inputs and their provenance',
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/Et0' } } },
+          },
+          '400': errorResponse,
+          '404': errorResponse,
+          '502': errorResponse,
+        },
+      },
+      post: {
+        summary: 'ET₀ from weather you supply',
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': { schema: { $ref: '#/components/schemas/WeatherInput' } },
+          },
+        },
+        responses: {
+          '200': {
+            description: 'ET₀ with its inputs',
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/Et0' } } },
+          },
+          '400': errorResponse,
+        },
+      },
+    },
+    '/api/fields/{id}/etc': {
+      get: {
+        summary: "Today's ETc and irrigation outlook of a saved field",
+        parameters: [{ name: 'id', in: 'path', required: true, schema: string }, aridity],
+        responses: {
+          '200': {
+            description: 'Field status with the forecast days it was calculated from',
+            content: {
+              'application/json': { schema: { $ref: '#/components/schemas/FieldEtc' } },
+            },
+          },
+          '400': errorResponse,
+          '404': errorResponse,
+          '500': errorResponse,
+          '502': errorResponse,
+        },
+      },
+    },
+  },
+  components: {
+    schemas: {
+      WeatherInput: {
+        type: 'object',
+        properties: {
+          date,
+          latitude: { ...number, description: 'decimal degrees' },
+          longitude: { ...number, description: 'decimal degrees' },
+          elevation: { ...number, description: 'm above sea level' },
+          maxTemperature: { ...number, description: '°C' },
+          minTemperature: { ...number, description: '°C' },
+          relativeHumidity: { ...number, description: '%, daily mean' },
+          maxRelativeHumidity: { ...number, description: '%' },
+          minRelativeHumidity: { ...number, description: '%' },
+          dewpoint: { ...number, description: '°C' },
+          windSpeed: { ...number, description: 'm/s at windHeight' },
+          windHeight: { ...number, description: 'm above ground, 2 when omitted' },
+          solarRadiation: {
+            ...number,
+            description: 'MJ/m²/day; estimated from the temperature range when omitted',
+          },
+        },
+        required: [
+          'date',
+          'latitude',
+          'longitude',
+          'elevation',
+          'maxTemperature',
+          'minTemperature',
+          'relativeHumidity',
+          'windSpeed',
+        ],
+      },
+      Et0: {
+        type: 'object',
+        properties: {
+          date,
+          et0: { ...number, description: 'mm/day' },
+          mode: { type: 'string', enum: ['forecast', 'observed', 'supplied'] },
+          inputs: { type: 'object', description: 'Penman-Monteith inputs in metric units' },
+          result: {
+            type: 'object',
+            description: 'Every intermediate term of FAO-56 eq. 6',
+          },
+          station: { type: 'object' },
+          quality: {
+            type: 'object',
+            description: 'Quality flag of each input (ASCE-EWRI 2005 Appendix D)',
+          },
+          sourceData: { $ref: '#/components/schemas/SourceData' },
+        },
+        required: ['date', 'et0', 'mode', 'inputs', 'result'],
+      },
+      SourceData: {
+        type: 'object',
+        properties: {
+          temperatures: { type: 'array', items: source },
+          humidity: { type: 'array', items: source },
+          windSpeed: { type: 'array', items: source },
+          precipitation: { type: 'array', items: source },
+          provider: string,
+          retrievedAt: { type: 'string', format: 'date-time' },
+          filledValues: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                variable: string,
+                value: number,
+                flag: { type: 'string', enum: ['estimated', 'defaulted'] },
+                reason: string,
+              },
+            },
+          },
+        },
+        additionalProperties: true,
+      },
+      FieldEtc: {
+        type: 'object',
+        properties: {
+          field: {
+            type: 'object',
+            properties: { id: string, name: string, farm: string, cropId: string },
+          },
+          status: {
+            type: 'object',
+            description:
+              'ET₀, Kc, ETc (mm/day), root zone depletion and next irrigation. The API has no ' +
+              'past weather, so outlook is true unless the depletion was checked today.',
+          },
+          days: { type: 'array', items: { $ref: '#/components/schemas/Et0' } },
+        },
+        required: ['field', 'status', 'days'],
+      },
+    },
+  },
+}
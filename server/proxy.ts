@@ -0,0 +1,113 @@
+import type { IncomingMessage, ServerResponse } from 'node:http'
+import { ResponseCache, freshnessLifetime } from './responseCache'
+import { API_USER_AGENT } from '../src/services/apiConfig'
+import { CACHED_AT_HEADER } from '../src/services/offlineCache'
+
+interface Upstream {
+  origin: string
+  defaultTtl: number // ms, for responses without caching headers
+}
+
+// Upstream APIs by path prefix: /nws/points/... is fetched from https://api.weather.gov/points/...
+export const UPSTREAMS = new Map<string, Upstream>([
+  ['nws', { origin: 'https://api.weather.gov', defaultTtl: 60 * 1000 }],
+  // Nominatim's usage policy asks clients to cache results; places rarely move
+  ['nominatim', { origin: 'https://nominatim.openstreetmap.org', defaultTtl: 24 * 3600 * 1000 }],
+])
+
+// Upstream headers passed on to the browser
+const FORWARDED_HEADERS = ['content-type', 'cache-control', 'expires', 'last-modified', 'date']
+
+export interface ProxyOptions {
+  userAgent?: string
+  allowOrigin?: string // Access-Control-Allow-Origin, '*' by default
+  cache?: ResponseCache
+  fetch?: typeof fetch
+}
+
+export type ProxyHandler = (
+  req: IncomingMessage,
+  res: ServerResponse,
+  next?: () => void,
+) => Promise<void>
+
+function sendText(res: ServerResponse, status: number, text: string) {
+  res.writeHead(status, { 'content-type': 'text/plain; charset=utf-8' })
+  res.end(text)
+}
+
+/**
+ * Request handler that forwards GET requests under /nws and /nominatim to the upstream APIs with
+ * identifying headers, answers CORS preflights and serves repeated requests from a shared cache
+ *
+ * Works as a standalone http.createServer handler and as Connect middleware (Vite), where paths
+ * it doesn't know are passed to next().
+ */
+export function createProxy(options: ProxyOptions = {}): ProxyHandler {
+  const userAgent = options.userAgent || API_USER_AGENT
+  const allowOrigin = options.allowOrigin || '*'
+  const cache = options.cache ?? new ResponseCache()
+  const fetchUpstream = options.fetch ?? fetch
+
+  return async (req, res, next) => {
+    const url = new URL(req.url ?? '/', 'http://localhost')
+    const [, prefix, ...path] = url.pathname.split('/')
+    const upstream = UPSTREAMS.get(prefix)
+    if (!upstream) {
+      if (next) return next()
+      return sendText(res, 404, `Unknown API ${prefix}; expected one of ${[...UPSTREAMS.keys()]}`)
+    }
+
+    res.setHeader('access-control-allow-origin', allowOrigin)
+    // The service worker stamps the responses it caches with the cached-at header
+    res.setHeader('access-control-expose-headers', `x-pme-cache, ${CACHED_AT_HEADER}`)
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, {
+        'access-control-allow-methods': 'GET, HEAD, OPTIONS',
+        'access-control-allow-headers': 'Accept',
+        'access-control-max-age': '86400',
+      })
+      return void res.end()
+    }
+    if (req.method !== 'GET' && req.method !== 'HEAD') {
+      res.setHeader('allow', 'GET, HEAD, OPTIONS')
+      return sendText(res, 405, 'Only GET requests are proxied')
+    }
+
+    const target = `${upstream.origin}/${path.join('/')}${url.search}`
+    const accept = req.headers.accept || 'application/json'
+    const key = `${accept} ${target}`
+
+    let entry = cache.get(key)
+    res.setHeader('x-pme-cache', entry ? 'HIT' : 'MISS')
+    if (!entry) {
+      let response: Response
+      try {
+        response = await fetchUpstream(target, {
+          headers: { 'User-Agent': userAgent, Accept: accept },
+        })
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error)
+        return sendText(res, 502, `Upstream request to ${upstream.origin} failed: ${message}`)
+      }
+
+      const headers: Record<string, string> = {}
+      for (const name of FORWARDED_HEADERS) {
+        const value = response.headers.get(name)
+        if (value !== null) headers[name] = value
+      }
+      const now = Date.now()
+      entry = {
+        status: response.status,
+        headers,
+        body: Buffer.from(await response.arrayBuffer()),
+        expiresAt: now + freshnessLifetime(headers, now, upstream.defaultTtl),
+      }
+      // Errors are retried on the next request
+      if (response.ok && entry.expiresAt > now) cache.set(key, entry)
+    }
+
+    res.writeHead(entry.status, entry.headers)
+    res.end(req.method === 'HEAD' ? undefined : entry.body)
+  }
+}
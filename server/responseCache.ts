@@ -0,0 +1,83 @@
+// Shared cache of upstream responses, kept for as long as their Cache-Control or Expires headers
+// allow
+
+export interface CachedResponse {
+  status: number
+  headers: Record<string, string>
+  body: Buffer
+  expiresAt: number // ms since the epoch
+}
+
+/**
+ * Freshness lifetime of a response for a shared cache, in ms (RFC 9111 section 4.2.1)
+ * @param headers - Response headers, names in lower case
+ * @param now - Time the response was received, in ms since the epoch
+ * @param defaultTtl - Lifetime when the response gives none, in ms
+ * @returns 0 when the response must not be stored
+ */
+export function freshnessLifetime(
+  headers: Record<string, string | undefined>,
+  now: number,
+  defaultTtl: number = 0,
+): number {
+  const directives = new Map(
+    (headers['cache-control'] ?? '')
+      .split(',')
+      .map((directive) => directive.trim().toLowerCase().split('='))
+      .filter(([name]) => name)
+      .map(([name, value]) => [name, value?.replace(/"/g, '')]),
+  )
+  if (directives.has('no-store') || directives.has('no-cache') || directives.has('private')) {
+    return 0
+  }
+
+  // s-maxage is for shared caches like this one and wins over max-age
+  const maxAge = Number(directives.get('s-maxage') ?? directives.get('max-age'))
+  if (Number.isFinite(maxAge)) return Math.max(0, maxAge * 1000)
+
+  if (headers.expires !== undefined) {
+    const expires = Date.parse(headers.expires)
+    // An invalid date, such as "0", means already expired
+    if (Number.isNaN(expires)) return 0
+    const date = headers.date !== undefined ? Date.parse(headers.date) : NaN
+    return Math.max(0, expires - (Number.isNaN(date) ? now : date))
+  }
+  return defaultTtl
+}
+
+export class ResponseCache {
+  private entries = new Map<string, CachedResponse>()
+
+  constructor(private readonly maxEntries: number = 500) {}
+
+  /**
+   * Fresh response for a key; expired entries are dropped on the way
+   */
+  get(key: string, now: number = Date.now()): CachedResponse | undefined {
+    const entry = this.entries.get(key)
+    if (!entry) return undefined
+    if (entry.expiresAt <= now) {
+      this.entries.delete(key)
+      return undefined
+    }
+
+    // Most recently used last, so eviction takes the least recently used
+    this.entries.delete(key)
+    this.entries.set(key, entry)
+    return entry
+  }
+
+  set(key: string, entry: CachedResponse) {
+    this.entries.delete(key)
+    this.entries.set(key, entry)
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value
+      if (oldest === undefined) break
+      this.entries.delete(oldest)
+    }
+  }
+
+  get size(): number {
+    return this.entries.size
+  }
+}
@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { computed, ref } from 'vue'
+import { createPinia, setActivePinia } from 'pinia'
+import { flushPromises } from '@vue/test-utils'
+
+import type { Field } from '@/types/field'
+import type { GeocodeResult } from '@/types/geocoding'
+import type { WeatherDataMode } from '@/types/weather'
+import { DEFAULT_IRRIGATION_SYSTEM, defaultFieldDraft } from '@/data/fields'
+import { calendarDate } from '@/services/calculations/hourlyPenmanMonteith'
+import { getAllFields, getStationData, putField } from '@/services/fieldDatabase'
+import { useStationPreferencesStore } from '@/stores/stationPreferences'
+import { useCalculatorField, type CalculatorFieldState } from '../useCalculatorField'
+
+const { route, router } = vi.hoisted(() => {
+  const route = { query: {} as Record<string, string> }
+  return { route, router: { replace: vi.fn() } }
+})
+
+vi.mock('vue-router', () => ({ useRoute: () => route, useRouter: () => router }))
+vi.mock('@/services/fieldDatabase', () => ({
+  getAllFields: vi.fn(),
+  putField: vi.fn(),
+  getStationData: vi.fn(),
+}))
+
+const field: Field = {
+  ...defaultFieldDraft(),
+  id: 'north',
+  name: 'North block',
+  latitude: 38.5,
+  longitude: -121.7,
+  cropId: 'tomato',
+  plantingDate: '2026-04-15',
+  soil: {
+    textureId: 'clay-loam',
+    fieldCapacity: 0.32,
+    wiltingPoint: 0.15,
+    rootDepth: 0.9,
+    depletionFraction: 0.4,
+    initialDepletion: 12,
+    depletionDate: '2026-07-01',
+  },
+  preferredStationId: 'KSAC',
+  units: { temperature: 'C', altitude: 'm', windSpeed: 'm/s' },
+  createdAt: '2026-07-01T00:00:00Z',
+  updatedAt: '2026-07-01T00:00:00Z',
+}
+
+// The calculator's refs as the view has them before a field is opened
+function calculatorState() {
+  const locationLat = ref(0)
+  const locationLon = ref(0)
+  return {
+    temperatureUnit: ref<'C' | 'F'>('F'),
+    altitudeUnit: ref<'m' | 'ft'>('ft'),
+    windSpeedUnit: ref<'m/s' | 'mph'>('mph'),
+    locationLat,
+    locationLon,
+    geocodeResult: ref<GeocodeResult | null>(null),
+    searchQuery: ref(''),
+    cropId: ref(''),
+    plantingDate: ref(''),
+    soilTextureId: ref('sandy-loam'),
+    fieldCapacity: ref(0.23),
+    wiltingPoint: ref(0.11),
+    rootDepth: ref(1),
+    depletionFraction: ref(0.5),
+    initialDepletion: ref(0),
+    useSoilWaterBalance: ref(false),
+    irrigationSystem: ref({ ...DEFAULT_IRRIGATION_SYSTEM }),
+    weatherMode: ref<WeatherDataMode>('imported'),
+    importedDate: ref(''),
+    currentLocation: computed(() => ({
+      latitude: locationLat.value,
+      longitude: locationLon.value,
+    })),
+    pinnedStationId: ref<string | undefined>(undefined),
+    fetchWeatherData: vi.fn(async () => undefined),
+  } satisfies CalculatorFieldState
+}
+
+describe('useCalculatorField', () => {
+  beforeEach(() => {
+    setActivePinia(createPinia())
+    vi.clearAllMocks()
+    route.query = {}
+  })
+
+  it("loads the route's field into the calculator and keeps its depletion date", async () => {
+    vi.mocked(getAllFields).mockResolvedValue([field])
+    vi.mocked(getStationData).mockResolvedValue(undefined)
+    route.query = { field: 'north' }
+    const state = calculatorState()
+
+    const { activeField, saveField } = useCalculatorField(state)
+    await flushPromises()
+
+    expect(activeField.value).toEqual(field)
+    expect(state.temperatureUnit.value).toBe('C')
+    expect(state.searchQuery.value).toBe('38.5, -121.7')
+    expect(state.soilTextureId.value).toBe('clay-loam')
+    expect(state.fieldCapacity.value).toBe(0.32)
+    expect(state.initialDepletion.value).toBe(12)
+    expect(state.useSoilWaterBalance.value).toBe(true)
+    // No imported station data for the field
+    expect(state.weatherMode.value).toBe('forecast')
+    expect(useStationPreferencesStore().pinnedStationFor(state.currentLocation.value)).toBe('KSAC')
+    expect(state.fetchWeatherData).toHaveBeenCalledOnce()
+
+    await saveField()
+    expect(vi.mocked(putField).mock.lastCall?.[0].soil.depletionDate).toBe('2026-07-01')
+    state.initialDepletion.value = 20
+    await saveField()
+    expect(vi.mocked(putField).mock.lastCall?.[0].soil).toMatchObject({
+      initialDepletion: 20,
+      depletionDate: calendarDate(new Date().toISOString()),
+    })
+  })
+
+  it('saves the calculator as a new named field and opens it', async () => {
+    const state = calculatorState()
+    state.locationLat.value = 46.6
+    state.locationLon.value = -120.5
+    const { activeField, newFieldName, fieldMessage, saveField } = useCalculatorField(state)
+
+    await saveField()
+    expect(fieldMessage.value).toBe('Enter a name for the field')
+    expect(putField).not.toHaveBeenCalled()
+
+    newFieldName.value = ' South block '
+    await saveField()
+    expect(fieldMessage.value).toBe('Saved South block')
+    expect(activeField.value).toMatchObject({ name: 'South block', latitude: 46.6 })
+    expect(putField).toHaveBeenCalledWith(activeField.value)
+    expect(router.replace).toHaveBeenCalledWith({ query: { field: activeField.value?.id } })
+  })
+})
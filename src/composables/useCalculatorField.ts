@@ -0,0 +1,186 @@
+import { computed, nextTick, ref, watch, type Ref } from 'vue'
+import { useRoute, useRouter } from 'vue-router'
+import { calendarDate } from '@/services/calculations/hourlyPenmanMonteith'
+import { useFieldsStore } from '@/stores/fields'
+import { useStationDataStore } from '@/stores/stationData'
+import { useStationPreferencesStore } from '@/stores/stationPreferences'
+import type { Field, FieldDraft, FieldUnits } from '@/types/field'
+import type { GeocodeResult } from '@/types/geocoding'
+import type { IrrigationSystem } from '@/types/irrigation'
+import type { Location, WeatherDataMode } from '@/types/weather'
+
+// The calculator state a saved field is loaded into and saved from
+export interface CalculatorFieldState {
+  temperatureUnit: Ref<FieldUnits['temperature']>
+  altitudeUnit: Ref<FieldUnits['altitude']>
+  windSpeedUnit: Ref<FieldUnits['windSpeed']>
+  locationLat: Ref<number>
+  locationLon: Ref<number>
+  geocodeResult: Ref<GeocodeResult | null>
+  searchQuery: Ref<string>
+  cropId: Ref<string>
+  plantingDate: Ref<string>
+  soilTextureId: Ref<string>
+  fieldCapacity: Ref<number>
+  wiltingPoint: Ref<number>
+  rootDepth: Ref<number>
+  depletionFraction: Ref<number>
+  initialDepletion: Ref<number> // mm at the start of today
+  useSoilWaterBalance: Ref<boolean>
+  irrigationSystem: Ref<IrrigationSystem>
+  weatherMode: Ref<WeatherDataMode>
+  importedDate: Ref<string> // YYYY-MM-DD day of the imported station data
+  currentLocation: Readonly<Ref<Location>>
+  pinnedStationId: Readonly<Ref<string | undefined>>
+  fetchWeatherData: () => Promise<void>
+}
+
+/**
+ * Saved fields in the calculator: /penman-monteith?field=<id> loads a field's settings into the
+ * calculator state, and saveField updates that field or saves the state as a new one
+ */
+export function useCalculatorField(state: CalculatorFieldState) {
+  const route = useRoute()
+  const router = useRouter()
+  const fieldsStore = useFieldsStore()
+  const stationDataStore = useStationDataStore()
+  const stationPreferences = useStationPreferencesStore()
+
+  const activeField = ref<Field | null>(null)
+  const newFieldName = ref<string>('')
+  const newFieldFarm = ref<string>('')
+  const fieldMessage = ref<string>('')
+  const savingField = ref<boolean>(false)
+
+  const applyField = async (field: Field) => {
+    activeField.value = field
+    state.temperatureUnit.value = field.units.temperature
+    state.altitudeUnit.value = field.units.altitude
+    state.windSpeedUnit.value = field.units.windSpeed
+
+    state.locationLat.value = field.latitude
+    state.locationLon.value = field.longitude
+    state.geocodeResult.value = field.geocodeResult ?? null
+    state.searchQuery.value =
+      field.geocodeResult?.formattedAddress ?? `${field.latitude}, ${field.longitude}`
+
+    state.cropId.value = field.cropId
+    state.plantingDate.value = field.plantingDate
+    state.soilTextureId.value = field.soil.textureId
+    state.irrigationSystem.value = { ...field.irrigationSystem }
+
+    // The crop and soil texture watchers fill in their defaults first; the field's values win
+    await nextTick()
+    state.fieldCapacity.value = field.soil.fieldCapacity
+    state.wiltingPoint.value = field.soil.wiltingPoint
+    state.rootDepth.value = field.soil.rootDepth
+    state.depletionFraction.value = field.soil.depletionFraction
+    state.initialDepletion.value = field.soil.initialDepletion ?? 0
+    state.useSoilWaterBalance.value = true
+
+    if (field.preferredStationId) {
+      stationPreferences.pinStation(state.currentLocation.value, field.preferredStationId)
+    }
+    // The latest day of the field's own station, when it has imported data
+    const dataset = await stationDataStore.load(field.id)
+    state.importedDate.value = dataset?.days[dataset.days.length - 1]?.date ?? ''
+    if (!dataset && state.weatherMode.value === 'imported') state.weatherMode.value = 'forecast'
+    state.fetchWeatherData()
+  }
+
+  // Imported on-farm station data of the open field
+  const stationDataset = computed(() =>
+    activeField.value ? stationDataStore.datasetFor(activeField.value.id) : null,
+  )
+
+  const currentFieldSettings = (): Omit<FieldDraft, 'name' | 'farm'> => ({
+    latitude: state.locationLat.value,
+    longitude: state.locationLon.value,
+    geocodeResult: state.geocodeResult.value ?? undefined,
+    cropId: state.cropId.value,
+    plantingDate: state.plantingDate.value,
+    soil: {
+      textureId: state.soilTextureId.value,
+      fieldCapacity: state.fieldCapacity.value,
+      wiltingPoint: state.wiltingPoint.value,
+      rootDepth: state.rootDepth.value,
+      depletionFraction: state.depletionFraction.value,
+      initialDepletion: state.initialDepletion.value,
+      // Checked today unless it is still the open field's depletion
+      depletionDate:
+        activeField.value &&
+        state.initialDepletion.value === (activeField.value.soil.initialDepletion ?? 0)
+          ? activeField.value.soil.depletionDate
+          : calendarDate(new Date().toISOString()),
+    },
+    irrigationSystem: { ...state.irrigationSystem.value },
+    preferredStationId: state.pinnedStationId.value,
+    units: {
+      temperature: state.temperatureUnit.value,
+      altitude: state.altitudeUnit.value,
+      windSpeed: state.windSpeedUnit.value,
+    },
+  })
+
+  // Update the open field, or save the calculator as a new field
+  const saveField = async () => {
+    fieldMessage.value = ''
+    if (!activeField.value && !newFieldName.value.trim()) {
+      fieldMessage.value = 'Enter a name for the field'
+      return
+    }
+
+    savingField.value = true
+    try {
+      if (activeField.value) {
+        activeField.value = await fieldsStore.updateField(
+          activeField.value.id,
+          currentFieldSettings(),
+        )
+      } else {
+        activeField.value = await fieldsStore.createField({
+          name: newFieldName.value.trim(),
+          farm: newFieldFarm.value.trim(),
+          ...currentFieldSettings(),
+        })
+        router.replace({ query: { ...route.query, field: activeField.value.id } })
+      }
+      fieldMessage.value = `Saved ${activeField.value.name}`
+    } catch (error) {
+      fieldMessage.value = error instanceof Error ? error.message : 'Failed to save the field'
+    } finally {
+      savingField.value = false
+    }
+  }
+
+  watch(
+    () => route.query.field,
+    async (id) => {
+      if (typeof id !== 'string') {
+        activeField.value = null
+        if (state.weatherMode.value === 'imported') state.weatherMode.value = 'forecast'
+        return
+      }
+      if (id === activeField.value?.id) return
+
+      await fieldsStore.load()
+      const field = fieldsStore.fieldById(id)
+      if (field) {
+        applyField(field)
+      } else {
+        fieldMessage.value = fieldsStore.error || 'Field not found'
+      }
+    },
+    { immediate: true },
+  )
+
+  return {
+    activeField,
+    newFieldName,
+    newFieldFarm,
+    fieldMessage,
+    savingField,
+    stationDataset,
+    saveField,
+  }
+}
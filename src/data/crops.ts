@@ -0,0 +1,194 @@
+import type { Crop } from '@/types/crop'
+
+// Kc values from FAO-56 Table 12, Kcb from Table 17, stage lengths from Table 11 and rooting
+// depth and depletion fraction from Table 22. Where the tables give a range, the middle of the range is used;
+// stage lengths are for the region noted per crop.
+export const CROPS: Crop[] = [
+  {
+    // Field maize (grain), Spain/California, April planting
+    id: 'maize',
+    name: 'Corn (maize, grain)',
+    kcIni: 0.3,
+    kcMid: 1.2,
+    kcEnd: 0.6,
+    kcbIni: 0.15,
+    kcbMid: 1.15,
+    kcbEnd: 0.5,
+    stageLengths: { initial: 30, development: 40, mid: 50, late: 30 },
+    maxHeight: 2,
+    rootDepth: 1.35,
+    depletionFraction: 0.55,
+  },
+  {
+    // First cutting cycle, California
+    id: 'alfalfa',
+    name: 'Alfalfa (hay)',
+    kcIni: 0.4,
+    kcMid: 1.2,
+    kcEnd: 1.15,
+    kcbIni: 0.3,
+    kcbMid: 1.15,
+    kcbEnd: 1.1,
+    stageLengths: { initial: 10, development: 30, mid: 25, late: 10 },
+    maxHeight: 0.7,
+    rootDepth: 1.5,
+    depletionFraction: 0.55,
+  },
+  {
+    // No ground cover, California, March leaf-out
+    id: 'almonds',
+    name: 'Almonds',
+    kcIni: 0.4,
+    kcMid: 0.9,
+    kcEnd: 0.65,
+    kcbIni: 0.35,
+    kcbMid: 0.85,
+    kcbEnd: 0.6,
+    stageLengths: { initial: 20, development: 70, mid: 120, late: 60 },
+    maxHeight: 5,
+    rootDepth: 1.5,
+    depletionFraction: 0.4,
+  },
+  {
+    // Arid region, January planting
+    id: 'tomato',
+    name: 'Tomatoes',
+    kcIni: 0.6,
+    kcMid: 1.15,
+    kcEnd: 0.8,
+    kcbIni: 0.15,
+    kcbMid: 1.1,
+    kcbEnd: 0.7,
+    stageLengths: { initial: 30, development: 40, mid: 40, late: 25 },
+    maxHeight: 0.6,
+    rootDepth: 1.1,
+    depletionFraction: 0.4,
+  },
+  {
+    // Spring wheat, Central India, November planting
+    id: 'spring-wheat',
+    name: 'Wheat (spring)',
+    kcIni: 0.3,
+    kcMid: 1.15,
+    kcEnd: 0.4,
+    kcbIni: 0.15,
+    kcbMid: 1.1,
+    kcbEnd: 0.25,
+    stageLengths: { initial: 20, development: 25, mid: 60, late: 30 },
+    maxHeight: 1,
+    rootDepth: 1.25,
+    depletionFraction: 0.55,
+  },
+  {
+    // Semi-arid climate, January/November planting
+    id: 'potato',
+    name: 'Potatoes',
+    kcIni: 0.5,
+    kcMid: 1.15,
+    kcEnd: 0.75,
+    kcbIni: 0.15,
+    kcbMid: 1.1,
+    kcbEnd: 0.65,
+    stageLengths: { initial: 25, development: 30, mid: 45, late: 30 },
+    maxHeight: 0.6,
+    rootDepth: 0.5,
+    depletionFraction: 0.35,
+  },
+  {
+    // Wine grapes, mid latitudes, April bud break
+    id: 'wine-grapes',
+    name: 'Grapes (wine)',
+    kcIni: 0.3,
+    kcMid: 0.7,
+    kcEnd: 0.45,
+    kcbIni: 0.15,
+    kcbMid: 0.65,
+    kcbEnd: 0.4,
+    stageLengths: { initial: 30, development: 60, mid: 40, late: 80 },
+    maxHeight: 1.75,
+    rootDepth: 1.5,
+    depletionFraction: 0.45,
+  },
+  {
+    // Table or raisin grapes, California, March bud break
+    id: 'table-grapes',
+    name: 'Grapes (table/raisin)',
+    kcIni: 0.3,
+    kcMid: 0.85,
+    kcEnd: 0.45,
+    kcbIni: 0.15,
+    kcbMid: 0.8,
+    kcbEnd: 0.4,
+    stageLengths: { initial: 20, development: 50, mid: 75, late: 60 },
+    maxHeight: 2,
+    rootDepth: 1.5,
+    depletionFraction: 0.35,
+  },
+  {
+    // Egypt/Arizona, March planting
+    id: 'cotton',
+    name: 'Cotton',
+    kcIni: 0.35,
+    kcMid: 1.18,
+    kcEnd: 0.6,
+    kcbIni: 0.15,
+    kcbMid: 1.13,
+    kcbEnd: 0.45,
+    stageLengths: { initial: 30, development: 50, mid: 60, late: 55 },
+    maxHeight: 1.35,
+    rootDepth: 1.35,
+    depletionFraction: 0.65,
+  },
+  {
+    // Central USA, May planting
+    id: 'soybeans',
+    name: 'Soybeans',
+    kcIni: 0.4,
+    kcMid: 1.15,
+    kcEnd: 0.5,
+    kcbIni: 0.15,
+    kcbMid: 1.1,
+    kcbEnd: 0.3,
+    stageLengths: { initial: 20, development: 30, mid: 60, late: 25 },
+    maxHeight: 0.75,
+    rootDepth: 0.95,
+    depletionFraction: 0.5,
+  },
+  {
+    // Mediterranean, May planting
+    id: 'sugar-beet',
+    name: 'Sugar beet',
+    kcIni: 0.35,
+    kcMid: 1.2,
+    kcEnd: 0.7,
+    kcbIni: 0.15,
+    kcbMid: 1.15,
+    kcbEnd: 0.5,
+    stageLengths: { initial: 25, development: 35, mid: 50, late: 50 },
+    maxHeight: 0.5,
+    rootDepth: 0.95,
+    depletionFraction: 0.55,
+  },
+  {
+    // Mediterranean, April planting
+    id: 'lettuce',
+    name: 'Lettuce',
+    kcIni: 0.7,
+    kcMid: 1.0,
+    kcEnd: 0.95,
+    kcbIni: 0.15,
+    kcbMid: 0.9,
+    kcbEnd: 0.9,
+    stageLengths: { initial: 20, development: 30, mid: 15, late: 10 },
+    maxHeight: 0.3,
+    rootDepth: 0.4,
+    depletionFraction: 0.3,
+  },
+]
+
+/**
+ * Look up a crop of the built-in table by id
+ */
+export function findCrop(id: string): Crop | undefined {
+  return CROPS.find((crop) => crop.id === id)
+}
@@ -0,0 +1,38 @@
+import type { FieldDraft } from '@/types/field'
+import type { IrrigationSystem } from '@/types/irrigation'
+
+// A 2 L/h drip line every 1.5 m with emitters every 0.3 m
+export const DEFAULT_IRRIGATION_SYSTEM: IrrigationSystem = {
+  type: 'drip',
+  efficiency: 0.9,
+  emitterFlow: 2,
+  emitterSpacing: 0.3,
+  lateralSpacing: 1.5,
+  sprinklerRate: 8,
+  pivotDepth: 8,
+  pivotRevolutionHours: 24,
+}
+
+/**
+ * Starting values for a new field: sandy loam, drip irrigation and US customary units
+ */
+export function defaultFieldDraft(): FieldDraft {
+  return {
+    name: '',
+    farm: '',
+    latitude: 0,
+    longitude: 0,
+    cropId: '',
+    plantingDate: '',
+    soil: {
+      textureId: 'sandy-loam',
+      fieldCapacity: 0.23,
+      wiltingPoint: 0.11,
+      rootDepth: 1,
+      depletionFraction: 0.5,
+      initialDepletion: 0,
+    },
+    irrigationSystem: { ...DEFAULT_IRRIGATION_SYSTEM },
+    units: { temperature: 'F', altitude: 'ft', windSpeed: 'mph' },
+  }
+}
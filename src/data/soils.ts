@@ -0,0 +1,63 @@
+import type { SoilTexture } from '@/types/soilWater'
+
+// Middle of the θFC, θWP and REW ranges of FAO-56 Table 19
+export const SOIL_TEXTURES: SoilTexture[] = [
+  {
+    id: 'sand',
+    name: 'Sand',
+    fieldCapacity: 0.12,
+    wiltingPoint: 0.045,
+    readilyEvaporableWater: 4.5,
+  },
+  {
+    id: 'loamy-sand',
+    name: 'Loamy sand',
+    fieldCapacity: 0.15,
+    wiltingPoint: 0.065,
+    readilyEvaporableWater: 6,
+  },
+  {
+    id: 'sandy-loam',
+    name: 'Sandy loam',
+    fieldCapacity: 0.23,
+    wiltingPoint: 0.11,
+    readilyEvaporableWater: 8,
+  },
+  { id: 'loam', name: 'Loam', fieldCapacity: 0.25, wiltingPoint: 0.12, readilyEvaporableWater: 9 },
+  {
+    id: 'silt-loam',
+    name: 'Silt loam',
+    fieldCapacity: 0.29,
+    wiltingPoint: 0.15,
+    readilyEvaporableWater: 9.5,
+  },
+  {
+    id: 'silt',
+    name: 'Silt',
+    fieldCapacity: 0.32,
+    wiltingPoint: 0.17,
+    readilyEvaporableWater: 9.5,
+  },
+  {
+    id: 'silty-clay-loam',
+    name: 'Silty clay loam',
+    fieldCapacity: 0.335,
+    wiltingPoint: 0.205,
+    readilyEvaporableWater: 9.5,
+  },
+  {
+    id: 'silty-clay',
+    name: 'Silty clay',
+    fieldCapacity: 0.36,
+    wiltingPoint: 0.23,
+    readilyEvaporableWater: 10,
+  },
+  { id: 'clay', name: 'Clay', fieldCapacity: 0.36, wiltingPoint: 0.22, readilyEvaporableWater: 10 },
+]
+
+/**
+ * Look up a soil texture class by id
+ */
+export function findSoilTexture(id: string): SoilTexture | undefined {
+  return SOIL_TEXTURES.find((soil) => soil.id === id)
+}
@@ -1,13 +1,18 @@
 import { createRouter, createWebHistory } from 'vue-router'
-import HomeView from '../views/HomeView.vue'
+import DashboardView from '../views/DashboardView.vue'
 
 const router = createRouter({
   history: createWebHistory(import.meta.env.BASE_URL),
   routes: [
     {
       path: '/',
+      name: 'dashboard',
+      component: DashboardView,
+    },
+    {
+      path: '/calculators',
       name: 'home',
-      component: HomeView,
+      component: () => import('../views/HomeView.vue'),
     },
     {
       path: '/simple-calculator',
@@ -19,6 +24,16 @@ const router = createRouter({
       name: 'penman-monteith',
       component: () => import('../views/PenmanMonteithView.vue'),
     },
+    {
+      path: '/fields',
+      name: 'fields',
+      component: () => import('../views/FieldsView.vue'),
+    },
+    {
+      path: '/fields/:id',
+      name: 'field',
+      component: () => import('../views/FieldDetailView.vue'),
+    },
     {
       path: '/about',
       name: 'about',
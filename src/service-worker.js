@@ -0,0 +1,153 @@
+// Service worker template; the build writes it to sw.js with the app shell files injected as the
+// precache manifest (see the serviceWorker plugin in vite.config.ts)
+
+const PRECACHE_MANIFEST = self.__PRECACHE_MANIFEST || { version: 'dev', urls: [] }
+
+const SHELL_CACHE = `pme-shell-${PRECACHE_MANIFEST.version}`
+const SHELL_URLS = new Set(PRECACHE_MANIFEST.urls.map((path) => new URL(path, self.location).href))
+const ASSETS_PATH = new URL('assets/', self.location).pathname
+const WEATHER_CACHE = 'pme-weather'
+
+// Must match CACHED_AT_HEADER in src/services/offlineCache.ts
+const CACHED_AT_HEADER = 'x-pme-cached-at'
+
+// Point metadata, gridpoint forecasts and forecast text for the locations looked up last
+const WEATHER_ORIGIN = 'https://api.weather.gov'
+const WEATHER_PATHS = [/^\/points\//, /^\/gridpoints\//]
+// The same requests through the API proxy (VITE_API_PROXY_URL), e.g. /proxy/nws/points/...
+const PROXIED_WEATHER_PATH = /\/nws\/(points|gridpoints)\//
+// Enough for a few dozen fields; the oldest responses are dropped first
+const MAX_WEATHER_ENTRIES = 100
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches
+      .open(SHELL_CACHE)
+      .then((cache) => cache.addAll(PRECACHE_MANIFEST.urls))
+      .then(() => self.skipWaiting()),
+  )
+})
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys
+            .filter((key) => key.startsWith('pme-shell-') && key !== SHELL_CACHE)
+            .map((key) => caches.delete(key)),
+        ),
+      )
+      .then(() => self.clients.claim()),
+  )
+})
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event
+  if (request.method !== 'GET') return
+
+  const url = new URL(request.url)
+  if (isWeatherRequest(url)) {
+    event.respondWith(networkFirst(request))
+  } else if (request.mode === 'navigate') {
+    event.respondWith(appShell(request))
+  } else if (isShellRequest(url)) {
+    event.respondWith(cacheFirst(request))
+  }
+  // Anything else, e.g. the API and the proxy's station and geocoding responses, is left to the
+  // network so it is never served stale
+})
+
+// Files of the precache manifest and hashed build assets, which never change under their URL
+function isShellRequest(url) {
+  if (url.origin !== self.location.origin) return false
+  return SHELL_URLS.has(url.href) || url.pathname.startsWith(ASSETS_PATH)
+}
+
+function isWeatherRequest(url) {
+  if (url.origin === WEATHER_ORIGIN) return WEATHER_PATHS.some((path) => path.test(url.pathname))
+  return PROXIED_WEATHER_PATH.test(url.pathname)
+}
+
+/**
+ * Weather from the network, keeping a stamped copy; the cached copy answers only when the
+ * network fails, so online users never get an old forecast
+ */
+async function networkFirst(request) {
+  const cache = await caches.open(WEATHER_CACHE)
+  let response
+  try {
+    response = await fetch(request)
+  } catch (error) {
+    const cached = await cache.match(request)
+    if (cached) return cached
+    throw error
+  }
+
+  if (response.ok) {
+    await cache.put(request, await stampCachedAt(response.clone()))
+    await trimCache(cache, MAX_WEATHER_ENTRIES)
+    return response
+  }
+  // weather.gov answers 5xx during outages; an older forecast is better than none
+  return (await cache.match(request)) ?? response
+}
+
+/**
+ * Copy of a response carrying the time it was cached, which the app shows with the data, and
+ * exposing it to cross-origin reads
+ */
+async function stampCachedAt(response) {
+  const headers = new Headers(response.headers)
+  headers.set(CACHED_AT_HEADER, new Date().toISOString())
+  // Cross-origin pages can only read the header when the response exposes it
+  const exposed = headers.get('access-control-expose-headers')
+  if (exposed !== '*') {
+    headers.set(
+      'access-control-expose-headers',
+      exposed ? `${exposed}, ${CACHED_AT_HEADER}` : CACHED_AT_HEADER,
+    )
+  }
+  return new Response(await response.blob(), {
+    status: response.status,
+    statusText: response.statusText,
+    headers,
+  })
+}
+
+async function trimCache(cache, maxEntries) {
+  const keys = await cache.keys()
+  await Promise.all(
+    keys.slice(0, Math.max(0, keys.length - maxEntries)).map((key) => cache.delete(key)),
+  )
+}
+
+/**
+ * Pages come from the network when possible so a new build is picked up, otherwise from the
+ * precached index.html, which routes on the client
+ */
+async function appShell(request) {
+  try {
+    return await fetch(request)
+  } catch (error) {
+    const cached = await caches.match('index.html', { cacheName: SHELL_CACHE })
+    if (cached) return cached
+    throw error
+  }
+}
+
+/**
+ * Hashed build assets never change, so a cached copy is always current
+ */
+async function cacheFirst(request) {
+  const cached = await caches.match(request)
+  if (cached) return cached
+
+  const response = await fetch(request)
+  if (response.ok) {
+    const cache = await caches.open(SHELL_CACHE)
+    await cache.put(request, response.clone())
+  }
+  return response
+}
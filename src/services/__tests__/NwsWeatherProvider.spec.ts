@@ -0,0 +1,155 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import type { AxiosAdapter } from 'axios'
+
+import type { WeatherStationResponse } from '@/types/weather'
+import { toNearbyStation } from '../stations'
+import { withQualityFlags } from '../qualityControl'
+import { NwsWeatherProvider } from '../providers/NwsWeatherProvider'
+
+const HOUR_MS = 60 * 60 * 1000
+
+const point = {
+  properties: {
+    gridId: 'STO',
+    gridX: 40,
+    gridY: 80,
+    forecast: 'https://api.weather.gov/gridpoints/STO/40,80/forecast',
+    forecastHourly: 'https://api.weather.gov/gridpoints/STO/40,80/forecast/hourly',
+    forecastGridData: 'https://api.weather.gov/gridpoints/STO/40,80',
+    observationStations: 'https://api.weather.gov/gridpoints/STO/40,80/stations',
+    timeZone: 'America/Los_Angeles',
+  },
+}
+
+// Hourly runs from 06:00 on 10 July to 23:00 on 13 July, Pacific Daylight Time (UTC-7)
+const hours = Array.from(
+  { length: 90 },
+  (_, i) => new Date(Date.UTC(2026, 6, 10, 13) + i * HOUR_MS),
+)
+const hourly = (uom: string, value: (time: Date) => number) => ({
+  uom,
+  values: hours.map((time) => ({
+    validTime: `${time.toISOString().replace('.000Z', '+00:00')}/PT1H`,
+    value: value(time),
+  })),
+})
+
+// 20 °C, with the hottest hour of 10 July at 22:00 local, already 11 July in UTC
+const temperature = (time: Date) =>
+  time.toISOString() === '2026-07-11T05:00:00.000Z' ? 35 : 20 + (time.getUTCHours() % 5)
+
+const gridpoint = {
+  properties: {
+    elevation: { unitCode: 'wmoUnit:m', value: 16 },
+    temperature: hourly('wmoUnit:degC', temperature),
+    dewpoint: hourly('wmoUnit:degC', () => 10),
+    relativeHumidity: hourly('wmoUnit:percent', () => 50),
+    windSpeed: hourly('wmoUnit:km_h-1', () => 10.8),
+    skyCover: hourly('wmoUnit:percent', () => 20),
+    // 6 mm from 11:00 to 17:00 local on 11 July
+    quantitativePrecipitation: {
+      uom: 'wmoUnit:mm',
+      values: [{ validTime: '2026-07-11T18:00:00+00:00/PT6H', value: 6 }],
+    },
+  },
+}
+
+// The provider with weather.gov answered from the documents above
+function stubbedProvider() {
+  const provider = new NwsWeatherProvider()
+  const adapter: AxiosAdapter = async (config) => ({
+    data: config.url?.startsWith('/points/') ? point : gridpoint,
+    status: 200,
+    statusText: 'OK',
+    headers: {},
+    config,
+  })
+  provider['axiosInstance'].defaults.adapter = adapter
+  return provider
+}
+
+const location = { latitude: 38.54, longitude: -121.74 }
+
+describe('NwsWeatherProvider.getDailyForecastSeries', () => {
+  beforeEach(() => {
+    // 08:00 on 10 July in Davis
+    vi.useFakeTimers({ now: new Date('2026-07-10T15:00:00Z'), toFake: ['Date'] })
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('buckets the forecast into calendar days in the station time zone', async () => {
+    const series = await stubbedProvider().getDailyForecastSeries(location)
+
+    expect(series.map((day) => day.date)).toEqual([
+      '2026-07-10',
+      '2026-07-11',
+      '2026-07-12',
+      '2026-07-13',
+    ])
+    const [today, tomorrow] = series
+    expect(today.maxTemperature).toBe(35)
+    expect(tomorrow.maxTemperature).toBe(24)
+    expect(tomorrow.minTemperature).toBe(20)
+    expect(tomorrow.sourceData?.periodStart).toBe('2026-07-11T07:00:00.000Z')
+    expect(tomorrow.sourceData?.periodEnd).toBe('2026-07-12T06:00:00.000Z')
+    expect(tomorrow.precipitation).toBeCloseTo(6, 6)
+    expect(today.precipitation).toBeUndefined()
+    expect(today.station).toMatchObject({ id: 'STO', elevation: 16 })
+  })
+
+  it('keeps the hours left of a partial first day and drops the days gone by', async () => {
+    const [today, tomorrow] = await stubbedProvider().getDailyForecastSeries(location)
+
+    expect(today.sourceData?.periodStart).toBe('2026-07-10T13:00:00.000Z')
+    expect(today.sourceData?.hoursAvailable).toBe(18)
+    expect(tomorrow.sourceData?.hoursAvailable).toBe(24)
+
+    // 14:00 on 11 July: the forecast of 10 July is no longer today's
+    vi.setSystemTime(new Date('2026-07-11T21:00:00Z'))
+    const series = await stubbedProvider().getDailyForecastSeries(location)
+    expect(series.map((day) => day.date)).toEqual(['2026-07-11', '2026-07-12', '2026-07-13'])
+  })
+
+  it('returns at most the days asked for', async () => {
+    const series = await stubbedProvider().getDailyForecastSeries(location, 2)
+    expect(series.map((day) => day.date)).toEqual(['2026-07-10', '2026-07-11'])
+  })
+})
+
+describe('NwsWeatherProvider observed weather', () => {
+  it('flags the 0 m standing in for a station without an elevation as defaulted', () => {
+    const feature = {
+      geometry: { type: 'Point', coordinates: [-121.6, 38.7] },
+      properties: { stationIdentifier: 'KDWA', name: 'Davis', timeZone: 'America/Los_Angeles' },
+    } as WeatherStationResponse
+    const station = toNearbyStation(feature, location, 16)
+    expect(station).toMatchObject({ elevation: 0, elevationDefaulted: true })
+
+    const data = withQualityFlags(
+      new NwsWeatherProvider()['buildObservedWeatherData'](
+        station,
+        {
+          date: '2026-07-09',
+          maxTemperature: 33,
+          minTemperature: 15,
+          maxRelativeHumidity: 80,
+          minRelativeHumidity: 25,
+          meanRelativeHumidity: 50,
+          windSpeed: 3,
+          observationCount: 24,
+          firstObservation: '2026-07-09T07:00:00Z',
+          lastObservation: '2026-07-10T06:00:00Z',
+        },
+        new Date('2026-07-08T15:00:00Z'),
+        new Date('2026-07-10T15:00:00Z'),
+      ),
+    )
+    expect(data.quality?.elevation).toEqual({
+      flag: 'defaulted',
+      note: 'No elevation for station KDWA',
+    })
+  })
+})
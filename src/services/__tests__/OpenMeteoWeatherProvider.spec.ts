@@ -0,0 +1,133 @@
+import { describe, it, expect, vi } from 'vitest'
+import type { AxiosAdapter } from 'axios'
+
+import { windSpeedAt2m } from '@/services/calculations/penmanMonteith'
+import { DEFAULT_WIND_SPEED } from '@/services/calculations/missingData'
+import { OpenMeteoWeatherProvider } from '../providers/OpenMeteoWeatherProvider'
+
+// Unix seconds of a UTC hour on a July day
+const unix = (day: number, hour: number) => Date.UTC(2026, 6, day, hour) / 1000
+
+// Local midnights in Davis (UTC-7) of 10 to 12 July, and two local hours of 10 July and one of 11 July
+const forecast = {
+  latitude: 38.5378,
+  longitude: -121.7425,
+  elevation: 16,
+  timezone: 'America/Los_Angeles',
+  hourly: {
+    time: [unix(10, 19), unix(11, 6), unix(11, 19)],
+    temperature_2m: [25, 21, 26],
+    dewpoint_2m: [10, 11, null],
+    relative_humidity_2m: [40, 55, 38],
+    wind_speed_10m: [4, 3, 5],
+    cloud_cover: [10, 0, 20],
+  },
+  daily: {
+    time: [unix(10, 7), unix(11, 7), unix(12, 7)],
+    temperature_2m_max: [32, 30, null],
+    temperature_2m_min: [14, 13, 15],
+    relative_humidity_2m_mean: [45, null, 50],
+    wind_speed_10m_mean: [3, null, 2],
+    shortwave_radiation_sum: [28.5, null, 27],
+    precipitation_sum: [0, 4.2, 0],
+    precipitation_probability_max: [0, 60, 5],
+  },
+}
+
+// The provider with Open-Meteo answered from the document above
+function stubbedProvider() {
+  const provider = new OpenMeteoWeatherProvider()
+  const adapter: AxiosAdapter = vi.fn(async (config) => ({
+    data: forecast,
+    status: 200,
+    statusText: 'OK',
+    headers: {},
+    config,
+  }))
+  provider['axiosInstance'].defaults.adapter = adapter
+  return { provider, adapter }
+}
+
+describe('OpenMeteoWeatherProvider', () => {
+  it('requests metric daily and hourly variables for the days asked for', async () => {
+    const { provider, adapter } = stubbedProvider()
+    await provider.getDailyForecastSeries({ latitude: 38.5378, longitude: -121.7425 }, 3)
+
+    const [config] = vi.mocked(adapter).mock.calls[0]
+    expect(config.params).toMatchObject({
+      latitude: '38.5378',
+      longitude: '-121.7425',
+      forecast_days: 3,
+      wind_speed_unit: 'ms',
+      timeformat: 'unixtime',
+      timezone: 'auto',
+    })
+  })
+
+  it('maps daily values to calendar days in the forecast time zone', async () => {
+    const { provider } = stubbedProvider()
+    const series = await provider.getDailyForecastSeries({
+      latitude: 38.5378,
+      longitude: -121.7425,
+    })
+
+    // 12 July has no maximum temperature and is left out
+    expect(series.map((day) => day.date)).toEqual(['2026-07-10', '2026-07-11'])
+    const [today] = series
+    expect(today).toMatchObject({
+      maxTemperature: 32,
+      minTemperature: 14,
+      relativeHumidity: 45,
+      solarRadiation: 28.5,
+      precipitation: 0,
+      windMeasurementHeight: 10,
+    })
+    expect(today.station).toMatchObject({ elevation: 16, timeZone: 'America/Los_Angeles' })
+    // 06:00 UTC on 11 July is still 23:00 on 10 July there
+    expect(today.hourly?.map((hour) => hour.time)).toEqual([
+      '2026-07-10T19:00:00.000Z',
+      '2026-07-11T06:00:00.000Z',
+    ])
+    expect(today.sourceData?.forecastDate).toBe('2026-07-10T07:00:00.000Z')
+  })
+
+  it('converts wind to 2 m and temperatures to °F for display', async () => {
+    const { provider } = stubbedProvider()
+    const [today] = await provider.getDailyForecastSeries({
+      latitude: 38.5378,
+      longitude: -121.7425,
+    })
+
+    expect(today.windSpeed).toBeCloseTo(windSpeedAt2m(3, 10), 6)
+    expect(today.windSpeed).toBeCloseTo(2.24, 2)
+    expect(today.hourly?.[0].windSpeed).toBeCloseTo(windSpeedAt2m(4, 10), 6)
+    expect(today.sourceData?.windSpeed[0].measurementHeight).toBe(10)
+    expect(
+      today.sourceData?.temperatures.map(({ value, valueCelsius }) => [value, valueCelsius]),
+    ).toEqual([
+      [89.6, 32],
+      [57.2, 14],
+    ])
+  })
+
+  it('estimates missing humidity and defaults missing wind with flags', async () => {
+    const { provider } = stubbedProvider()
+    const [, tomorrow] = await provider.getDailyForecastSeries({
+      latitude: 38.5378,
+      longitude: -121.7425,
+      aridity: 'arid',
+    })
+
+    expect(tomorrow.solarRadiation).toBeUndefined()
+    expect(tomorrow.precipitation).toBe(4.2)
+    expect(tomorrow.windSpeed).toBe(DEFAULT_WIND_SPEED)
+    expect(tomorrow.windMeasurementHeight).toBeUndefined()
+    expect(
+      tomorrow.sourceData?.filledValues?.map(({ variable, flag }) => [variable, flag]),
+    ).toEqual([
+      ['relativeHumidity', 'estimated'],
+      ['windSpeed', 'defaulted'],
+    ])
+    expect(tomorrow.sourceData?.humidity[0].source).toMatch(/^Estimated from Tmin/)
+  })
+})
@@ -0,0 +1,261 @@
+import { describe, it, expect } from 'vitest'
+
+import type { Field } from '@/types/field'
+import type { ProcessedWeatherData } from '@/types/weather'
+import { defaultFieldDraft } from '@/data/fields'
+import { withQualityFlags } from '../qualityControl'
+import { parseCsvRecords } from '../csv'
+import { et0Report } from '../dailyEt0'
+import {
+  calculatorReport,
+  cropCoefficientMethod,
+  et0Method,
+  fieldReport,
+  reportCsv,
+  reportFileName,
+  reportFlags,
+  reportJson,
+} from '../calculationReport'
+
+const field: Field = {
+  ...defaultFieldDraft(),
+  id: 'north',
+  name: 'North Block',
+  farm: 'Home Ranch',
+  latitude: 38.54,
+  longitude: -121.74,
+  cropId: 'maize',
+  plantingDate: '2026-05-01',
+  createdAt: '2026-04-01T00:00:00Z',
+  updatedAt: '2026-04-01T00:00:00Z',
+}
+
+const day = (date: string, overrides: Partial<ProcessedWeatherData> = {}): ProcessedWeatherData =>
+  withQualityFlags({
+    date,
+    mode: 'forecast',
+    maxTemperature: 32,
+    minTemperature: 14,
+    relativeHumidity: 45,
+    windSpeed: 2,
+    precipitation: 0,
+    station: {
+      id: 'grid',
+      name: 'Grid 40,80',
+      latitude: 38.54,
+      longitude: -121.74,
+      elevation: 16,
+    },
+    timestamp: `${date}T12:00:00Z`,
+    sourceData: {
+      temperatures: [
+        {
+          value: 89.6,
+          valueCelsius: 32,
+          date: `${date}T21:00:00Z`,
+          source: 'Hourly gridpoint',
+          period: 'Maximum of 24 h',
+          url: 'https://api.weather.gov/gridpoints/STO/40,80',
+        },
+      ],
+      humidity: [],
+      windSpeed: [],
+      forecastDate: `${date}T06:00:00Z`,
+      provider: 'National Weather Service',
+      gridpointsUrl: 'https://api.weather.gov/gridpoints/STO/40,80',
+      retrievedAt: '2026-07-10T06:00:00Z',
+    },
+    ...overrides,
+  })
+
+describe('calculationReport', () => {
+  it('names the methods behind ET₀', () => {
+    const method = et0Method(
+      {
+        maxTemperature: 30,
+        minTemperature: 15,
+        relativeHumidity: 50,
+        maxRelativeHumidity: 80,
+        minRelativeHumidity: 25,
+        windSpeed: 2,
+        elevation: 100,
+        latitude: 38,
+        dayOfYear: 190,
+        solarRadiationMethod: 'temperature',
+        hargreavesLocation: 'coastal',
+      },
+      10,
+    )
+
+    expect(method.solarRadiation).toMatch(/Hargreaves.*KRs 0.19 \(coastal/)
+    expect(method.actualVaporPressure).toMatch(/eq. 17/)
+    expect(method.windSpeed).toBe('Converted to 2 m from 10 m (eq. 47)')
+  })
+
+  it('reports a field day by day with the crop curve and effective rainfall', () => {
+    // The on-farm day comes first and wins over the forecast of the same date
+    const report = fieldReport(
+      field,
+      [
+        day('2026-07-11', { mode: 'imported', solarRadiation: 28, precipitation: 10 }),
+        day('2026-07-12'),
+        day('2026-07-11'),
+      ],
+      '2026-07-12T08:00:00Z',
+    )
+
+    expect(report.field).toEqual({
+      id: 'north',
+      name: 'North Block',
+      farm: 'Home Ranch',
+      cropId: 'maize',
+      plantingDate: '2026-05-01',
+    })
+    expect(report.days.map(({ date, mode }) => `${date} ${mode}`)).toEqual([
+      '2026-07-11 imported',
+      '2026-07-12 forecast',
+    ])
+
+    const [imported, forecast] = report.days
+    expect(imported.method.solarRadiation).toBe('Measured')
+    expect(forecast.method.solarRadiation).toMatch(/Hargreaves/)
+    expect(imported.method.cropCoefficient).toMatch(
+      /^Corn \(maize, grain\) Kc curve from 2026-05-01/,
+    )
+    // Mid season on day 71 of the maize curve
+    expect(imported.kc).toBeGreaterThan(1.1)
+    expect(imported.etc).toBeCloseTo(imported.et0 * imported.kc!, 6)
+    expect(imported.effectiveRainfall).toBeGreaterThan(0)
+    expect(imported.effectiveRainfall).toBeLessThan(10)
+    expect(report.assumptions).toContain('Effective rainfall by the USDA-SCS method')
+    expect(report.assumptions.some((line) => /temperature range/.test(line))).toBe(true)
+  })
+
+  it("reports the calculator's day and the forecast after it with its Kc and rain", () => {
+    const precipitation: Record<string, number> = { '2026-07-11': 12 }
+    const report = calculatorReport(
+      {
+        calculationDay: { report: et0Report(day('2026-07-11'), 'observed') },
+        forecastDays: ['2026-07-10', '2026-07-11', '2026-07-12'].map((date) => ({
+          report: et0Report(day(date)),
+          windMeasurementHeight: 10,
+        })),
+        location: { latitude: 38.54, longitude: -121.74 },
+        cropCoefficientMethod: cropCoefficientMethod({
+          plantingDate: '',
+          dualCoefficient: false,
+          soilWaterBalance: false,
+          cropCoefficient: 0.8,
+          stressCoefficient: 0.9,
+        }),
+        kcOn: () => 0.8,
+        cropEtcOn: (_, et0) => et0 * 0.72,
+        precipitationOn: (date) => precipitation[date] ?? 0,
+        effectiveRainfallOn: (date) => (precipitation[date] ?? 0) / 2,
+        rainfallMethod: { type: 'fixed', percentage: 50 },
+      },
+      '2026-07-11T08:00:00Z',
+    )
+
+    expect(report.title).toBe('ET₀ and ETc')
+    expect(report.field).toBeUndefined()
+    expect(report.days.map(({ date, mode }) => `${date} ${mode}`)).toEqual([
+      '2026-07-11 observed',
+      '2026-07-12 forecast',
+    ])
+    const [today, tomorrow] = report.days
+    expect(today.kc).toBeCloseTo(0.72, 6)
+    expect(today.method.windSpeed).toBe('Measured at 2 m')
+    expect(today.method.cropCoefficient).toBe('Kc 0.8, entered by hand × Ks 0.9, entered by hand')
+    expect(today.effectiveRainfall).toBe(6)
+    expect(tomorrow.method.windSpeed).toBe('Converted to 2 m from 10 m (eq. 47)')
+    expect(report.assumptions).toContain('Effective rainfall is 50 % of the rain')
+  })
+
+  it('names how the calculator took the crop coefficient', () => {
+    const settings = {
+      crop: { name: 'Tomato' },
+      plantingDate: '2026-05-01',
+      dualCoefficient: false,
+      soilWaterBalance: true,
+      cropCoefficient: 1,
+      stressCoefficient: 1,
+    }
+
+    expect(cropCoefficientMethod(settings)).toBe(
+      'Tomato Kc curve from 2026-05-01, adjusted for the climate (FAO-56 Table 12, eq. 62) × Ks from the root-zone water balance (FAO-56 eq. 84)',
+    )
+    expect(cropCoefficientMethod({ ...settings, dualCoefficient: true })).toBe(
+      'Kcb × Ks + Ke of Tomato planted 2026-05-01 (FAO-56 eq. 69)',
+    )
+    expect(cropCoefficientMethod({ ...settings, crop: undefined, soilWaterBalance: false })).toBe(
+      'Kc 1, entered by hand',
+    )
+  })
+
+  it('calls out estimated and defaulted inputs with their values', () => {
+    const report = fieldReport(field, [
+      day('2026-07-11', {
+        windSpeed: 2,
+        sourceData: {
+          temperatures: [],
+          humidity: [],
+          windSpeed: [],
+          forecastDate: '2026-07-11T06:00:00Z',
+          filledValues: [
+            { variable: 'windSpeed', value: 2, flag: 'defaulted', reason: 'No forecast wind' },
+          ],
+        },
+      }),
+    ])
+    const flags = reportFlags(report)
+
+    expect(flags).toContainEqual({
+      date: '2026-07-11',
+      variable: 'windSpeed',
+      flag: 'defaulted',
+      value: 2,
+      note: 'No forecast wind',
+    })
+    const solar = flags.find((flag) => flag.variable === 'solarRadiation')
+    expect(solar?.flag).toBe('estimated')
+    expect(solar?.value).toBeCloseTo(report.days[0].result.radiation.solarRadiation, 6)
+    expect(flags.some((flag) => flag.variable === 'maxTemperature')).toBe(false)
+  })
+
+  it('exports every input, intermediate term, method and source as CSV', () => {
+    const report = fieldReport(field, [day('2026-07-11'), day('2026-07-12')])
+    const { header, records } = parseCsvRecords(reportCsv(report))
+
+    expect(header).toEqual(
+      expect.arrayContaining(['et0_mm', 'tmax_c', 'es_kpa', 'ra_mjm2', 'rn_mjm2', 'method_rs']),
+    )
+    expect(records).toHaveLength(2)
+    const [first] = records
+    expect(first.field).toBe('North Block')
+    expect(Number(first.et0_mm)).toBeCloseTo(report.days[0].et0, 2)
+    expect(Number(first.ea_kpa)).toBeCloseTo(report.days[0].result.actualVaporPressure, 4)
+    expect(first.gridpoints_url).toBe('https://api.weather.gov/gridpoints/STO/40,80')
+    expect(first.sources).toBe(
+      'temperature 32 °C | Maximum of 24 h | 2026-07-11T21:00:00Z | Hourly gridpoint | https://api.weather.gov/gridpoints/STO/40,80',
+    )
+    expect(first.flags).toMatch(/^solarRadiation: estimated \(/)
+  })
+
+  it('exports JSON with the full source data and the flags', () => {
+    const report = fieldReport(field, [day('2026-07-11')])
+    const json = JSON.parse(reportJson(report))
+
+    expect(json.days[0].sourceData.retrievedAt).toBe('2026-07-10T06:00:00Z')
+    expect(json.days[0].result.radiation.extraterrestrialRadiation).toBeGreaterThan(40)
+    expect(json.flags[0].variable).toBe('solarRadiation')
+  })
+
+  it('names report files after the field and the dates', () => {
+    const report = fieldReport(field, [day('2026-07-11'), day('2026-07-12')])
+    expect(reportFileName(report, 'csv')).toBe('north-block-report-2026-07-11_2026-07-12.csv')
+    expect(reportFileName({ ...report, field: undefined, days: [report.days[0]] }, 'json')).toBe(
+      'et0-report-2026-07-11.json',
+    )
+  })
+})
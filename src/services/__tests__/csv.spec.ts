@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest'
+
+import { formatCsv, parseCsv, parseCsvRecords } from '../csv'
+
+describe('csv', () => {
+  it('quotes fields with commas, quotes and line breaks', () => {
+    expect(
+      formatCsv([
+        ['name', 'et0_mm'],
+        ['North, "top" block', 5.2],
+        ['Line\nbreak', null],
+      ]),
+    ).toBe('name,et0_mm\n"North, ""top"" block",5.2\n"Line\nbreak",\n')
+  })
+
+  it('parses what it formats, across CRLF line ends and blank lines', () => {
+    const rows = [
+      ['a', 'b,c'],
+      ['"d"', 'e\r\nf'],
+    ]
+    expect(parseCsv(formatCsv(rows))).toEqual(rows)
+    expect(parseCsv('\ufeffx,y\r\n\r\n1,2\r\n')).toEqual([
+      ['x', 'y'],
+      ['1', '2'],
+    ])
+    expect(() => parseCsv('a,"b\n')).toThrow(/not closed/)
+  })
+
+  it('keys records by the trimmed, lowercased header', () => {
+    const { header, records } = parseCsvRecords('Name, Lat ,LON\nNorth, 38.5 ,-121.7\nSouth\n')
+    expect(header).toEqual(['name', 'lat', 'lon'])
+    expect(records).toEqual([
+      { name: 'North', lat: '38.5', lon: '-121.7' },
+      { name: 'South', lat: '', lon: '' },
+    ])
+  })
+})
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest'
+
+import type { Field } from '@/types/field'
+import type { ProcessedWeatherData } from '@/types/weather'
+import { defaultFieldDraft } from '@/data/fields'
+import { computeFieldStatus } from '../fieldStatus'
+
+const field: Field = {
+  ...defaultFieldDraft(),
+  id: 'north',
+  name: 'North block',
+  latitude: 38.5,
+  longitude: -121.7,
+  createdAt: '2026-07-01T00:00:00Z',
+  updatedAt: '2026-07-01T00:00:00Z',
+}
+
+const forecastDay = (date: string, precipitation = 0): ProcessedWeatherData => ({
+  date,
+  maxTemperature: 32,
+  minTemperature: 14,
+  relativeHumidity: 50,
+  windSpeed: 2,
+  solarRadiation: 28,
+  precipitation,
+  station: {
+    id: 'grid',
+    name: 'Grid',
+    latitude: 38.5,
+    longitude: -121.7,
+    elevation: 20,
+    timeZone: 'America/Los_Angeles',
+  },
+  timestamp: `${date}T12:00:00Z`,
+})
+
+const series = ['2026-07-10', '2026-07-11', '2026-07-12', '2026-07-13'].map((date) =>
+  forecastDay(date),
+)
+
+describe('computeFieldStatus', () => {
+  it('uses Kc = 1 without a crop and leaves a wet root zone alone', () => {
+    const status = computeFieldStatus(field, series)!
+
+    expect(status.date).toBe('2026-07-10')
+    expect(status.kc).toBe(1)
+    expect(status.et0).toBeGreaterThan(5)
+    expect(status.etc).toBeCloseTo(status.et0, 6)
+    expect(status.depletion).toBeCloseTo(status.etc, 6)
+    expect(status.status).toBe('ok')
+  })
+
+  it('starts from the depletion at the last check', () => {
+    const dry = { ...field, soil: { ...field.soil, initialDepletion: 70 } }
+    const status = computeFieldStatus(dry, series)!
+
+    expect(status.recommendation.daysFromStart).toBe(0)
+    expect(status.status).toBe('irrigate-today')
+  })
+
+  it('runs the water balance from the day of the last check through past weather', () => {
+    const checked = {
+      ...field,
+      soil: { ...field.soil, initialDepletion: 10, depletionDate: '2026-07-07' },
+    }
+    const history = ['2026-07-06', '2026-07-07', '2026-07-08', '2026-07-09'].map((date) =>
+      forecastDay(date),
+    )
+    const outlook = computeFieldStatus(checked, series)!
+    const status = computeFieldStatus(checked, series, history)!
+
+    expect(outlook.outlook).toBe(true)
+    expect(outlook.depletion).toBeCloseTo(10 + outlook.etc, 6)
+    expect(status.outlook).toBe(false)
+    // Three days of the same weather from 7 July before today's, Ra barely changing
+    expect(status.depletion).toBeCloseTo(10 + 4 * status.etc, 1)
+  })
+
+  it('flags an outlook when weather is missing for a day since the check', () => {
+    const checked = {
+      ...field,
+      soil: { ...field.soil, initialDepletion: 10, depletionDate: '2026-07-07' },
+    }
+    const gap = computeFieldStatus(checked, series, [
+      forecastDay('2026-07-07'),
+      forecastDay('2026-07-09'),
+    ])!
+    const checkedToday = computeFieldStatus(
+      { ...checked, soil: { ...checked.soil, depletionDate: '2026-07-10' } },
+      series,
+    )!
+
+    expect(gap.outlook).toBe(true)
+    expect(gap.depletion).toBeCloseTo(10 + gap.etc, 6)
+    expect(checkedToday.outlook).toBe(false)
+  })
+
+  it('returns null without forecast days', () => {
+    expect(computeFieldStatus(field, [])).toBeNull()
+  })
+})
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest'
+
+import {
+  aggregateDaily,
+  expandGridpointAccumulation,
+  expandGridpointLayer,
+  parseDuration,
+  parseValidTime,
+} from '../gridpointParser'
+
+describe('gridpointParser', () => {
+  it('parses ISO-8601 durations and validTime intervals', () => {
+    expect(parseDuration('PT1H')).toBe(1)
+    expect(parseDuration('PT3H')).toBe(3)
+    expect(parseDuration('P1D')).toBe(24)
+    expect(parseDuration('P1DT6H')).toBe(30)
+    expect(parseDuration('PT30M')).toBe(0.5)
+    expect(() => parseDuration('3H')).toThrow()
+
+    const { start, hours } = parseValidTime('2026-10-19T06:00:00+00:00/PT3H')
+    expect(start.toISOString()).toBe('2026-10-19T06:00:00.000Z')
+    expect(hours).toBe(3)
+  })
+
+  it('expands runs into hourly values in the station time zone', () => {
+    const values = expandGridpointLayer(
+      {
+        uom: 'wmoUnit:degF',
+        values: [
+          { validTime: '2026-10-19T04:00:00+00:00/PT2H', value: 50 },
+          { validTime: '2026-10-19T06:00:00+00:00/PT1H', value: null },
+          { validTime: '2026-10-19T07:00:00+00:00/PT1H', value: 68 },
+        ],
+      },
+      'America/Chicago',
+      (value) => (value === null ? null : ((value - 32) * 5) / 9),
+    )
+
+    expect(values.map((v) => v.time)).toEqual([
+      '2026-10-19T04:00:00.000Z',
+      '2026-10-19T05:00:00.000Z',
+      '2026-10-19T07:00:00.000Z',
+    ])
+    // 04:00 UTC is 23:00 the previous day in Chicago (CDT, UTC-5)
+    expect(values[0]).toMatchObject({ localDate: '2026-10-18', localHour: 23, value: 10 })
+    expect(values[2]).toMatchObject({ localDate: '2026-10-19', localHour: 2, value: 20 })
+  })
+
+  it('aggregates hourly values to calendar-day min/max/mean', () => {
+    const hour = (localDate: string, value: number) => ({
+      time: '',
+      localDate,
+      localHour: 0,
+      value,
+    })
+
+    expect(
+      aggregateDaily([hour('2026-10-19', 10), hour('2026-10-19', 20), hour('2026-10-20', 5)]),
+    ).toEqual([
+      { date: '2026-10-19', min: 10, max: 20, mean: 15, sum: 30, count: 2 },
+      { date: '2026-10-20', min: 5, max: 5, mean: 5, sum: 5, count: 1 },
+    ])
+  })
+  it('spreads accumulated amounts evenly over the hours of each run', () => {
+    const values = expandGridpointAccumulation(
+      {
+        uom: 'wmoUnit:mm',
+        values: [
+          { validTime: '2026-10-19T00:00:00+00:00/PT6H', value: 6 },
+          { validTime: '2026-10-19T06:00:00+00:00/PT6H', value: 1.2 },
+        ],
+      },
+      'UTC',
+    )
+
+    expect(values).toHaveLength(12)
+    expect(values[0].value).toBe(1)
+    expect(values[11].value).toBeCloseTo(0.2, 10)
+    expect(aggregateDaily(values)[0].sum).toBeCloseTo(7.2, 10)
+  })
+})
@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest'
+
+import {
+  validateForecastResponse,
+  validateGridpointResponse,
+  validatePointResponse,
+} from '../nwsValidation'
+import { WeatherServiceError } from '../weatherServiceError'
+
+const point = {
+  id: 'https://api.weather.gov/points/47.6062,-122.3321',
+  properties: {
+    gridId: 'SEW',
+    gridX: 125,
+    gridY: 68,
+    forecast: 'https://api.weather.gov/gridpoints/SEW/125,68/forecast',
+    forecastHourly: 'https://api.weather.gov/gridpoints/SEW/125,68/forecast/hourly',
+    forecastGridData: 'https://api.weather.gov/gridpoints/SEW/125,68',
+    observationStations: 'https://api.weather.gov/gridpoints/SEW/125,68/stations',
+    timeZone: 'America/Los_Angeles',
+    relativeLocation: { properties: { city: 'Seattle', state: 'WA' } },
+  },
+}
+
+const layer = (value: number | null) => ({
+  uom: 'wmoUnit:degC',
+  values: [{ validTime: '2026-10-19T06:00:00+00:00/PT3H', value }],
+})
+
+const gridpoint = {
+  properties: {
+    updateTime: '2026-10-19T05:12:00+00:00',
+    elevation: { unitCode: 'wmoUnit:m', value: 53.9 },
+    temperature: layer(12),
+    dewpoint: layer(8),
+    relativeHumidity: layer(null),
+    windSpeed: layer(9),
+    skyCover: layer(75),
+  },
+}
+
+// Catch the error a validator throws so its code and field can be inspected
+function validationError(validate: () => unknown): WeatherServiceError {
+  try {
+    validate()
+  } catch (error) {
+    if (error instanceof WeatherServiceError) return error
+    throw error
+  }
+  throw new Error('Expected a validation error')
+}
+
+describe('nwsValidation', () => {
+  it('accepts complete points and gridpoints documents', () => {
+    expect(validatePointResponse(point).properties).toMatchObject({
+      gridId: 'SEW',
+      gridX: 125,
+      timeZone: 'America/Los_Angeles',
+    })
+
+    const validated = validateGridpointResponse(gridpoint)
+    expect(validated.properties.elevation).toEqual({ value: 53.9, unitCode: 'wmoUnit:m' })
+    expect(validated.properties.relativeHumidity.values[0].value).toBeNull()
+    expect(validated.properties.quantitativePrecipitation).toBeUndefined()
+  })
+
+  it('names the missing or malformed field', () => {
+    const withoutGridX: Record<string, unknown> = { ...point.properties }
+    delete withoutGridX.gridX
+    const missing = validationError(() => validatePointResponse({ properties: withoutGridX }))
+    expect(missing.code).toBe('INVALID_RESPONSE')
+    expect(missing.field).toBe('properties.gridX')
+    expect(missing.message).toContain('properties.gridX')
+
+    const malformed = validationError(() =>
+      validateGridpointResponse({
+        properties: {
+          ...gridpoint.properties,
+          windSpeed: { values: [{ validTime: '2026-10-19T06:00:00+00:00/PT1H', value: '9' }] },
+        },
+      }),
+    )
+    expect(malformed.field).toBe('properties.windSpeed.values[0].value')
+
+    expect(validationError(() => validateGridpointResponse(null)).field).toBe('(body)')
+  })
+
+  it('checks the periods of the forecast documents', () => {
+    const period = {
+      number: 1,
+      name: '',
+      startTime: '2026-10-19T10:00:00-07:00',
+      endTime: '2026-10-19T11:00:00-07:00',
+      isDaytime: true,
+      temperature: 54,
+      temperatureUnit: 'F',
+      probabilityOfPrecipitation: { unitCode: 'wmoUnit:percent', value: 20 },
+      relativeHumidity: { unitCode: 'wmoUnit:percent', value: 81 },
+      windSpeed: '5 mph',
+      windDirection: 'S',
+      shortForecast: 'Cloudy',
+      detailedForecast: '',
+    }
+
+    const forecast = validateForecastResponse(
+      { properties: { periods: [period] } },
+      'hourly forecast',
+    )
+    expect(forecast.properties.periods[0].relativeHumidity?.value).toBe(81)
+
+    const error = validationError(() =>
+      validateForecastResponse({ properties: { periods: [{ ...period, temperatureUnit: 'K' }] } }),
+    )
+    expect(error.field).toBe('properties.periods[0].temperatureUnit')
+  })
+})
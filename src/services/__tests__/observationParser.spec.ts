@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest'
+
+import type { WeatherObservation } from '@/types/weather'
+import {
+  convertObservedValue,
+  observationCompleteness,
+  observedPrecipitation,
+  summarizeObservations,
+} from '../observationParser'
+
+const quantity = (value: number | null, unitCode: string) => ({ value, unitCode })
+
+const observation = (
+  timestamp: string,
+  temperature: number | null,
+  dewpoint: number | null,
+  relativeHumidity: number | null,
+  windSpeed: number | null,
+): WeatherObservation =>
+  ({
+    timestamp,
+    temperature: quantity(temperature, 'wmoUnit:degC'),
+    dewpoint: quantity(dewpoint, 'wmoUnit:degC'),
+    relativeHumidity: quantity(relativeHumidity, 'wmoUnit:percent'),
+    windSpeed: quantity(windSpeed, 'wmoUnit:km_h-1'),
+  }) as WeatherObservation
+
+describe('observationParser', () => {
+  it('converts observed values by unitCode', () => {
+    expect(convertObservedValue(quantity(36, 'wmoUnit:km_h-1'))).toBeCloseTo(10, 6)
+    expect(convertObservedValue(quantity(212, 'wmoUnit:degF'))).toBeCloseTo(100, 6)
+    expect(convertObservedValue(quantity(273.15, 'wmoUnit:K'))).toBeCloseTo(0, 6)
+    expect(convertObservedValue(quantity(null, 'wmoUnit:degC'))).toBeNull()
+    expect(convertObservedValue(quantity(5, 'wmoUnit:furlong'))).toBeNull()
+  })
+
+  it('summarises one local calendar day of observations', () => {
+    const observations = [
+      // 2026-10-17 23:53 in Denver (MDT, UTC-6): previous day
+      observation('2026-10-18T05:53:00+00:00', 2, -4, 60, 0),
+      observation('2026-10-18T12:53:00+00:00', 4, 0, 75, 7.2),
+      observation('2026-10-18T21:53:00+00:00', 22, 1, 25, 18),
+      // Humidity derived from temperature and dewpoint
+      observation('2026-10-19T03:53:00+00:00', 12, 2, null, 10.8),
+      // 2026-10-19 00:53 local: next day
+      observation('2026-10-19T06:53:00+00:00', -1, -5, 70, 3.6),
+    ]
+
+    const summary = summarizeObservations(observations, '2026-10-18', 'America/Denver')!
+    expect(summary.maxTemperature).toBe(22)
+    expect(summary.minTemperature).toBe(4)
+    expect(summary.maxRelativeHumidity).toBe(75)
+    expect(summary.minRelativeHumidity).toBe(25)
+    // e°(2) / e°(12) = 0.7057 / 1.4022
+    expect(summary.meanRelativeHumidity).toBeCloseTo((75 + 25 + 50.33) / 3, 1)
+    expect(summary.windSpeed).toBeCloseTo((2 + 5 + 3) / 3, 6)
+    expect(summary.dewpoint).toBeCloseTo(1, 6)
+    expect(summary.observationCount).toBe(3)
+    expect(summary.firstObservation).toBe('2026-10-18T12:53:00+00:00')
+    expect(summary.lastObservation).toBe('2026-10-19T03:53:00+00:00')
+
+    expect(summarizeObservations(observations, '2026-10-16', 'America/Denver')).toBeNull()
+  })
+  it('measures the share of required variables reported', () => {
+    expect(observationCompleteness([])).toBe(0)
+    expect(
+      observationCompleteness([
+        observation('2026-10-18T12:53:00+00:00', 4, 0, 75, 7.2),
+        observation('2026-10-18T13:53:00+00:00', 5, null, null, 7.2),
+      ]),
+    ).toBeCloseTo(6 / 8, 6)
+  })
+  it('totals the precipitation groups of one local day', () => {
+    const rain = (timestamp: string, lastHour: number | null, last6Hours: number | null) =>
+      ({
+        ...observation(timestamp, 10, 8, 90, 3.6),
+        precipitationLastHour: quantity(lastHour, 'wmoUnit:mm'),
+        precipitationLast6Hours: quantity(last6Hours, 'wmoUnit:mm'),
+      }) as WeatherObservation
+
+    // Denver (MDT, UTC-6): the local day runs from 06 UTC to 06 UTC
+    const observations = [
+      rain('2026-10-18T05:53:00+00:00', 1, 4), // previous local day
+      rain('2026-10-18T10:53:00+00:00', 2, null),
+      rain('2026-10-18T11:53:00+00:00', 1.5, 5.1),
+      rain('2026-10-18T17:53:00+00:00', null, 0.8),
+      rain('2026-10-19T05:53:00+00:00', null, 2),
+    ]
+    expect(observedPrecipitation(observations, '2026-10-18', 'America/Denver')).toBeCloseTo(7.9, 10)
+
+    // Without synoptic amounts the hourly amounts are summed
+    const hourlyOnly = observations.slice(1, 3).map((o) => ({
+      ...o,
+      precipitationLast6Hours: quantity(null, 'wmoUnit:mm'),
+    }))
+    expect(observedPrecipitation(hourlyOnly, '2026-10-18', 'America/Denver')).toBeCloseTo(3.5, 10)
+    expect(observedPrecipitation([], '2026-10-18', 'America/Denver')).toBe(0)
+  })
+})
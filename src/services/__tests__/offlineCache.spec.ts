@@ -0,0 +1,190 @@
+// @vitest-environment node
+import { describe, it, expect, vi } from 'vitest'
+import { runInNewContext } from 'node:vm'
+import { resolve } from 'node:path'
+
+import { serviceWorker } from '../../../vite.config'
+import { CACHED_AT_HEADER, cachedAt } from '../offlineCache'
+
+const SCOPE = 'https://pme.example/'
+
+// sw.js as the build plugin writes it, for a bundle that doesn't list index.html yet
+function buildServiceWorker(): string {
+  const plugin = serviceWorker()
+  const configResolved = plugin.configResolved as unknown as (config: { publicDir: string }) => void
+  const generateBundle = plugin.generateBundle as unknown as (
+    this: { emitFile: (file: { source: string }) => void },
+    options: unknown,
+    bundle: Record<string, unknown>,
+  ) => void
+
+  let source = ''
+  configResolved({ publicDir: resolve('public') })
+  generateBundle.call(
+    { emitFile: (file) => (source = file.source) },
+    {},
+    { 'assets/index-3f2a9c.js': {}, 'assets/index-3f2a9c.js.map': {}, 'assets/index-8d1e.css': {} },
+  )
+  return source
+}
+
+// The built service worker run in a sandbox with in-memory caches and a stubbed network
+function loadServiceWorker(network: (url: string) => Response) {
+  const stores = new Map<string, Map<string, Response>>()
+  const keyOf = (request: Request | string) =>
+    new URL(typeof request === 'string' ? request : request.url, `${SCOPE}sw.js`).href
+  const open = async (name: string) => {
+    const entries = stores.get(name) ?? new Map<string, Response>()
+    stores.set(name, entries)
+    return {
+      match: async (request: Request | string) => entries.get(keyOf(request))?.clone(),
+      put: async (request: Request | string, response: Response) =>
+        void entries.set(keyOf(request), response),
+      addAll: async (urls: string[]) =>
+        urls.forEach((url) => entries.set(keyOf(url), network(keyOf(url)))),
+      keys: async () => [...entries.keys()],
+      delete: async (key: string) => entries.delete(key),
+    }
+  }
+  const match = async (request: Request | string, options: { cacheName?: string } = {}) => {
+    const names = options.cacheName ? [options.cacheName] : [...stores.keys()]
+    for (const name of names) {
+      const cached = stores.get(name)?.get(keyOf(request))
+      if (cached) return cached.clone()
+    }
+    return undefined
+  }
+
+  const listeners: Record<string, (event: unknown) => void> = {}
+  const waiting: Promise<unknown>[] = []
+  const sandbox = {
+    self: {
+      location: new URL(`${SCOPE}sw.js`),
+      addEventListener: (type: string, listener: (event: unknown) => void) =>
+        (listeners[type] = listener),
+      skipWaiting: async () => undefined,
+    },
+    caches: { open, keys: async () => [...stores.keys()], match },
+    fetch: vi.fn(async (request: Request) => network(request.url)),
+    Headers,
+    Response,
+    URL,
+  }
+  runInNewContext(buildServiceWorker(), sandbox)
+
+  const install = async () => {
+    listeners.install({ waitUntil: (promise: Promise<unknown>) => waiting.push(promise) })
+    await Promise.all(waiting)
+  }
+  // Dispatch a GET and resolve with the response the worker answered with, if any
+  const request = async (url: string, mode: RequestMode = 'cors') => {
+    let responded: Promise<Response> | undefined
+    listeners.fetch({
+      request: { url, method: 'GET', mode },
+      respondWith: (response: Promise<Response>) => (responded = response),
+      waitUntil: () => undefined,
+    })
+    return responded && (await responded)
+  }
+  return { install, request, fetch: sandbox.fetch, stores }
+}
+
+// URLs in the versioned app shell cache
+const shellCache = (stores: Map<string, Map<string, Response>>): string[] => {
+  const [, entries] = [...stores].find(([name]) => name.startsWith('pme-shell-')) ?? []
+  return [...(entries?.keys() ?? [])]
+}
+
+describe('cachedAt', () => {
+  it('reads the time the service worker cached a response', () => {
+    expect(cachedAt({ [CACHED_AT_HEADER]: '2026-07-10T14:00:00.000Z' })).toBe(
+      '2026-07-10T14:00:00.000Z',
+    )
+    expect(cachedAt({ 'content-type': 'application/geo+json' })).toBeUndefined()
+  })
+})
+
+describe('service worker', () => {
+  it('serves weather from the network while it answers', async () => {
+    let forecast = 1
+    const worker = loadServiceWorker(() => new Response(`forecast ${forecast++}`))
+    const url = 'https://api.weather.gov/gridpoints/STO/40,80'
+
+    await worker.request(url)
+    const fresh = await worker.request(url)
+
+    expect(await fresh?.text()).toBe('forecast 2')
+    expect(fresh?.headers.get(CACHED_AT_HEADER)).toBeNull()
+  })
+
+  it('falls back to the stamped copy when the network fails and exposes the stamp', async () => {
+    let status: number | 'offline' = 200
+    const worker = loadServiceWorker(() => {
+      if (status === 'offline') throw new TypeError('Failed to fetch')
+      return new Response('{}', {
+        status,
+        headers: { 'access-control-expose-headers': 'X-Correlation-Id' },
+      })
+    })
+    const url = 'https://api.weather.gov/gridpoints/STO/40,80'
+
+    await worker.request(url)
+    status = 'offline'
+    const cached = await worker.request(url)
+
+    expect(cached?.headers.get(CACHED_AT_HEADER)).toMatch(/^\d{4}-\d\d-\d\dT/)
+    expect(cached?.headers.get('access-control-expose-headers')).toBe(
+      `X-Correlation-Id, ${CACHED_AT_HEADER}`,
+    )
+
+    status = 503
+    const outage = await worker.request(url)
+    expect(outage?.status).toBe(200)
+    expect(outage?.headers.get(CACHED_AT_HEADER)).toBe(cached?.headers.get(CACHED_AT_HEADER))
+  })
+
+  it('precaches the pages, the build files and the public files on install', async () => {
+    const worker = loadServiceWorker((url) => new Response(url))
+    await worker.install()
+
+    const shell = shellCache(worker.stores)
+    expect(shell).toEqual(
+      expect.arrayContaining([
+        SCOPE,
+        `${SCOPE}index.html`,
+        `${SCOPE}assets/index-3f2a9c.js`,
+        `${SCOPE}assets/index-8d1e.css`,
+        `${SCOPE}manifest.webmanifest`,
+      ]),
+    )
+    expect(shell.some((url) => url.endsWith('.map'))).toBe(false)
+  })
+
+  it('answers navigations with the precached index.html when offline', async () => {
+    let offline = false
+    const worker = loadServiceWorker((url) => {
+      if (offline) throw new TypeError('Failed to fetch')
+      return new Response(`page ${url}`)
+    })
+    await worker.install()
+
+    offline = true
+    const page = await worker.request(`${SCOPE}fields/north`, 'navigate')
+    expect(await page?.text()).toBe(`page ${SCOPE}index.html`)
+  })
+
+  it('caches only the app shell and hashed assets, leaving the API and proxy to the network', async () => {
+    const worker = loadServiceWorker(() => new Response('ok'))
+
+    expect(await worker.request(`${SCOPE}assets/index-3f2a9c.js`)).toBeDefined()
+    expect(await worker.request(`${SCOPE}manifest.webmanifest`)).toBeDefined()
+    expect(await worker.request(`${SCOPE}api/et0?lat=38.5&lon=-121.7`)).toBeUndefined()
+    expect(await worker.request(`${SCOPE}proxy/nominatim/search?q=Davis`)).toBeUndefined()
+    expect(await worker.request(`${SCOPE}proxy/nws/stations/KSAC/observations`)).toBeUndefined()
+
+    expect(shellCache(worker.stores)).toEqual([
+      `${SCOPE}assets/index-3f2a9c.js`,
+      `${SCOPE}manifest.webmanifest`,
+    ])
+  })
+})
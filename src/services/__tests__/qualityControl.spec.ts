@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest'
+
+import type { ProcessedWeatherData } from '@/types/weather'
+import { assessWeatherQuality, dewpointFromVaporPressure } from '../qualityControl'
+import { saturationVaporPressure } from '../calculations/penmanMonteith'
+
+const day: ProcessedWeatherData = {
+  date: '2026-07-15',
+  maxTemperature: 32,
+  minTemperature: 16,
+  relativeHumidity: 40,
+  windSpeed: 2.5,
+  station: {
+    id: 'STO',
+    name: 'Grid',
+    latitude: 38.5,
+    longitude: -121.5,
+    elevation: 20,
+  },
+  timestamp: '2026-07-15T12:00:00Z',
+}
+
+describe('qualityControl', () => {
+  it('inverts the saturation vapour pressure curve', () => {
+    expect(dewpointFromVaporPressure(saturationVaporPressure(12.5))).toBeCloseTo(12.5, 6)
+  })
+
+  it('flags the source of plausible inputs', () => {
+    const quality = assessWeatherQuality(day)
+    expect(quality.maxTemperature).toEqual({ flag: 'forecast' })
+    expect(quality.relativeHumidity).toEqual({ flag: 'forecast' })
+    expect(quality.elevation).toEqual({ flag: 'measured' })
+    expect(quality.solarRadiation?.flag).toBe('estimated')
+    expect(quality.dewpoint).toBeUndefined()
+
+    const observed = assessWeatherQuality({ ...day, mode: 'observed', dewpoint: 10 })
+    expect(observed.windSpeed).toEqual({ flag: 'measured' })
+    expect(observed.dewpoint).toEqual({ flag: 'measured' })
+  })
+
+  it('marks inputs failing the Appendix D checks as suspect', () => {
+    expect(assessWeatherQuality({ ...day, maxRelativeHumidity: 104 }).relativeHumidity?.flag).toBe(
+      'suspect',
+    )
+    // 90 % mean RH implies a dewpoint near 22 °C, far above Tmin
+    expect(assessWeatherQuality({ ...day, relativeHumidity: 90 }).relativeHumidity?.flag).toBe(
+      'suspect',
+    )
+    expect(assessWeatherQuality({ ...day, mode: 'observed', dewpoint: 19 }).dewpoint?.flag).toBe(
+      'suspect',
+    )
+    expect(assessWeatherQuality({ ...day, windSpeed: 25 }).windSpeed?.flag).toBe('suspect')
+    expect(assessWeatherQuality({ ...day, maxTemperature: 10 }).maxTemperature?.flag).toBe(
+      'suspect',
+    )
+
+    // Rso is about 30.6 MJ/m²/day in mid-July at 38.5° N
+    expect(assessWeatherQuality({ ...day, solarRadiation: 30 }).solarRadiation?.flag).toBe(
+      'forecast',
+    )
+    expect(assessWeatherQuality({ ...day, solarRadiation: 33 }).solarRadiation?.flag).toBe(
+      'suspect',
+    )
+
+    const sea = { ...day, station: { ...day.station, elevation: 0 } }
+    expect(assessWeatherQuality(sea).elevation).toEqual({
+      flag: 'suspect',
+      note: 'Reported as 0 m, right only for a site at sea level',
+    })
+  })
+
+  it('keeps defaults flagged as defaulted', () => {
+    const quality = assessWeatherQuality({
+      ...day,
+      station: { ...day.station, elevation: 0 },
+      sourceData: {
+        temperatures: [],
+        humidity: [],
+        windSpeed: [],
+        forecastDate: day.timestamp,
+        filledValues: [
+          {
+            variable: 'elevation',
+            value: 0,
+            flag: 'defaulted',
+            reason: 'No elevation for grid cell STO 1,2',
+          },
+        ],
+      },
+    })
+    expect(quality.elevation).toEqual({
+      flag: 'defaulted',
+      note: 'No elevation for grid cell STO 1,2',
+    })
+  })
+})
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest'
+
+import { createThrottle } from '../requestThrottle'
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+describe('requestThrottle', () => {
+  it('runs at most the given number of requests at once, in call order', async () => {
+    const throttle = createThrottle(2)
+    const started: number[] = []
+    let active = 0
+    let maxActive = 0
+
+    const results = await Promise.all(
+      [0, 1, 2, 3, 4].map((i) =>
+        throttle(async () => {
+          started.push(i)
+          active += 1
+          maxActive = Math.max(maxActive, active)
+          await delay(5)
+          active -= 1
+          return i * 10
+        }),
+      ),
+    )
+
+    expect(results).toEqual([0, 10, 20, 30, 40])
+    expect(started).toEqual([0, 1, 2, 3, 4])
+    expect(maxActive).toBe(2)
+  })
+
+  it('spaces request starts and passes errors through', async () => {
+    const throttle = createThrottle(5, 20)
+    const starts: number[] = []
+    const request = async () => {
+      starts.push(Date.now())
+    }
+
+    await Promise.all([throttle(request), throttle(request), throttle(request)])
+    expect(starts[2] - starts[0]).toBeGreaterThanOrEqual(35)
+
+    await expect(throttle(() => Promise.reject(new Error('503')))).rejects.toThrow('503')
+    await expect(throttle(async () => 'still running')).resolves.toBe('still running')
+  })
+})
@@ -0,0 +1,230 @@
+import { describe, it, expect } from 'vitest'
+
+import type { StationDataset } from '@/types/stationData'
+import {
+  aggregateDays,
+  convertRecords,
+  detectUnits,
+  mergeStationDays,
+  parseTimestamp,
+  readStationFile,
+  stationWeatherData,
+  suggestMapping,
+  suggestTimeZone,
+} from '../stationImport'
+
+const TOA5 = [
+  '"TOA5","CR1000","CR1000","1234","CR1000.Std.32","CPU:ET.CR1","5678","Hourly"',
+  '"TIMESTAMP","RECORD","AirTC_Avg","RH","WS_ms_Avg","SlrW_Avg","Rain_mm_Tot","PTemp_C"',
+  '"TS","RN","Deg C","%","meters/second","W/m^2","mm","Deg C"',
+  '"","","Avg","Smp","Avg","Avg","Tot","Smp"',
+  '"2026-07-10 01:00:00",1,18.5,80,1.2,0,0,20.1',
+  '"2026-07-10 02:00:00",2,17.9,84,1.0,0,0.2,19.8',
+].join('\n')
+
+const HOBO = [
+  '"Plot Title: North block"',
+  '"#","Date Time, GMT-07:00","Temp, °F (LGR S/N: 1)","RH, % (LGR S/N: 1)"',
+  '1,07/10/26 01:00:00 AM,65.3,80.2',
+  '2,07/10/26 02:00:00 AM,64.1,83.0',
+].join('\n')
+
+const DAVIS = [
+  '\t\tTemp\tHi\tLow\tOut\tWind\tSolar',
+  'Date\tTime\tOut\tTemp\tTemp\tHum\tSpeed\tRad.',
+  '7/10/26\t12:30 a\t66.2\t66.5\t65.9\t81\t2.0\t0',
+  '7/10/26\t1:00 a\t65.8\t66.2\t65.5\t82\t1.0\t0',
+].join('\n')
+
+const dataset = (overrides: Partial<StationDataset> = {}): StationDataset => ({
+  fieldId: 'north',
+  stationName: 'North block',
+  elevation: 18,
+  windHeight: 2,
+  timeZone: 'America/Los_Angeles',
+  days: [],
+  imports: [],
+  updatedAt: '2026-07-12T08:00:00Z',
+  ...overrides,
+})
+
+describe('stationImport', () => {
+  it('reads the header and units of a Campbell TOA5 file', () => {
+    const table = readStationFile(TOA5, 'CR1000_Hourly.dat')
+    const mapping = suggestMapping(table)
+
+    expect(table.rows).toHaveLength(2)
+    expect(table.units.AirTC_Avg).toBe('Deg C')
+    expect(mapping).toMatchObject({
+      timestamp: 'TIMESTAMP',
+      temperature: 'AirTC_Avg',
+      relativeHumidity: 'RH',
+      windSpeed: 'WS_ms_Avg',
+      solarRadiation: 'SlrW_Avg',
+      precipitation: 'Rain_mm_Tot',
+    })
+    expect(detectUnits(table, mapping)).toEqual({
+      temperature: 'C',
+      windSpeed: 'm/s',
+      solarRadiation: 'W/m2',
+      precipitation: 'mm',
+    })
+  })
+
+  it('skips HOBOware title rows and takes the time zone from the timestamp column', () => {
+    const table = readStationFile(HOBO, 'north.csv')
+    const mapping = suggestMapping(table)
+
+    expect(table.rows).toHaveLength(2)
+    expect(mapping.temperature).toBe('Temp, °F (LGR S/N: 1)')
+    expect(detectUnits(table, mapping).temperature).toBe('F')
+    expect(suggestTimeZone(mapping)).toBe('Etc/GMT+7')
+  })
+
+  it('merges the two header rows of a tab-separated Davis export', () => {
+    const table = readStationFile(DAVIS, 'download.txt')
+    const mapping = suggestMapping(table)
+
+    expect(table.columns.slice(0, 5)).toEqual(['Date', 'Time', 'Temp Out', 'Hi Temp', 'Low Temp'])
+    expect(mapping).toMatchObject({
+      timestamp: 'Date',
+      time: 'Time',
+      temperature: 'Temp Out',
+      maxTemperature: 'Hi Temp',
+      minTemperature: 'Low Temp',
+      relativeHumidity: 'Out Hum',
+      windSpeed: 'Wind Speed',
+      solarRadiation: 'Solar Rad.',
+    })
+    // Fahrenheit temperatures imply the other US units
+    expect(detectUnits(table, mapping)).toMatchObject({ temperature: 'F', windSpeed: 'mph' })
+  })
+
+  it('parses timestamps in the logger time zone', () => {
+    const zone = 'America/Los_Angeles'
+    expect(parseTimestamp('2026-07-10 01:00:00', zone)?.time).toBe(Date.parse('2026-07-10T08:00Z'))
+    expect(parseTimestamp('7/10/26 2:30 p', zone)?.time).toBe(Date.parse('2026-07-10T21:30Z'))
+    expect(parseTimestamp('07/10/2026 12:15 AM', zone)?.time).toBe(Date.parse('2026-07-10T07:15Z'))
+    expect(parseTimestamp('2026-01-10T01:00:00-08:00', zone)?.time).toBe(
+      Date.parse('2026-01-10T09:00Z'),
+    )
+    expect(parseTimestamp('1783670400', zone)?.time).toBe(1783670400000)
+    expect(parseTimestamp('2026-07-10', zone)).toEqual({
+      time: Date.UTC(2026, 6, 10),
+      date: '2026-07-10',
+    })
+    expect(parseTimestamp('yesterday', zone)).toBeNull()
+  })
+
+  it('aggregates hourly records to daily FAO-56 inputs', () => {
+    const zone = 'America/Los_Angeles'
+    // 24 hourly records of 2026-07-10, ending at midnight, and one of the next day
+    const lines = ['TIMESTAMP,AirTC,RH,SlrW,Rain']
+    for (let hour = 1; hour <= 24; hour++) {
+      const stamp = hour === 24 ? '2026-07-11 00:00' : `2026-07-10 ${hour}:00`
+      const temperature = hour === 15 ? 34 : hour === 6 ? 12 : 20
+      const humidity = hour === 6 ? 95 : hour === 15 ? 20 : 50
+      lines.push(`${stamp},${temperature},${humidity},${hour >= 7 && hour <= 18 ? 500 : 0},0.5`)
+    }
+    lines.push('2026-07-11 01:00,15,70,0,0', 'not a time,20,50,0,0')
+    const table = readStationFile(lines.join('\n'), 'hourly.csv')
+    const mapping = suggestMapping(table)
+    const { records, skippedRows } = convertRecords(
+      table,
+      mapping,
+      detectUnits(table, mapping),
+      zone,
+    )
+    const [day, next] = aggregateDays(records, zone, 'hourly.csv')
+
+    expect(skippedRows).toBe(1)
+    expect(day).toMatchObject({
+      date: '2026-07-10',
+      maxTemperature: 34,
+      minTemperature: 12,
+      maxRelativeHumidity: 95,
+      minRelativeHumidity: 20,
+      precipitation: 12,
+      recordCount: 24,
+      coverage: 1,
+      source: 'hourly.csv',
+    })
+    // 12 hours at 500 W/m² over the day: 250 W/m² mean, 21.6 MJ/m²/day
+    expect(day.solarRadiation).toBeCloseTo(21.6, 6)
+    expect(next).toMatchObject({ date: '2026-07-11', recordCount: 1 })
+    expect(next.coverage).toBeCloseTo(1 / 24, 6)
+  })
+
+  it('converts US units and keeps daily rows as one record each', () => {
+    const table = readStationFile(
+      'Date,High Temp,Low Temp,Avg Hum,Avg Wind Speed,Rain\n2026-07-10,95,59,45,5,0.1\n',
+      'daily.csv',
+    )
+    const mapping = suggestMapping(table)
+    const units = detectUnits(table, mapping)
+    const { records } = convertRecords(table, mapping, units, 'UTC')
+    const [day] = aggregateDays(records, 'UTC', 'daily.csv')
+
+    expect(units).toMatchObject({ temperature: 'F', windSpeed: 'mph', precipitation: 'in' })
+    expect(day.maxTemperature).toBeCloseTo(35, 6)
+    expect(day.minTemperature).toBeCloseTo(15, 6)
+    expect(day.windSpeed).toBeCloseTo(2.2352, 6)
+    expect(day.precipitation).toBeCloseTo(2.54, 6)
+    expect(day.maxRelativeHumidity).toBeUndefined()
+    expect(day.coverage).toBe(1)
+  })
+
+  it('replaces the days a new import overlaps', () => {
+    const day = (date: string, source: string) => ({
+      date,
+      maxTemperature: 30,
+      minTemperature: 12,
+      recordCount: 24,
+      coverage: 1,
+      source,
+    })
+    const merged = mergeStationDays(
+      [day('2026-07-09', 'june.csv'), day('2026-07-10', 'june.csv')],
+      [day('2026-07-10', 'july.csv'), day('2026-07-11', 'july.csv')],
+    )
+
+    expect(merged.map(({ date, source }) => `${date} ${source}`)).toEqual([
+      '2026-07-09 june.csv',
+      '2026-07-10 july.csv',
+      '2026-07-11 july.csv',
+    ])
+  })
+
+  it('gives a station day as measured weather data with the station as provenance', () => {
+    const location = { latitude: 38.5, longitude: -121.7, aridity: 'arid' as const }
+    const day = {
+      date: '2026-07-10',
+      maxTemperature: 34,
+      minTemperature: 12,
+      maxRelativeHumidity: 95,
+      minRelativeHumidity: 20,
+      windSpeed: 3,
+      solarRadiation: 21.6,
+      recordCount: 24,
+      coverage: 1,
+      source: 'hourly.csv',
+    }
+    const data = stationWeatherData(dataset({ windHeight: 10 }), day, location)
+
+    expect(data.mode).toBe('imported')
+    expect(data.windSpeed).toBeCloseTo(2.24, 2)
+    expect(data.windMeasurementHeight).toBe(10)
+    expect(data.solarRadiation).toBe(21.6)
+    expect(data.quality?.maxTemperature).toEqual({ flag: 'measured' })
+    expect(data.quality?.relativeHumidity?.flag).toBe('estimated')
+    expect(data.sourceData?.provider).toBe('On-farm station (imported)')
+    expect(data.sourceData?.temperatures[0].source).toBe('North block (hourly.csv)')
+    expect(data.sourceData?.filledValues?.map((filled) => filled.variable)).toEqual([
+      'relativeHumidity',
+    ])
+
+    // Extremes of a partly logged day are suspect
+    const partial = stationWeatherData(dataset(), { ...day, coverage: 0.5 }, location)
+    expect(partial.quality?.minTemperature?.flag).toBe('suspect')
+  })
+})
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest'
+
+import type { WeatherStationResponse } from '@/types/weather'
+import {
+  compassDirection,
+  greatCircleDistance,
+  initialBearing,
+  rankStations,
+  toNearbyStation,
+} from '../stations'
+
+const stationFeature = (
+  id: string,
+  longitude: number,
+  latitude: number,
+  elevation: number,
+): WeatherStationResponse => ({
+  id: `https://api.weather.gov/stations/${id}`,
+  type: 'Feature',
+  geometry: { type: 'Point', coordinates: [longitude, latitude] },
+  properties: {
+    '@id': `https://api.weather.gov/stations/${id}`,
+    '@type': 'wx:ObservationStation',
+    elevation: { value: elevation, unitCode: 'wmoUnit:m' },
+    stationIdentifier: id,
+    name: `Station ${id}`,
+    timeZone: 'America/Denver',
+    forecast: '',
+    county: '',
+    fireWeatherZone: '',
+  },
+})
+
+describe('stations', () => {
+  it('computes great-circle distances', () => {
+    // One degree of latitude is about 111.2 km
+    expect(
+      greatCircleDistance({ latitude: 40, longitude: -105 }, { latitude: 41, longitude: -105 }),
+    ).toBeCloseTo(111.2, 1)
+    // Denver to Salt Lake City, about 600 km
+    const distance = greatCircleDistance(
+      { latitude: 39.7392, longitude: -104.9903 },
+      { latitude: 40.7608, longitude: -111.891 },
+    )
+    expect(distance).toBeGreaterThan(590)
+    expect(distance).toBeLessThan(600)
+  })
+
+  it('ranks stations by distance and elevation difference from the field', () => {
+    const field = { latitude: 40, longitude: -105 }
+    const stations = [
+      // 5 km away but 600 m higher
+      stationFeature('KHIGH', -105, 40.045, 2200),
+      // 20 km away at the field's elevation
+      stationFeature('KNEAR', -105, 40.18, 1600),
+      // 40 km away, 50 m lower
+      stationFeature('KFAR', -105, 40.36, 1550),
+    ].map((feature) => toNearbyStation(feature, field, 1600))
+
+    expect(stations[0].distance).toBeCloseTo(5, 0)
+    expect(stations[0].elevationDifference).toBe(600)
+    expect(rankStations(stations).map((s) => s.id)).toEqual(['KNEAR', 'KFAR', 'KHIGH'])
+  })
+  it('computes bearings and compass directions', () => {
+    const field = { latitude: 40, longitude: -105 }
+    expect(initialBearing(field, { latitude: 41, longitude: -105 })).toBeCloseTo(0, 6)
+    expect(initialBearing(field, { latitude: 40, longitude: -104 })).toBeCloseTo(89.7, 1)
+    expect(initialBearing(field, { latitude: 39, longitude: -105 })).toBeCloseTo(180, 6)
+    expect(compassDirection(0)).toBe('N')
+    expect(compassDirection(225)).toBe('SW')
+    expect(compassDirection(350)).toBe('N')
+  })
+})
@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+
+import type { Location, ProcessedWeatherData } from '@/types/weather'
+import { weatherService, type WeatherProvider } from '../weatherService'
+
+const location: Location = { latitude: 38.54, longitude: -121.74 }
+
+const forecastDay = (date: string, provider: string): ProcessedWeatherData => ({
+  date,
+  maxTemperature: 32,
+  minTemperature: 14,
+  relativeHumidity: 50,
+  windSpeed: 2,
+  station: { id: provider, name: provider, latitude: 38.54, longitude: -121.74, elevation: 16 },
+  timestamp: `${date}T12:00:00Z`,
+  sourceData: {
+    temperatures: [],
+    humidity: [],
+    windSpeed: [],
+    forecastDate: `${date}T12:00:00Z`,
+    provider,
+  },
+})
+
+// A provider answering with one forecast day, or failing with the given error
+const provider = (name: string, options: { fails?: Error; covers?: boolean } = {}) => {
+  const forecast = vi.fn(async (): Promise<ProcessedWeatherData[]> => {
+    if (options.fails) throw options.fails
+    return [forecastDay('2026-07-10', name)]
+  })
+  return {
+    name,
+    priority: 0,
+    isAvailable: () => true,
+    covers: () => options.covers ?? true,
+    getProcessedWeatherData: async () => (await forecast())[0],
+    getDailyForecastSeries: forecast,
+  } satisfies WeatherProvider
+}
+
+describe('weatherService', () => {
+  const providers = weatherService['providers']
+  let warn: ReturnType<typeof vi.spyOn>
+
+  beforeEach(() => {
+    warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined)
+  })
+
+  afterEach(() => {
+    weatherService['providers'] = providers
+    vi.restoreAllMocks()
+  })
+
+  it('falls back to the next provider when one fails', async () => {
+    const nws = provider('NWS', { fails: new Error('503 Service Unavailable') })
+    const openMeteo = provider('Open-Meteo')
+    weatherService['providers'] = [nws, openMeteo]
+
+    const [day] = await weatherService.getDailyForecastSeries(location, 3)
+
+    expect(day.sourceData?.provider).toBe('Open-Meteo')
+    expect(day.quality?.maxTemperature).toEqual({ flag: 'forecast' })
+    expect(nws.getDailyForecastSeries).toHaveBeenCalledWith(location, 3)
+    expect(warn).toHaveBeenCalledWith('NWS failed for daily forecast, trying next provider...')
+  })
+
+  it('rethrows the last error when every provider fails', async () => {
+    weatherService['providers'] = [
+      provider('NWS', { fails: new Error('503 Service Unavailable') }),
+      provider('Open-Meteo', { fails: new Error('Timeout') }),
+    ]
+
+    await expect(weatherService.getProcessedWeatherData(location)).rejects.toThrow('Timeout')
+    expect(warn).toHaveBeenCalledTimes(2)
+  })
+
+  it('asks only the providers that cover the location', async () => {
+    const nws = provider('NWS', { covers: false })
+    const openMeteo = provider('Open-Meteo')
+    weatherService['providers'] = [nws, openMeteo]
+
+    const data = await weatherService.getProcessedWeatherData(location)
+
+    expect(data.sourceData?.provider).toBe('Open-Meteo')
+    expect(nws.getDailyForecastSeries).not.toHaveBeenCalled()
+    expect(warn).not.toHaveBeenCalled()
+
+    weatherService['providers'] = [nws]
+    await expect(weatherService.getDailyForecastSeries(location)).rejects.toThrow(
+      'No weather providers available for this location',
+    )
+  })
+})
@@ -0,0 +1,19 @@
+// Base URLs of the public APIs the browser calls. With VITE_API_PROXY_URL set they go through the
+// proxy in server/, which sends the User-Agent both APIs ask for and caches their responses.
+// import.meta.env is undefined when the Vite config loads the proxy outside of Vite's transform.
+const proxyUrl = import.meta.env?.VITE_API_PROXY_URL?.replace(/\/+$/, '')
+
+// weather.gov and Nominatim ask for a User-Agent naming the application and a contact
+export const API_USER_AGENT = 'PME-POC Weather App (contact@example.com)'
+
+export const NWS_API_URL = proxyUrl ? `${proxyUrl}/nws` : 'https://api.weather.gov'
+export const NOMINATIM_API_URL = proxyUrl
+  ? `${proxyUrl}/nominatim`
+  : 'https://nominatim.openstreetmap.org'
+
+/**
+ * Whether API requests go through the proxy
+ */
+export function usesApiProxy(): boolean {
+  return !!proxyUrl
+}
@@ -0,0 +1,516 @@
+import type { Field } from '@/types/field'
+import type { EffectiveRainfallMethod } from '@/types/irrigation'
+import type { PenmanMonteithInputs } from '@/types/penmanMonteith'
+import type {
+  ProcessedWeatherData,
+  QualityFlag,
+  QualityVariable,
+  WeatherDataSource,
+} from '@/types/weather'
+import { formatCsv, type CsvValue } from '@/services/csv'
+import { et0Report, type Et0Report } from '@/services/dailyEt0'
+import { HARGREAVES_KRS } from '@/services/calculations/radiation'
+import {
+  cropCoefficientOn,
+  estimateMinRelativeHumidity,
+} from '@/services/calculations/cropCoefficient'
+import { effectiveRainfall } from '@/services/calculations/effectiveRainfall'
+import { findCrop } from '@/data/crops'
+
+// Reports of calculated ET₀ and ETc for water district reporting and certification audits
+
+// How a day's ET₀ and ETc were calculated
+export interface ReportMethod {
+  et0: string
+  solarRadiation: string
+  actualVaporPressure: string
+  windSpeed: string
+  cropCoefficient?: string
+}
+
+// A day of a report: ET₀ with every input, intermediate term and source, and the crop's ETc
+export interface ReportDay extends Et0Report {
+  method: ReportMethod
+  kc?: number // coefficient applied to ET₀: Kc × Ks, or Kcb × Ks + Ke
+  etc?: number // mm/day
+  precipitation?: number // mm
+  effectiveRainfall?: number // mm
+}
+
+export interface CalculationReport {
+  title: string
+  generatedAt: string // ISO-8601
+  location: {
+    latitude: number
+    longitude: number
+    address?: string
+  }
+  field?: Pick<Field, 'id' | 'name' | 'farm' | 'cropId' | 'plantingDate'>
+  assumptions: string[]
+  days: ReportDay[] // in date order
+}
+
+// A day of the calculator's ET₀ with the height its wind was measured at, 2 m when omitted
+export interface CalculatorDay {
+  report: Et0Report
+  windMeasurementHeight?: number
+}
+
+// The calculator's days and how it takes the crop's water use and the rain on them
+export interface CalculatorReportInput {
+  calculationDay: CalculatorDay
+  forecastDays: CalculatorDay[] // the forecast; the days after the calculation day are reported
+  location: CalculationReport['location']
+  field?: CalculationReport['field']
+  cropCoefficientMethod: string
+  kcOn: (date: string) => number // Kc of a day without ET₀
+  cropEtcOn: (date: string, et0: number) => number
+  precipitationOn: (date: string) => number
+  effectiveRainfallOn: (date: string) => number
+  rainfallMethod: EffectiveRainfallMethod
+}
+
+// How the calculator takes the crop coefficient and water stress
+export interface CalculatorCropSettings {
+  crop?: { name: string }
+  plantingDate: string
+  dualCoefficient: boolean
+  soilWaterBalance: boolean
+  cropCoefficient: number // manual Kc
+  stressCoefficient: number // manual Ks
+}
+
+// An input that is not plainly measured or forecast, called out for review
+export interface ReportFlag {
+  date: string // YYYY-MM-DD
+  variable: QualityVariable
+  flag: QualityFlag
+  value?: number // in the metric unit of the variable
+  note?: string
+}
+
+const FAO56_REFERENCE = 'FAO-56 Penman-Monteith (eq. 6)'
+const REFERENCE_ALBEDO = 0.23
+const FIELD_RAINFALL_METHOD: EffectiveRainfallMethod = { type: 'usda-scs' }
+
+/**
+ * How ET₀ was calculated from its inputs: the Rs method, the humidity term FAO-56 prefers among
+ * those given, and the wind conversion
+ * @param windMeasurementHeight - Height the wind was measured at, m; 2 m when omitted
+ */
+export function et0Method(
+  inputs: PenmanMonteithInputs,
+  windMeasurementHeight: number = 2,
+): ReportMethod {
+  const rsMethod = inputs.solarRadiationMethod ?? 'measured'
+  const krsLocation = inputs.hargreavesLocation ?? 'interior'
+  const solarRadiation = {
+    measured: 'Measured',
+    sunshine: 'Angstrom formula from sunshine hours (eq. 35)',
+    temperature: `Hargreaves formula from the temperature range, KRs ${HARGREAVES_KRS[krsLocation]} (${krsLocation}, eq. 50)`,
+  }[rsMethod]
+
+  let actualVaporPressure = 'Mean relative humidity (eq. 19)'
+  if (inputs.dewpoint !== undefined) actualVaporPressure = 'Dewpoint (eq. 14)'
+  else if (inputs.maxRelativeHumidity !== undefined && inputs.minRelativeHumidity !== undefined) {
+    actualVaporPressure = 'Maximum and minimum relative humidity (eq. 17)'
+  }
+
+  return {
+    et0: FAO56_REFERENCE,
+    solarRadiation,
+    actualVaporPressure,
+    windSpeed:
+      windMeasurementHeight === 2
+        ? 'Measured at 2 m'
+        : `Converted to 2 m from ${windMeasurementHeight} m (eq. 47)`,
+  }
+}
+
+/**
+ * Assumptions behind the ET₀ of a report's days, for the report's notes
+ */
+export function et0Assumptions(days: ReportDay[]): string[] {
+  const assumptions = [
+    'Grass reference surface: 0.12 m high, surface resistance 70 s/m (FAO-56 eq. 6)',
+    'Soil heat flux G = 0 for daily time steps (FAO-56 eq. 42)',
+  ]
+  const albedos = new Set(days.map((day) => day.inputs.albedo ?? REFERENCE_ALBEDO))
+  assumptions.push(
+    albedos.size === 1 && albedos.has(REFERENCE_ALBEDO)
+      ? `Albedo ${REFERENCE_ALBEDO} of the grass reference`
+      : `Albedo ${[...albedos].join(', ')}, entered by hand`,
+  )
+  if (days.some((day) => day.inputs.solarRadiationMethod === 'sunshine')) {
+    assumptions.push('Angstrom coefficients as = 0.25 and bs = 0.50 (FAO-56 eq. 35)')
+  }
+  if (days.some((day) => day.inputs.solarRadiationMethod === 'temperature')) {
+    assumptions.push('Rs not measured is estimated from the temperature range (FAO-56 eq. 50)')
+  }
+  return assumptions
+}
+
+/**
+ * How the effective part of the rain was taken, for a report's notes
+ */
+export function effectiveRainfallAssumption(method: EffectiveRainfallMethod): string {
+  switch (method.type) {
+    case 'fixed':
+      return `Effective rainfall is ${method.percentage} % of the rain`
+    case 'threshold':
+      return `Rain below ${method.threshold} mm is not effective`
+    default:
+      return 'Effective rainfall by the USDA-SCS method'
+  }
+}
+
+/**
+ * Report of a field's ET₀ and ETc from days of weather, with the calculator's defaults as on the
+ * dashboard: Kc from the crop curve (1 without a crop), no water stress and USDA-SCS effective
+ * rainfall
+ * @param weather - Daily weather of the field; the first day of each date is used
+ */
+export function fieldReport(
+  field: Field,
+  weather: ProcessedWeatherData[],
+  generatedAt: string = new Date().toISOString(),
+): CalculationReport {
+  const crop = field.cropId ? findCrop(field.cropId) : undefined
+  const curve = crop && field.plantingDate ? crop : undefined
+  const cropCoefficient = curve
+    ? `${curve.name} Kc curve from ${field.plantingDate}, adjusted for the climate (FAO-56 Table 12, eq. 62)`
+    : 'Kc 1, no crop set'
+
+  const byDate = new Map<string, ReportDay>()
+  for (const data of weather) {
+    const report = et0Report(data)
+    if (byDate.has(report.date)) continue
+
+    const climate = {
+      windSpeed: data.windSpeed,
+      minRelativeHumidity:
+        data.minRelativeHumidity ??
+        estimateMinRelativeHumidity(data.maxTemperature, data.minTemperature),
+    }
+    const kc = curve
+      ? (cropCoefficientOn(curve, field.plantingDate, report.date, climate)?.kc ?? 0)
+      : 1
+    const precipitation = data.precipitation ?? 0
+    byDate.set(report.date, {
+      ...report,
+      method: {
+        ...et0Method(report.inputs, data.windMeasurementHeight),
+        cropCoefficient,
+      },
+      kc,
+      etc: report.et0 * kc,
+      precipitation,
+      effectiveRainfall: effectiveRainfall(precipitation, FIELD_RAINFALL_METHOD),
+    })
+  }
+  const days = [...byDate.values()].sort((a, b) => a.date.localeCompare(b.date))
+
+  const { id, name, farm, cropId, plantingDate } = field
+  return {
+    title: `${name} ET₀ and ETc`,
+    generatedAt,
+    location: {
+      latitude: field.latitude,
+      longitude: field.longitude,
+      address: field.geocodeResult?.formattedAddress,
+    },
+    field: { id, name, farm, cropId, plantingDate },
+    assumptions: [
+      ...et0Assumptions(days),
+      'ETc = ET₀ × Kc, without water stress (Ks = 1)',
+      effectiveRainfallAssumption(FIELD_RAINFALL_METHOD),
+    ],
+    days,
+  }
+}
+
+/**
+ * How the calculator took the crop coefficient and water stress, for a report's methods
+ */
+export function cropCoefficientMethod(settings: CalculatorCropSettings): string {
+  const { crop, plantingDate, stressCoefficient } = settings
+  const stress = settings.soilWaterBalance
+    ? ' × Ks from the root-zone water balance (FAO-56 eq. 84)'
+    : stressCoefficient !== 1
+      ? ` × Ks ${stressCoefficient}, entered by hand`
+      : ''
+  if (settings.dualCoefficient && crop) {
+    return `Kcb × Ks + Ke of ${crop.name} planted ${plantingDate} (FAO-56 eq. 69)`
+  }
+  if (crop && plantingDate) {
+    return `${crop.name} Kc curve from ${plantingDate}, adjusted for the climate (FAO-56 Table 12, eq. 62)${stress}`
+  }
+  return `Kc ${settings.cropCoefficient}, entered by hand${stress}`
+}
+
+/**
+ * Report of the calculation day and the forecast days after it, as the calculator shows them
+ */
+export function calculatorReport(
+  input: CalculatorReportInput,
+  generatedAt: string = new Date().toISOString(),
+): CalculationReport {
+  const reportDay = ({ report, windMeasurementHeight }: CalculatorDay): ReportDay => {
+    const etc = input.cropEtcOn(report.date, report.et0)
+    return {
+      ...report,
+      method: {
+        ...et0Method(report.inputs, windMeasurementHeight),
+        cropCoefficient: input.cropCoefficientMethod,
+      },
+      kc: report.et0 > 0 ? etc / report.et0 : input.kcOn(report.date),
+      etc,
+      precipitation: input.precipitationOn(report.date),
+      effectiveRainfall: input.effectiveRainfallOn(report.date),
+    }
+  }
+
+  const calculationDay = reportDay(input.calculationDay)
+  const days = [
+    calculationDay,
+    ...input.forecastDays.filter(({ report }) => report.date > calculationDay.date).map(reportDay),
+  ]
+
+  const { field } = input
+  return {
+    title: field ? `${field.name} ET₀ and ETc` : 'ET₀ and ETc',
+    generatedAt,
+    location: input.location,
+    field,
+    assumptions: [...et0Assumptions(days), effectiveRainfallAssumption(input.rainfallMethod)],
+    days,
+  }
+}
+
+/**
+ * Inputs of a report's days that are estimated, defaulted or suspect
+ */
+export function reportFlags(report: CalculationReport): ReportFlag[] {
+  return report.days.flatMap(dayFlags)
+}
+
+function dayFlags(day: ReportDay): ReportFlag[] {
+  return Object.entries(day.quality ?? {})
+    .filter(([, quality]) => quality.flag !== 'measured' && quality.flag !== 'forecast')
+    .map(([variable, quality]) => ({
+      date: day.date,
+      variable: variable as QualityVariable,
+      flag: quality.flag,
+      value:
+        variable === 'solarRadiation'
+          ? day.result.radiation.solarRadiation
+          : day.inputs[variable as Exclude<QualityVariable, 'solarRadiation'>],
+      note: quality.note,
+    }))
+}
+
+const round = (value: number | undefined, digits: number = 4) =>
+  value === undefined ? undefined : Number(value.toFixed(digits))
+
+// One source value as text: what it is, when and where it came from
+function sourceText(kind: string, source: WeatherDataSource): string {
+  const value =
+    source.valueCelsius !== undefined ? `${round(source.valueCelsius, 2)} °C` : round(source.value)
+  return [
+    `${kind} ${value}`,
+    source.period,
+    source.date,
+    source.source,
+    source.measurementHeight !== undefined ? `at ${source.measurementHeight} m` : undefined,
+    source.url,
+  ]
+    .filter(Boolean)
+    .join(' | ')
+}
+
+const CSV_COLUMNS = [
+  'field',
+  'latitude',
+  'longitude',
+  'date',
+  'mode',
+  'et0_mm',
+  'kc',
+  'etc_mm',
+  'precipitation_mm',
+  'effective_rainfall_mm',
+  // Inputs
+  'tmax_c',
+  'tmin_c',
+  'rh_mean_pct',
+  'rh_max_pct',
+  'rh_min_pct',
+  'dewpoint_c',
+  'u2_ms',
+  'elevation_m',
+  'latitude_used',
+  'day_of_year',
+  'rs_method',
+  'rs_input_mjm2',
+  'sunshine_h',
+  'krs_location',
+  'albedo',
+  // Intermediate terms
+  'tmean_c',
+  'pressure_kpa',
+  'es_kpa',
+  'ea_kpa',
+  'vpd_kpa',
+  'delta_kpa_c',
+  'gamma_kpa_c',
+  'dr',
+  'declination_rad',
+  'sunset_angle_rad',
+  'ra_mjm2',
+  'daylight_h',
+  'rso_mjm2',
+  'rs_mjm2',
+  'rns_mjm2',
+  'rnl_mjm2',
+  'rn_mjm2',
+  'g_mjm2',
+  'ra_sm',
+  'rs_sm',
+  // Method
+  'method_et0',
+  'method_rs',
+  'method_ea',
+  'method_wind',
+  'method_kc',
+  // Provenance
+  'station_id',
+  'station',
+  'provider',
+  'forecast_date',
+  'period_start',
+  'period_end',
+  'hours_available',
+  'retrieved_at',
+  'cached_at',
+  'station_distance_km',
+  'forecast_url',
+  'point_data_url',
+  'gridpoints_url',
+  'observations_url',
+  'sources',
+  'flags',
+]
+
+/**
+ * CSV of a report, one row per day with every input, intermediate term, method and source
+ */
+export function reportCsv(report: CalculationReport): string {
+  const rows = report.days.map((day): CsvValue[] => {
+    const { inputs, result, method, sourceData } = day
+    const { radiation } = result
+    const sources = sourceData
+      ? [
+          ...sourceData.temperatures.map((source) => sourceText('temperature', source)),
+          ...sourceData.humidity.map((source) => sourceText('humidity', source)),
+          ...sourceData.windSpeed.map((source) => sourceText('wind', source)),
+          ...(sourceData.precipitation ?? []).map((source) => sourceText('precipitation', source)),
+        ]
+      : []
+    const flags = dayFlags(day).map(
+      ({ variable, flag, note }) => `${variable}: ${flag}${note ? ` (${note})` : ''}`,
+    )
+
+    return [
+      report.field?.name,
+      report.location.latitude,
+      report.location.longitude,
+      day.date,
+      day.mode,
+      round(day.et0, 2),
+      round(day.kc, 3),
+      round(day.etc, 2),
+      round(day.precipitation, 2),
+      round(day.effectiveRainfall, 2),
+      round(inputs.maxTemperature, 2),
+      round(inputs.minTemperature, 2),
+      round(inputs.relativeHumidity, 1),
+      round(inputs.maxRelativeHumidity, 1),
+      round(inputs.minRelativeHumidity, 1),
+      round(inputs.dewpoint, 2),
+      round(inputs.windSpeed, 3),
+      round(inputs.elevation, 1),
+      inputs.latitude,
+      inputs.dayOfYear,
+      inputs.solarRadiationMethod ?? 'measured',
+      round(inputs.solarRadiation, 2),
+      inputs.solarRadiationMethod === 'sunshine' ? inputs.sunshineHours : undefined,
+      inputs.solarRadiationMethod === 'temperature'
+        ? (inputs.hargreavesLocation ?? 'interior')
+        : undefined,
+      inputs.albedo ?? REFERENCE_ALBEDO,
+      round(result.meanTemperature),
+      round(result.atmosphericPressure),
+      round(result.saturationVaporPressure),
+      round(result.actualVaporPressure),
+      round(result.vaporPressureDeficit),
+      round(result.slopeVaporPressure),
+      round(result.psychrometricConstant),
+      round(radiation.inverseRelativeDistance),
+      round(radiation.solarDeclination),
+      round(radiation.sunsetHourAngle),
+      round(radiation.extraterrestrialRadiation),
+      round(radiation.maxDaylightHours),
+      round(radiation.clearSkyRadiation),
+      round(radiation.solarRadiation),
+      round(radiation.netShortwaveRadiation),
+      round(radiation.netLongwaveRadiation),
+      round(result.netRadiation),
+      round(result.soilHeatFlux),
+      round(result.aerodynamicResistance),
+      round(result.surfaceResistance),
+      method.et0,
+      method.solarRadiation,
+      method.actualVaporPressure,
+      method.windSpeed,
+      method.cropCoefficient,
+      day.station?.id,
+      day.station?.name,
+      sourceData?.provider,
+      sourceData?.forecastDate,
+      sourceData?.periodStart,
+      sourceData?.periodEnd,
+      sourceData?.hoursAvailable,
+      sourceData?.retrievedAt,
+      sourceData?.cachedAt,
+      round(sourceData?.stationDistance, 2),
+      sourceData?.forecastUrl,
+      sourceData?.pointDataUrl,
+      sourceData?.gridpointsUrl,
+      sourceData?.observationsUrl,
+      sources.join('; '),
+      flags.join('; '),
+    ]
+  })
+  return formatCsv([CSV_COLUMNS, ...rows])
+}
+
+/**
+ * JSON of a report with its flagged inputs, as the days' full data
+ */
+export function reportJson(report: CalculationReport): string {
+  return JSON.stringify({ ...report, flags: reportFlags(report) }, null, 2) + '\n'
+}
+
+/**
+ * File name of a report: the field or 'et0', and its first and last dates
+ */
+export function reportFileName(report: CalculationReport, extension: string): string {
+  const name = (report.field?.name ?? 'et0')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+  const first = report.days[0]?.date
+  const last = report.days[report.days.length - 1]?.date
+  const period = first && last && first !== last ? `${first}_${last}` : (first ?? '')
+  return `${[name || 'field', 'report', period].filter(Boolean).join('-')}.${extension}`
+}
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest'
+
+import type { Crop } from '@/types/crop'
+import { findCrop } from '@/data/crops'
+import {
+  adjustKcForClimate,
+  cropCoefficientOn,
+  daysBetween,
+  estimateMinRelativeHumidity,
+} from '../cropCoefficient'
+
+const tomato = findCrop('tomato') as Crop
+
+describe('cropCoefficient', () => {
+  it('leaves Kc unchanged in the subhumid reference climate (eq. 62)', () => {
+    expect(adjustKcForClimate(1.15, { windSpeed: 2, minRelativeHumidity: 45 }, 0.6)).toBe(1.15)
+    // Windy and dry: 1.15 + [0.04(3 - 2) - 0.004(30 - 45)](0.6/3)^0.3
+    expect(adjustKcForClimate(1.15, { windSpeed: 3, minRelativeHumidity: 30 }, 0.6)).toBeCloseTo(
+      1.2117,
+      4,
+    )
+    // Inputs are clamped to the validity range of the equation
+    expect(adjustKcForClimate(1.15, { windSpeed: 10, minRelativeHumidity: 5 }, 0.6)).toBeCloseTo(
+      adjustKcForClimate(1.15, { windSpeed: 6, minRelativeHumidity: 20 }, 0.6),
+      10,
+    )
+  })
+
+  it('estimates RHmin from Tmax and Tmin (eq. 63)', () => {
+    // e°(12.3) / e°(21.5) = 1.431 / 2.564
+    expect(estimateMinRelativeHumidity(21.5, 12.3)).toBeCloseTo(55.8, 1)
+  })
+
+  it('interpolates the four-stage Kc curve', () => {
+    // Tomatoes: 30/40/40/25 days, Kc 0.6 / 1.15 / 0.8
+    expect(daysBetween('2026-01-01', '2026-03-01')).toBe(59)
+    expect(cropCoefficientOn(tomato, '2026-01-01', '2025-12-31')).toBeNull()
+    expect(cropCoefficientOn(tomato, '2026-01-01', '2026-01-20')).toMatchObject({
+      kc: 0.6,
+      stage: 'initial',
+    })
+
+    const development = cropCoefficientOn(tomato, '2026-01-01', '2026-02-20')!
+    expect(development.stage).toBe('development')
+    expect(development.kc).toBeCloseTo(0.6 + (20 / 40) * 0.55, 6)
+
+    expect(cropCoefficientOn(tomato, '2026-01-01', '2026-04-01')?.kc).toBe(1.15)
+
+    const late = cropCoefficientOn(tomato, '2026-01-01', '2026-05-10')!
+    expect(late.stage).toBe('late')
+    expect(late.kc).toBeCloseTo(1.15 + (19 / 25) * (0.8 - 1.15), 6)
+
+    expect(cropCoefficientOn(tomato, '2026-01-01', '2026-05-17')).toBeNull()
+  })
+
+  it('applies the climatic adjustment to Kc_mid and Kc_end', () => {
+    const climate = { windSpeed: 3, minRelativeHumidity: 30 }
+    const result = cropCoefficientOn(tomato, '2026-01-01', '2026-04-01', climate)!
+    expect(result.kcMid).toBeCloseTo(1.2117, 4)
+    expect(result.kc).toBe(result.kcMid)
+    expect(result.kcEnd).toBeCloseTo(0.8617, 4)
+  })
+})
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest'
+
+import type { Crop } from '@/types/crop'
+import { findCrop } from '@/data/crops'
+import {
+  basalCropCoefficientOn,
+  evaporationReductionCoefficient,
+  fractionCover,
+  maxCropCoefficient,
+  runDualCropCoefficient,
+  totalEvaporableWater,
+} from '../dualCropCoefficient'
+
+const tomato = findCrop('tomato') as Crop
+const subhumid = { windSpeed: 2, minRelativeHumidity: 45 }
+
+describe('dualCropCoefficient', () => {
+  it('computes Kc_max, fc, TEW and Kr (eqs. 72-76)', () => {
+    expect(maxCropCoefficient(0.15, subhumid, 0.1)).toBe(1.2)
+    expect(maxCropCoefficient(1.2, subhumid, 2)).toBeCloseTo(1.25, 10)
+
+    expect(fractionCover(0.15, 1.2, 0.1)).toBe(0)
+    // ((0.675 - 0.15) / (1.2 - 0.15))^(1 + 0.5 × 0.4) = 0.5^1.2
+    expect(fractionCover(0.675, 1.2, 0.4)).toBeCloseTo(Math.pow(0.5, 1.2), 10)
+
+    // 1000 × (0.23 - 0.5 × 0.10) × 0.10
+    expect(totalEvaporableWater(0.23, 0.1)).toBeCloseTo(18, 10)
+
+    expect(evaporationReductionCoefficient(5, 18, 8)).toBe(1)
+    expect(evaporationReductionCoefficient(13, 18, 8)).toBeCloseTo(0.5, 10)
+    expect(evaporationReductionCoefficient(18, 18, 8)).toBe(0)
+  })
+
+  it('follows the basal Kcb curve and grows the crop through development', () => {
+    // Tomatoes: 30/40/40/25 days, Kcb 0.15 / 1.10 / 0.70
+    const initial = basalCropCoefficientOn(tomato, '2026-01-01', '2026-01-10')!
+    expect(initial.kc).toBe(0.15)
+    expect(initial.height).toBe(0.05)
+
+    const development = basalCropCoefficientOn(tomato, '2026-01-01', '2026-02-20')!
+    expect(development.kc).toBeCloseTo(0.15 + (20 / 40) * 0.95, 6)
+    expect(development.height).toBeCloseTo(tomato.maxHeight / 2, 6)
+
+    expect(basalCropCoefficientOn(tomato, '2026-01-01', '2026-04-01')?.height).toBe(
+      tomato.maxHeight,
+    )
+  })
+
+  it('dries the surface layer after wetting (eqs. 71, 74 and 77)', () => {
+    // Bare soil: Kcb 0.15, fc 0, Kc_max 1.2, TEW 18 mm, REW 8 mm, ET₀ 5 mm/day
+    const days = runDualCropCoefficient(
+      ['2026-06-01', '2026-06-02', '2026-06-03'].map((date, i) => ({
+        date,
+        et0: 5,
+        kcb: 0.15,
+        height: 0.1,
+        precipitation: i === 0 ? 20 : 0,
+      })),
+      {
+        climate: subhumid,
+        totalEvaporableWater: 18,
+        readilyEvaporableWater: 8,
+        irrigationSystem: 'sprinkler',
+      },
+    )
+
+    // Day 1: rain refills the layer, energy-limited stage Ke = 1.2 - 0.15
+    expect(days[0].kr).toBe(1)
+    expect(days[0].ke).toBeCloseTo(1.05, 10)
+    expect(days[0].evaporationDepletion).toBeCloseTo(5.25, 10)
+    // Day 2: De 5.25 < REW, still stage 1
+    expect(days[1].evaporationDepletion).toBeCloseTo(10.5, 10)
+    // Day 3: falling-rate stage, Kr = (18 - 10.5) / (18 - 8)
+    expect(days[2].kr).toBeCloseTo(0.75, 10)
+    expect(days[2].ke).toBeCloseTo(0.75 * 1.05, 10)
+  })
+
+  it('limits evaporation to the exposed, wetted soil under drip', () => {
+    const [day] = runDualCropCoefficient(
+      [{ date: '2026-07-01', et0: 6, kcb: 1.1, height: 0.6, irrigation: 7 }],
+      {
+        climate: subhumid,
+        totalEvaporableWater: 18,
+        readilyEvaporableWater: 8,
+        irrigationSystem: 'drip',
+        initialEvaporationDepletion: 18,
+      },
+    )
+
+    // fw 0.35 → irrigation wets the strip by 7 / 0.35 = 20 mm, refilling the layer
+    const fc = fractionCover(1.1, 1.2, 0.6)
+    expect(day.exposedWettedFraction).toBeCloseTo((1 - (2 / 3) * fc) * 0.35, 10)
+    expect(day.kr).toBe(1)
+    // Ke = min(Kr(Kc_max - Kcb), few × Kc_max)
+    expect(day.ke).toBeCloseTo(Math.min(0.1, day.exposedWettedFraction * 1.2), 10)
+  })
+})
@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest'
+
+import { effectiveRainfall, netIrrigationRequirement } from '../effectiveRainfall'
+
+describe('effectiveRainfall', () => {
+  it('applies the USDA-SCS formula to the equivalent monthly rainfall', () => {
+    // 5 mm/day = 152 mm/month → 152 × (125 - 0.2 × 152) / 125 = 115.0 mm/month
+    expect(effectiveRainfall(5, { type: 'usda-scs' })).toBeCloseTo(
+      (152 * (125 - 0.2 * 152)) / 125 / 30.4,
+      10,
+    )
+    // 25.4 mm/day = 772 mm/month → 125 + 0.1 × 772 = 202.2 mm/month
+    expect(effectiveRainfall(25.4, { type: 'usda-scs' })).toBeCloseTo(
+      (125 + 0.1 * 25.4 * 30.4) / 30.4,
+      10,
+    )
+    expect(effectiveRainfall(0, { type: 'usda-scs' })).toBe(0)
+  })
+
+  it('applies a fixed percentage or a threshold', () => {
+    expect(effectiveRainfall(20, { type: 'fixed', percentage: 80 })).toBeCloseTo(16, 10)
+    expect(effectiveRainfall(20, { type: 'fixed', percentage: 150 })).toBe(20)
+    expect(effectiveRainfall(4, { type: 'threshold', threshold: 5 })).toBe(0)
+    expect(effectiveRainfall(5, { type: 'threshold', threshold: 5 })).toBe(5)
+  })
+
+  it('subtracts effective rainfall from crop water demand', () => {
+    expect(netIrrigationRequirement(6, 2.5)).toBe(3.5)
+    expect(netIrrigationRequirement(6, 10)).toBe(0)
+  })
+})
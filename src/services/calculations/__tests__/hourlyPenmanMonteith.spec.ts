@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest'
+
+import { calculateHourlyEt0Series, calendarDate } from '../hourlyPenmanMonteith'
+import { hourlyExtraterrestrialRadiation } from '../radiation'
+
+// FAO-56 example 19: N'Diaridiaw, Senegal (16°13'N, 16°15'W, 8 m), 1 October
+const site = { latitude: 16.217, longitude: -16.25, elevation: 8 }
+
+describe('hourlyPenmanMonteith', () => {
+  it('reproduces the FAO-56 example 19 hourly extraterrestrial radiation', () => {
+    // 14:00-15:00 local standard time at Lz = 15°W is 15:00-16:00 UTC
+    expect(
+      hourlyExtraterrestrialRadiation(site.latitude, site.longitude, new Date('2026-10-01T15:00Z')),
+    ).toBeCloseTo(3.543, 1)
+    expect(
+      hourlyExtraterrestrialRadiation(site.latitude, site.longitude, new Date('2026-10-01T03:00Z')),
+    ).toBe(0)
+  })
+
+  it('computes hourly ET₀ and sums it per calendar day', () => {
+    const series = calculateHourlyEt0Series(
+      [
+        {
+          time: '2026-10-01T03:00:00Z',
+          temperature: 28,
+          relativeHumidity: 90,
+          windSpeed: 1.9,
+          skyCover: 0,
+        },
+        {
+          time: '2026-10-01T15:00:00Z',
+          temperature: 38,
+          relativeHumidity: 52,
+          windSpeed: 3.3,
+          skyCover: 0,
+        },
+        { time: '2026-10-01T16:00:00Z', temperature: 37, windSpeed: 3, skyCover: 50 },
+      ],
+      site,
+      'UTC',
+    )
+
+    // The last hour has neither dewpoint nor relative humidity
+    expect(series.hours).toHaveLength(2)
+    const [night, day] = series.hours
+    expect(night.isDaytime).toBe(false)
+    expect(night.soilHeatFlux).toBeCloseTo(0.5 * night.netRadiation, 6)
+    expect(day.isDaytime).toBe(true)
+    expect(day.soilHeatFlux).toBeCloseTo(0.1 * day.netRadiation, 6)
+    expect(day.et0).toBeGreaterThan(0.5)
+    expect(day.et0).toBeLessThan(0.9)
+
+    expect(series.dailyTotals).toEqual([{ date: '2026-10-01', et0: night.et0 + day.et0, hours: 2 }])
+  })
+
+  it('dates timestamps in each time zone', () => {
+    // 04:00 UTC is still the evening before in Chicago, and the same day in Tokyo
+    expect(calendarDate('2026-10-19T04:00:00Z', 'America/Chicago')).toBe('2026-10-18')
+    expect(calendarDate('2026-10-19T04:00:00Z', 'Asia/Tokyo')).toBe('2026-10-19')
+    expect(calendarDate('2026-10-19T23:00:00Z', 'America/Chicago')).toBe('2026-10-19')
+    expect(calendarDate('2026-10-19T23:00:00Z', 'Asia/Tokyo')).toBe('2026-10-20')
+  })
+})
@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest'
+
+import type { IrrigationSystem } from '@/types/irrigation'
+import { runSoilWaterBalance } from '../soilWaterBalance'
+import {
+  applicationRate,
+  grossDepth,
+  irrigationStatus,
+  recommendIrrigation,
+  runTime,
+} from '../irrigationScheduling'
+
+const system: IrrigationSystem = {
+  type: 'drip',
+  efficiency: 0.9,
+  emitterFlow: 2, // L/h
+  emitterSpacing: 0.5,
+  lateralSpacing: 1,
+  sprinklerRate: 10,
+  pivotDepth: 10,
+  pivotRevolutionHours: 20,
+}
+
+// TAW = 100 mm, RAW = 50 mm at ETc = 5 mm/day
+const balance = runSoilWaterBalance(
+  ['2026-07-01', '2026-07-02', '2026-07-03', '2026-07-04', '2026-07-05'].map((date) => ({
+    date,
+    etc: 5,
+  })),
+  {
+    fieldCapacity: 0.3,
+    wiltingPoint: 0.2,
+    rootDepth: 1,
+    depletionFraction: 0.5,
+    initialDepletion: 38,
+  },
+)
+
+describe('irrigationScheduling', () => {
+  it('converts depths into run times for each system type', () => {
+    expect(applicationRate(system)).toBeCloseTo(4, 6)
+    expect(applicationRate({ ...system, type: 'sprinkler' })).toBe(10)
+    expect(grossDepth(36, 0.9)).toBeCloseTo(40, 6)
+
+    expect(runTime(40, system).hours).toBeCloseTo(10, 6)
+    expect(runTime(40, { ...system, type: 'sprinkler' }).hours).toBeCloseTo(4, 6)
+    // 25 mm takes 40% speed: 20 h / 0.4 = 50 h
+    const pivot = runTime(25, { ...system, type: 'pivot' })
+    expect(pivot.pivotSpeed).toBeCloseTo(40, 6)
+    expect(pivot.hours).toBeCloseTo(50, 6)
+    expect(runTime(5, { ...system, type: 'pivot' }).pivotSpeed).toBe(100)
+  })
+
+  it('schedules the refill before depletion passes RAW', () => {
+    // Dr at the end of each day: 43, 48, 53 > RAW
+    const recommendation = recommendIrrigation(balance, { type: 'refill' }, system)
+    expect(recommendation.date).toBe('2026-07-03')
+    expect(recommendation.daysFromStart).toBe(2)
+    expect(recommendation.netDepth).toBeCloseTo(53, 6)
+    expect(recommendation.grossDepth).toBeCloseTo(53 / 0.9, 6)
+    expect(recommendation.runTime).toBeCloseTo(53 / 0.9 / 4, 6)
+    expect(recommendation.warnings).toEqual([])
+  })
+
+  it('warns when a fixed depth over- or under-fills the root zone', () => {
+    expect(
+      recommendIrrigation(balance, { type: 'fixed', depth: 80 }, system).warnings,
+    ).toHaveLength(1)
+    expect(recommendIrrigation(balance, { type: 'fixed', depth: 2 }, system).warnings).toHaveLength(
+      1,
+    )
+    expect(recommendIrrigation(balance, { type: 'fixed', depth: 25 }, system)).toMatchObject({
+      netDepth: 25,
+      warnings: [],
+    })
+  })
+  it('defers irrigation when effective rain the next day refills the root zone', () => {
+    const stormy = runSoilWaterBalance(
+      ['2026-07-01', '2026-07-02', '2026-07-03', '2026-07-04', '2026-07-05'].map((date) => ({
+        date,
+        etc: 5,
+        // 25.4 mm storm of which 20 mm is effective
+        precipitation: date === '2026-07-04' ? 25.4 : 0,
+        runoff: date === '2026-07-04' ? 5.4 : 0,
+      })),
+      {
+        fieldCapacity: 0.3,
+        wiltingPoint: 0.2,
+        rootDepth: 1,
+        depletionFraction: 0.5,
+        initialDepletion: 38,
+      },
+    )
+
+    // Dr: 43, 48, 53 > RAW, then 53 + 0.94 × 5 - 20 = 37.7 (Ks 0.94) and 42.7
+    const recommendation = recommendIrrigation(stormy, { type: 'refill' }, system)
+    expect(recommendation.deferredForRain).toBe('2026-07-04')
+    expect(recommendation.date).toBeNull()
+    expect(recommendation.depletion).toBeCloseTo(42.7, 6)
+  })
+
+  it('classifies the urgency of a recommendation', () => {
+    const recommendation = recommendIrrigation(balance, { type: 'refill' }, system)
+    expect(irrigationStatus(recommendation)).toBe('within-3-days')
+    expect(irrigationStatus({ ...recommendation, daysFromStart: 0 })).toBe('irrigate-today')
+    expect(irrigationStatus({ ...recommendation, daysFromStart: 4 })).toBe('ok')
+    expect(irrigationStatus({ ...recommendation, date: null, daysFromStart: null })).toBe('ok')
+  })
+})
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest'
+
+import {
+  estimateDewpoint,
+  estimateHumidity,
+  estimateSolarRadiation,
+  humidityEstimateLabel,
+} from '../missingData'
+
+describe('missingData', () => {
+  it('takes the dewpoint below Tmin by the aridity correction', () => {
+    expect(estimateDewpoint(10)).toBe(10)
+    expect(estimateDewpoint(10, 'semi-arid')).toBe(8)
+    expect(estimateDewpoint(10, 'arid')).toBe(7)
+  })
+
+  it('estimates ea as e°(Tmin) in a humid climate (FAO-56 eq. 48)', () => {
+    const estimate = estimateHumidity(25, 15)
+    expect(estimate.dewpoint).toBe(15)
+    // e°(15) = 1.705 kPa (FAO-56 example 3)
+    expect(estimate.actualVaporPressure).toBeCloseTo(1.705, 3)
+    // es = (3.168 + 1.705) / 2 = 2.437 kPa
+    expect(estimate.relativeHumidity).toBeCloseTo(70.0, 1)
+  })
+
+  it('gives a drier estimate in an arid climate', () => {
+    const humid = estimateHumidity(35, 20, 'humid')
+    const arid = estimateHumidity(35, 20, 'arid')
+    expect(arid.actualVaporPressure).toBeLessThan(humid.actualVaporPressure)
+    expect(arid.relativeHumidity).toBeLessThan(humid.relativeHumidity)
+  })
+
+  it('caps the mean relative humidity at 100 %', () => {
+    expect(estimateHumidity(10, 10).relativeHumidity).toBe(100)
+  })
+
+  it('estimates Rs from the temperature range and Ra (FAO-56 eq. 50)', () => {
+    // Ra = 32.2 MJ/m²/day at 20°S on 3 September (FAO-56 example 8)
+    expect(estimateSolarRadiation(-20, 246, 26.6, 14.8)).toBeCloseTo(
+      0.16 * Math.sqrt(11.8) * 32.2,
+      1,
+    )
+  })
+
+  it('labels the estimate with the aridity correction', () => {
+    expect(humidityEstimateLabel('humid')).toBe('Tdew ≈ Tmin')
+    expect(humidityEstimateLabel('arid')).toBe('Tdew ≈ Tmin − 3 °C (arid)')
+  })
+})
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest'
+
+import {
+  atmosphericPressure,
+  calculateEt0,
+  psychrometricConstant,
+  saturationVaporPressure,
+  slopeVaporPressureCurve,
+  windSpeedAt2m,
+} from '../penmanMonteith'
+
+describe('penmanMonteith', () => {
+  it('reproduces FAO-56 example 14 wind height conversion', () => {
+    // 3.2 m/s at 10 m above ground
+    expect(windSpeedAt2m(3.2, 10)).toBeCloseTo(2.4, 1)
+    expect(windSpeedAt2m(3.2, 2)).toBe(3.2)
+  })
+
+  it('matches the FAO-56 tabulated psychrometric values', () => {
+    // FAO-56 example 2: z = 1800 m
+    expect(atmosphericPressure(1800)).toBeCloseTo(81.8, 1)
+    expect(psychrometricConstant(81.8)).toBeCloseTo(0.054, 3)
+    // FAO-56 Annex 2, Table 2.3/2.4 at 25 °C
+    expect(saturationVaporPressure(25)).toBeCloseTo(3.168, 3)
+    expect(slopeVaporPressureCurve(25)).toBeCloseTo(0.189, 3)
+  })
+
+  it('reproduces FAO-56 example 18 (Brussels, 6 July)', () => {
+    const result = calculateEt0({
+      maxTemperature: 21.5,
+      minTemperature: 12.3,
+      relativeHumidity: 70.55,
+      windSpeed: 2.078,
+      solarRadiation: 22.07,
+      elevation: 100,
+      latitude: 50.8,
+      dayOfYear: 187,
+    })
+
+    expect(result.slopeVaporPressure).toBeCloseTo(0.122, 3)
+    expect(result.psychrometricConstant).toBeCloseTo(0.0666, 3)
+    expect(result.vaporPressureDeficit).toBeCloseTo(0.589, 2)
+    expect(result.netRadiation).toBeCloseTo(13.28, 1)
+    expect(result.soilHeatFlux).toBe(0)
+    expect(result.et0).toBeCloseTo(3.9, 1)
+  })
+  it('prefers dewpoint, then RHmax/RHmin, over RHmean for actual vapour pressure', () => {
+    const inputs = {
+      maxTemperature: 21.5,
+      minTemperature: 12.3,
+      relativeHumidity: 50,
+      windSpeed: 2.078,
+      solarRadiation: 22.07,
+      elevation: 100,
+      latitude: 50.8,
+      dayOfYear: 187,
+    }
+
+    // FAO-56 example 18 reports RHmax = 84 % and RHmin = 63 % (eq. 17)
+    const fromExtremes = calculateEt0({
+      ...inputs,
+      maxRelativeHumidity: 84,
+      minRelativeHumidity: 63,
+    })
+    expect(fromExtremes.actualVaporPressure).toBeCloseTo(1.409, 3)
+    expect(fromExtremes.et0).toBeCloseTo(3.9, 1)
+
+    // eq. 14: ea = e°(Tdew), overriding both humidity inputs
+    const fromDewpoint = calculateEt0({
+      ...inputs,
+      maxRelativeHumidity: 84,
+      minRelativeHumidity: 63,
+      dewpoint: 12,
+    })
+    expect(fromDewpoint.actualVaporPressure).toBeCloseTo(saturationVaporPressure(12), 6)
+  })
+})
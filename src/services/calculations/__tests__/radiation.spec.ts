@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest'
+
+import {
+  calculateNetRadiation,
+  clearSkyRadiation,
+  daylightHours,
+  degreesToRadians,
+  extraterrestrialRadiation,
+  netLongwaveRadiation,
+  solarDeclination,
+  solarRadiationFromTemperature,
+  sunsetHourAngle,
+} from '../radiation'
+
+describe('radiation', () => {
+  it('reproduces FAO-56 example 8 (20°S, 3 September)', () => {
+    expect(extraterrestrialRadiation(-20, 246)).toBeCloseTo(32.2, 1)
+  })
+
+  it('reproduces FAO-56 example 9 daylight hours', () => {
+    const omegaS = sunsetHourAngle(degreesToRadians(-20), solarDeclination(246))
+    expect(daylightHours(omegaS)).toBeCloseTo(11.7, 1)
+  })
+
+  it('reproduces FAO-56 examples 10 and 11 (Rio de Janeiro, 15 May)', () => {
+    const result = calculateNetRadiation({
+      latitude: -22.9,
+      dayOfYear: 135,
+      elevation: 0,
+      maxTemperature: 25.1,
+      minTemperature: 19.1,
+      actualVaporPressure: 2.1,
+      solarRadiationMethod: 'sunshine',
+      sunshineHours: 7.1,
+    })
+
+    expect(result.extraterrestrialRadiation).toBeCloseTo(25.1, 1)
+    expect(result.maxDaylightHours).toBeCloseTo(10.9, 1)
+    expect(result.solarRadiation).toBeCloseTo(14.5, 1)
+    expect(result.clearSkyRadiation).toBeCloseTo(18.8, 1)
+    expect(result.netShortwaveRadiation).toBeCloseTo(11.1, 0)
+    expect(result.netLongwaveRadiation).toBeCloseTo(3.5, 1)
+    expect(result.netRadiation).toBeCloseTo(7.6, 0)
+  })
+
+  it('estimates solar radiation from temperature with interior and coastal KRs', () => {
+    // Rs = 0.16 · √(26.6 - 14.8) · 40.6
+    expect(solarRadiationFromTemperature(40.6, 26.6, 14.8)).toBeCloseTo(22.3, 1)
+    expect(solarRadiationFromTemperature(40.6, 26.6, 14.8, 'coastal')).toBeGreaterThan(
+      solarRadiationFromTemperature(40.6, 26.6, 14.8, 'interior'),
+    )
+  })
+
+  it('limits Rs/Rso to 1 in the longwave term', () => {
+    const rso = clearSkyRadiation(30, 0)
+    expect(netLongwaveRadiation(30, 15, 1.5, rso * 1.2, rso)).toBeCloseTo(
+      netLongwaveRadiation(30, 15, 1.5, rso, rso),
+      6,
+    )
+  })
+})
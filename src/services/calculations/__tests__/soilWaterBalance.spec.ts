@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest'
+
+import {
+  adjustDepletionFraction,
+  runSoilWaterBalance,
+  totalAvailableWater,
+  waterStressCoefficient,
+} from '../soilWaterBalance'
+
+const sandyLoam = { fieldCapacity: 0.23, wiltingPoint: 0.11, rootDepth: 1, depletionFraction: 0.5 }
+
+describe('soilWaterBalance', () => {
+  it('computes TAW, adjusted p and Ks (eqs. 82-84)', () => {
+    expect(totalAvailableWater(0.23, 0.11, 1)).toBeCloseTo(120, 6)
+    expect(adjustDepletionFraction(0.5, 5)).toBe(0.5)
+    expect(adjustDepletionFraction(0.5, 10)).toBeCloseTo(0.3, 6)
+    expect(adjustDepletionFraction(0.3, 15)).toBe(0.1)
+
+    expect(waterStressCoefficient(50, 120, 60)).toBe(1)
+    expect(waterStressCoefficient(90, 120, 60)).toBeCloseTo(0.5, 6)
+    expect(waterStressCoefficient(120, 120, 60)).toBe(0)
+  })
+
+  it('tracks depletion day by day and reduces ETc beyond RAW', () => {
+    const days = ['2026-07-01', '2026-07-02', '2026-07-03', '2026-07-04'].map((date) => ({
+      date,
+      etc: 5,
+    }))
+    const result = runSoilWaterBalance(days, { ...sandyLoam, initialDepletion: 51 })
+
+    expect(result.totalAvailableWater).toBeCloseTo(120, 6)
+    expect(result.days[1].depletion).toBeCloseTo(61, 6)
+    // Dr = 61 mm exceeds RAW = 60 mm at the start of the third day: Ks = (120 - 61) / (120 - 60)
+    expect(result.days.map((d) => d.ks)).toEqual([
+      1,
+      1,
+      expect.closeTo(59 / 60, 6),
+      expect.any(Number),
+    ])
+    expect(result.days[2].etcAdjusted).toBeCloseTo((5 * 59) / 60, 6)
+    expect(result.days[3].ks).toBeLessThan(result.days[2].ks)
+    expect(result.daysUntilRaw).toBe(2)
+  })
+
+  it('drains water above field capacity as deep percolation', () => {
+    const result = runSoilWaterBalance(
+      [
+        { date: '2026-07-01', etc: 4, precipitation: 30, runoff: 5, irrigation: 0 },
+        { date: '2026-07-02', etc: 4, irrigation: 10 },
+      ],
+      { ...sandyLoam, initialDepletion: 20 },
+    )
+
+    // 20 - (30 - 5) + 4 = -1 → field capacity with 1 mm deep percolation
+    expect(result.days[0].depletion).toBe(0)
+    expect(result.days[0].deepPercolation).toBeCloseTo(1, 6)
+    expect(result.days[1].deepPercolation).toBeCloseTo(6, 6)
+    expect(result.daysUntilRaw).toBeNull()
+  })
+})
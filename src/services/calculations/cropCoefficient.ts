@@ -0,0 +1,86 @@
+import type { Crop, CropClimate, CropCoefficientResult, CropGrowthStage } from '@/types/crop'
+import { saturationVaporPressure } from './penmanMonteith'
+
+const DAY_MS = 24 * 3600 * 1000
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value))
+
+/**
+ * Whole days from one calendar date (YYYY-MM-DD) to another
+ */
+export function daysBetween(from: string, to: string): number {
+  const utc = (date: string) => {
+    const [year, month, day] = date.split('-').map(Number)
+    return Date.UTC(year, month - 1, day)
+  }
+  return Math.round((utc(to) - utc(from)) / DAY_MS)
+}
+
+/**
+ * Minimum relative humidity estimated from daily temperatures, taking Tdew ≈ Tmin (FAO-56 eq. 63)
+ * @returns RHmin in %
+ */
+export function estimateMinRelativeHumidity(
+  maxTemperature: number,
+  minTemperature: number,
+): number {
+  return (100 * saturationVaporPressure(minTemperature)) / saturationVaporPressure(maxTemperature)
+}
+
+/**
+ * Adjust a tabulated Kc_mid or Kc_end for climates other than subhumid (FAO-56 eqs. 62 and 65)
+ * @param kc - Kc from Table 12 (u₂ = 2 m/s, RHmin = 45 %)
+ * @param climate - Mean u₂ and RHmin over the stage, clamped to the equation's 1-6 m/s and 20-80 %
+ * @param height - Mean plant height during the stage in m, clamped to 0.1-10 m
+ */
+export function adjustKcForClimate(kc: number, climate: CropClimate, height: number): number {
+  const u2 = clamp(climate.windSpeed, 1, 6)
+  const rhMin = clamp(climate.minRelativeHumidity, 20, 80)
+  const h = clamp(height, 0.1, 10)
+
+  return kc + (0.04 * (u2 - 2) - 0.004 * (rhMin - 45)) * Math.pow(h / 3, 0.3)
+}
+
+/**
+ * Crop coefficient on a date from the four-stage Kc curve (FAO-56 eq. 66 and Fig. 25)
+ * @param crop - Crop with tabulated coefficients and stage lengths
+ * @param plantingDate - Planting (or green-up) date, YYYY-MM-DD
+ * @param date - Date to evaluate, YYYY-MM-DD
+ * @param climate - Local climate for adjusting Kc_mid and Kc_end; Table 12 values when omitted
+ * @returns Kc and the growth stage, or null before planting or after the late season
+ */
+export function cropCoefficientOn(
+  crop: Crop,
+  plantingDate: string,
+  date: string,
+  climate?: CropClimate,
+): CropCoefficientResult | null {
+  const kcMid = climate ? adjustKcForClimate(crop.kcMid, climate, crop.maxHeight) : crop.kcMid
+  // eq. 65 only applies when the tabulated Kc_end exceeds 0.45
+  const kcEnd =
+    climate && crop.kcEnd > 0.45
+      ? adjustKcForClimate(crop.kcEnd, climate, crop.maxHeight)
+      : crop.kcEnd
+
+  const { initial, development, mid, late } = crop.stageLengths
+  const day = daysBetween(plantingDate, date)
+  if (day < 0 || day > initial + development + mid + late) return null
+
+  let kc: number
+  let stage: CropGrowthStage
+  if (day <= initial) {
+    stage = 'initial'
+    kc = crop.kcIni
+  } else if (day <= initial + development) {
+    stage = 'development'
+    kc = crop.kcIni + ((day - initial) / development) * (kcMid - crop.kcIni)
+  } else if (day <= initial + development + mid) {
+    stage = 'mid'
+    kc = kcMid
+  } else {
+    stage = 'late'
+    kc = kcMid + ((day - initial - development - mid) / late) * (kcEnd - kcMid)
+  }
+
+  return { kc, stage, daysAfterPlanting: day, kcMid, kcEnd }
+}
@@ -0,0 +1,167 @@
+import type { Crop, CropClimate, CropCoefficientResult, DualCropCoefficientDay } from '@/types/crop'
+import type { IrrigationSystemType } from '@/types/irrigation'
+import { adjustKcForClimate, cropCoefficientOn } from './cropCoefficient'
+
+// Minimum Kc for dry bare soil with no ground cover (eq. 76)
+const KC_MIN = 0.15
+// Rain of at least this depth wets the whole surface, whatever the irrigation system
+const WETTING_RAIN = 3 // mm
+
+// One day of the surface-layer evaporation balance
+export interface DualCropCoefficientInput {
+  date: string // YYYY-MM-DD
+  et0: number // mm
+  kcb: number // basal crop coefficient, 0 outside the growing season
+  height: number // m, crop height on the day
+  precipitation?: number // mm
+  irrigation?: number // mm, net depth over the field
+  runoff?: number // mm
+}
+
+export interface DualCropCoefficientParameters {
+  climate: CropClimate // u₂ and RHmin for Kc_max (eq. 72)
+  totalEvaporableWater: number // TEW, mm
+  readilyEvaporableWater: number // REW, mm
+  irrigationSystem: IrrigationSystemType // sets the wetted fraction fw (Table 20)
+  initialEvaporationDepletion?: number // De at the start of the first day, mm; defaults to TEW (dry surface)
+}
+
+/**
+ * Basal crop coefficient on a date from the Kcb curve, with Kcb_mid and Kcb_end adjusted
+ * for climate (FAO-56 eq. 70) and the crop height growing with Kcb through development
+ * @returns Kcb (as kc) with the stage and crop height, or null outside the growing season
+ */
+export function basalCropCoefficientOn(
+  crop: Crop,
+  plantingDate: string,
+  date: string,
+  climate?: CropClimate,
+): (CropCoefficientResult & { height: number }) | null {
+  const basal = { ...crop, kcIni: crop.kcbIni, kcMid: crop.kcbMid, kcEnd: crop.kcbEnd }
+  const result = cropCoefficientOn(basal, plantingDate, date, climate)
+  if (!result) return null
+
+  let growth = 1
+  if (result.stage === 'initial') growth = 0
+  if (result.stage === 'development') {
+    growth = (result.kc - crop.kcbIni) / Math.max(1e-6, result.kcMid - crop.kcbIni)
+  }
+  return { ...result, height: Math.max(0.05, crop.maxHeight * growth) }
+}
+
+/**
+ * Upper limit of Kc following rain or irrigation (FAO-56 eq. 72)
+ */
+export function maxCropCoefficient(kcb: number, climate: CropClimate, height: number): number {
+  return Math.max(adjustKcForClimate(1.2, climate, height), kcb + 0.05)
+}
+
+/**
+ * Effective fraction of soil surface covered by vegetation (FAO-56 eq. 76)
+ * @returns fc limited to 0-0.99
+ */
+export function fractionCover(kcb: number, kcMax: number, height: number): number {
+  if (kcb <= KC_MIN) return 0
+  const fraction = Math.pow((kcb - KC_MIN) / (kcMax - KC_MIN), 1 + 0.5 * height)
+  return Math.min(0.99, fraction)
+}
+
+/**
+ * Total evaporable water of the surface soil layer (FAO-56 eq. 73)
+ * @param fieldCapacity - θFC in m³/m³
+ * @param wiltingPoint - θWP in m³/m³
+ * @param depth - Depth of the evaporating layer Ze in m, 0.10-0.15
+ * @returns TEW in mm
+ */
+export function totalEvaporableWater(
+  fieldCapacity: number,
+  wiltingPoint: number,
+  depth: number = 0.1,
+): number {
+  return Math.max(0, 1000 * (fieldCapacity - 0.5 * wiltingPoint) * depth)
+}
+
+/**
+ * Evaporation reduction coefficient of the drying surface layer (FAO-56 eq. 74)
+ * @param depletion - Cumulative evaporation depletion De in mm
+ */
+export function evaporationReductionCoefficient(
+  depletion: number,
+  tew: number,
+  rew: number,
+): number {
+  if (depletion <= rew) return 1
+  if (tew <= rew) return 0
+  return Math.max(0, (tew - depletion) / (tew - rew))
+}
+
+/**
+ * Fraction of the surface wetted by irrigation (FAO-56 Table 20)
+ */
+export function wettedFraction(system: IrrigationSystemType): number {
+  return system === 'drip' ? 0.35 : 1
+}
+
+/**
+ * Daily soil evaporation coefficient Ke from the surface-layer water balance (FAO-56 eqs. 71-77)
+ *
+ * Rain and irrigation are taken to fall at the start of the day, so Kr reflects the wetting
+ * on the same day. Transpiration from the evaporating layer is neglected.
+ * @param inputs - Consecutive days of ET₀, Kcb, crop height and wetting
+ * @param parameters - Climate, surface-layer water and irrigation system
+ * @returns Kcb, Ke and the evaporation balance per day
+ */
+export function runDualCropCoefficient(
+  inputs: DualCropCoefficientInput[],
+  parameters: DualCropCoefficientParameters,
+): DualCropCoefficientDay[] {
+  const tew = parameters.totalEvaporableWater
+  const rew = Math.min(parameters.readilyEvaporableWater, tew)
+  const irrigationFw = wettedFraction(parameters.irrigationSystem)
+  let depletion = Math.min(tew, Math.max(0, parameters.initialEvaporationDepletion ?? tew))
+  // fw of the most recent wetting event
+  let fw = 1
+  let wettedByDrip = false
+
+  return inputs.map((input) => {
+    const precipitation = input.precipitation ?? 0
+    const irrigation = input.irrigation ?? 0
+    const runoff = Math.min(precipitation, input.runoff ?? 0)
+
+    if (precipitation >= WETTING_RAIN) {
+      fw = 1
+      wettedByDrip = false
+    } else if (irrigation > 0) {
+      fw = irrigationFw
+      wettedByDrip = parameters.irrigationSystem === 'drip'
+    }
+
+    // Infiltration at the start of the day; irrigation depth is concentrated on the wetted fraction
+    depletion = Math.max(0, depletion - (precipitation - runoff) - irrigation / fw)
+
+    const kcMax = maxCropCoefficient(input.kcb, parameters.climate, input.height)
+    const fc = fractionCover(input.kcb, kcMax, input.height)
+    // Drip wets mostly the soil under the canopy, which is shaded
+    const few = wettedByDrip ? (1 - (2 / 3) * fc) * fw : Math.min(1 - fc, fw)
+
+    const kr = evaporationReductionCoefficient(depletion, tew, rew)
+    const ke = Math.min(kr * (kcMax - input.kcb), few * kcMax)
+    const evaporation = ke * input.et0
+
+    if (few > 0) {
+      depletion = Math.min(tew, depletion + evaporation / few)
+    }
+
+    return {
+      date: input.date,
+      kcb: input.kcb,
+      kcMax,
+      fractionCover: fc,
+      exposedWettedFraction: few,
+      kr,
+      ke,
+      evaporation,
+      evaporationDepletion: depletion,
+    }
+  })
+}
@@ -0,0 +1,37 @@
+import type { EffectiveRainfallMethod } from '@/types/irrigation'
+
+// The USDA-SCS formula is defined for monthly totals
+const DAYS_PER_MONTH = 30.4
+
+/**
+ * Part of the rainfall that is stored in the root zone and available to the crop; the rest is
+ * lost to runoff, deep percolation below the root zone and interception
+ * @param precipitation - Daily rainfall in mm
+ * @param method - USDA-SCS, a fixed percentage or a threshold
+ * @returns Effective rainfall Pe in mm/day, between 0 and the rainfall
+ */
+export function effectiveRainfall(precipitation: number, method: EffectiveRainfallMethod): number {
+  if (precipitation <= 0) return 0
+
+  switch (method.type) {
+    case 'usda-scs': {
+      // Applied to the equivalent monthly rainfall and scaled back to the day
+      const monthly = precipitation * DAYS_PER_MONTH
+      const effective =
+        monthly <= 250 ? (monthly * (125 - 0.2 * monthly)) / 125 : 125 + 0.1 * monthly
+      return effective / DAYS_PER_MONTH
+    }
+    case 'fixed':
+      return (precipitation * Math.min(100, Math.max(0, method.percentage))) / 100
+    case 'threshold':
+      return precipitation >= method.threshold ? precipitation : 0
+  }
+}
+
+/**
+ * Crop water demand left for irrigation once effective rainfall is subtracted
+ * @returns max(0, ETc − Pe) in mm/day
+ */
+export function netIrrigationRequirement(etc: number, effective: number): number {
+  return Math.max(0, etc - effective)
+}
@@ -0,0 +1,158 @@
+import type { HourlyWeatherPoint } from '@/types/weather'
+import type {
+  DailyEt0Total,
+  HourlyEt0Result,
+  HourlyEt0Series,
+  HourlyPenmanMonteithSite,
+} from '@/types/penmanMonteith'
+import {
+  atmosphericPressure,
+  psychrometricConstant,
+  saturationVaporPressure,
+  slopeVaporPressureCurve,
+} from './penmanMonteith'
+import { hourlyExtraterrestrialRadiation } from './radiation'
+
+const STEFAN_BOLTZMANN_HOURLY = 2.043e-10 // MJ/K⁴/m²/hour
+const REFERENCE_ALBEDO = 0.23
+
+// Numerator and denominator constants for the short (grass) reference, ASCE-EWRI Table 1
+const CN_HOURLY = 37
+const CD_DAYTIME = 0.24
+const CD_NIGHTTIME = 0.96
+
+// One date formatter per time zone, '' for the runtime's local zone
+const dateFormatters = new Map<string, Intl.DateTimeFormat>()
+
+/**
+ * Calendar date (YYYY-MM-DD) of a timestamp in the given IANA time zone
+ * @param time - ISO-8601 timestamp
+ * @param timeZone - IANA time zone, defaults to the runtime's local zone
+ */
+export function calendarDate(time: string, timeZone?: string): string {
+  let formatter = dateFormatters.get(timeZone || '')
+  if (!formatter) {
+    // en-CA formats dates as YYYY-MM-DD
+    formatter = new Intl.DateTimeFormat('en-CA', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+    })
+    dateFormatters.set(timeZone || '', formatter)
+  }
+  return formatter.format(new Date(time))
+}
+
+/**
+ * Actual vapour pressure for an hour, from dewpoint (eq. 14) or relative humidity (eq. 54)
+ */
+function hourlyActualVaporPressure(point: HourlyWeatherPoint): number | null {
+  if (point.dewpoint !== undefined) {
+    return saturationVaporPressure(point.dewpoint)
+  }
+  if (point.relativeHumidity !== undefined) {
+    return (saturationVaporPressure(point.temperature) * point.relativeHumidity) / 100
+  }
+  return null
+}
+
+/**
+ * Hourly reference evapotranspiration (FAO-56 eq. 53)
+ *
+ * Solar radiation is estimated from sky cover with the Angstrom formula, taking the
+ * clear fraction of the sky as the relative sunshine duration n/N. Because sky cover is
+ * reported around the clock, Rs/Rso for the longwave term is available at night as well.
+ * @param point - One hour of weather in metric units
+ * @param site - Latitude, longitude and elevation of the site
+ * @param timeZone - IANA time zone used to assign the hour to a calendar day
+ * @returns ET₀ and intermediate terms for the hour, or null when humidity is missing
+ */
+export function calculateHourlyEt0(
+  point: HourlyWeatherPoint,
+  site: HourlyPenmanMonteithSite,
+  timeZone?: string,
+): HourlyEt0Result | null {
+  const ea = hourlyActualVaporPressure(point)
+  if (ea === null) return null
+
+  const temperature = point.temperature
+  const gamma = psychrometricConstant(atmosphericPressure(site.elevation))
+  const delta = slopeVaporPressureCurve(temperature)
+  const vaporPressureDeficit = Math.max(0, saturationVaporPressure(temperature) - ea)
+
+  const ra = hourlyExtraterrestrialRadiation(site.latitude, site.longitude, new Date(point.time))
+  const isDaytime = ra > 0
+  const clearFraction = 1 - Math.min(100, Math.max(0, point.skyCover)) / 100
+  const relativeShortwave = Math.min(
+    1,
+    (0.25 + 0.5 * clearFraction) / (0.75 + 2e-5 * site.elevation),
+  )
+  const rs = (0.25 + 0.5 * clearFraction) * ra
+
+  const rns = (1 - REFERENCE_ALBEDO) * rs
+  const rnl =
+    STEFAN_BOLTZMANN_HOURLY *
+    Math.pow(temperature + 273.16, 4) *
+    (0.34 - 0.14 * Math.sqrt(ea)) *
+    (1.35 * relativeShortwave - 0.35)
+  const rn = rns - rnl
+
+  // Hourly soil heat flux under grass (eqs. 45-46)
+  const g = isDaytime ? 0.1 * rn : 0.5 * rn
+  const cd = isDaytime ? CD_DAYTIME : CD_NIGHTTIME
+  const u2 = point.windSpeed
+
+  const et0 =
+    (0.408 * delta * (rn - g) +
+      gamma * (CN_HOURLY / (temperature + 273)) * u2 * vaporPressureDeficit) /
+    (delta + gamma * (1 + cd * u2))
+
+  return {
+    time: point.time,
+    date: calendarDate(point.time, timeZone),
+    isDaytime,
+    temperature,
+    actualVaporPressure: ea,
+    vaporPressureDeficit,
+    windSpeed: u2,
+    extraterrestrialRadiation: ra,
+    solarRadiation: rs,
+    netRadiation: rn,
+    soilHeatFlux: g,
+    et0,
+  }
+}
+
+/**
+ * Hourly ET₀ for a weather time series, summed per calendar day
+ * @param points - Hourly weather in metric units
+ * @param site - Latitude, longitude and elevation of the site
+ * @param timeZone - IANA time zone for the daily totals
+ * @returns Hourly results and their daily sums
+ */
+export function calculateHourlyEt0Series(
+  points: HourlyWeatherPoint[],
+  site: HourlyPenmanMonteithSite,
+  timeZone?: string,
+): HourlyEt0Series {
+  const hours = points
+    .map((point) => calculateHourlyEt0(point, site, timeZone))
+    .filter((hour): hour is HourlyEt0Result => hour !== null)
+
+  const totals = new Map<string, DailyEt0Total>()
+  for (const hour of hours) {
+    const total = totals.get(hour.date) ?? { date: hour.date, et0: 0, hours: 0 }
+    total.et0 += hour.et0
+    total.hours += 1
+    totals.set(hour.date, total)
+  }
+
+  return {
+    hours,
+    dailyTotals: Array.from(totals.values()).map((total) => ({
+      ...total,
+      et0: Math.max(0, total.et0),
+    })),
+  }
+}
@@ -0,0 +1,124 @@
+import type {
+  IrrigationRecommendation,
+  IrrigationStatus,
+  IrrigationStrategy,
+  IrrigationSystem,
+} from '@/types/irrigation'
+import type { WaterBalanceDay, WaterBalanceResult } from '@/types/soilWater'
+
+/**
+ * Average application rate over the irrigated area
+ * @returns mm/h for drip (emitter flow over emitter × lateral spacing) and sprinklers,
+ * undefined for pivots, which are scheduled by revolution
+ */
+export function applicationRate(system: IrrigationSystem): number | undefined {
+  switch (system.type) {
+    case 'drip':
+      // L/h over m² is mm/h
+      return system.emitterFlow / (system.emitterSpacing * system.lateralSpacing)
+    case 'sprinkler':
+      return system.sprinklerRate
+    case 'pivot':
+      return undefined
+  }
+}
+
+/**
+ * Gross application depth needed to infiltrate a net depth
+ * @param netDepth - Net depth in mm
+ * @param efficiency - Application efficiency, 0-1
+ */
+export function grossDepth(netDepth: number, efficiency: number): number {
+  return netDepth / Math.min(1, Math.max(0.05, efficiency))
+}
+
+/**
+ * Run time for a gross depth
+ * @returns Hours, plus the pivot speed in % of full speed for a single revolution
+ */
+export function runTime(
+  gross: number,
+  system: IrrigationSystem,
+): { hours: number; pivotSpeed?: number } {
+  if (system.type === 'pivot') {
+    // Depth is inversely proportional to speed; a pivot can't apply less than its full-speed depth
+    const pivotSpeed = Math.min(100, (100 * system.pivotDepth) / Math.max(gross, 1e-6))
+    return { hours: (system.pivotRevolutionHours * 100) / pivotSpeed, pivotSpeed }
+  }
+
+  const rate = applicationRate(system)
+  return { hours: rate && rate > 0 ? gross / rate : 0 }
+}
+
+/**
+ * Next irrigation from a root-zone water balance: irrigate on the first day whose depletion
+ * would exceed RAW, applying either the depletion of that day or a fixed depth
+ *
+ * A day is skipped when effective rain on the following day brings the root zone back within
+ * RAW, accepting one day of mild stress rather than irrigating just before a storm.
+ * @param balance - Daily water balance over the planning horizon
+ * @param strategy - Refill to field capacity or apply a fixed net depth
+ * @param system - Irrigation system for efficiency and run time
+ */
+export function recommendIrrigation(
+  balance: WaterBalanceResult,
+  strategy: IrrigationStrategy,
+  system: IrrigationSystem,
+): IrrigationRecommendation {
+  const warnings: string[] = []
+  const exceedsRaw = (day: WaterBalanceDay) => day.depletion > day.readilyAvailableWater
+  let index = balance.days.findIndex(exceedsRaw)
+  let deferredForRain: string | undefined
+
+  while (index >= 0) {
+    const next = balance.days[index + 1]
+    if (!next || next.precipitation - next.runoff <= 0 || exceedsRaw(next)) break
+
+    deferredForRain = next.date
+    const later = balance.days.slice(index + 2).findIndex(exceedsRaw)
+    index = later >= 0 ? index + 2 + later : -1
+  }
+  const day = index >= 0 ? balance.days[index] : balance.days[balance.days.length - 1]
+  const depletion = day?.depletion ?? 0
+
+  const netDepth = strategy.type === 'refill' ? depletion : strategy.depth
+  if (strategy.type === 'fixed' && day) {
+    if (strategy.depth > depletion) {
+      warnings.push(
+        `Fixed depth exceeds the depletion of ${depletion.toFixed(1)} mm; the excess percolates below the root zone`,
+      )
+    } else if (depletion - strategy.depth > day.readilyAvailableWater) {
+      warnings.push('Fixed depth leaves the root zone beyond RAW; the crop stays stressed')
+    }
+  }
+
+  const gross = grossDepth(netDepth, system.efficiency)
+  const { hours, pivotSpeed } = runTime(gross, system)
+  if (system.type === 'pivot' && pivotSpeed === 100 && gross < system.pivotDepth) {
+    warnings.push(
+      `The pivot applies at least ${system.pivotDepth.toFixed(1)} mm per revolution at full speed`,
+    )
+  }
+
+  return {
+    date: index >= 0 ? balance.days[index].date : null,
+    daysFromStart: index >= 0 ? index : null,
+    depletion,
+    netDepth,
+    grossDepth: gross,
+    applicationRate: applicationRate(system),
+    runTime: hours,
+    pivotSpeed,
+    deferredForRain,
+    warnings,
+  }
+}
+
+/**
+ * Urgency of a recommendation: irrigate today, within the next three days, or not yet
+ */
+export function irrigationStatus(recommendation: IrrigationRecommendation): IrrigationStatus {
+  if (recommendation.daysFromStart === null) return 'ok'
+  if (recommendation.daysFromStart === 0) return 'irrigate-today'
+  return recommendation.daysFromStart <= 3 ? 'within-3-days' : 'ok'
+}
@@ -0,0 +1,75 @@
+import type { AridityClass, HargreavesLocation } from '@/types/penmanMonteith'
+import { saturationVaporPressure } from './penmanMonteith'
+import { extraterrestrialRadiation, solarRadiationFromTemperature } from './radiation'
+
+// FAO-56 chapter 3 procedures for missing climatic data
+
+// Global average u₂ over 2000 weather stations, for when no wind data is available
+export const DEFAULT_WIND_SPEED = 2 // m/s
+
+// Tmin stays above the dewpoint where the night air doesn't saturate (FAO-56 Annex 6)
+const DEWPOINT_BELOW_TMIN: Record<AridityClass, number> = {
+  humid: 0,
+  'semi-arid': 2,
+  arid: 3,
+}
+
+/**
+ * Dewpoint estimated from the daily minimum temperature, Tdew ≈ Tmin less an aridity correction
+ * @param minTemperature - Tmin in °C
+ * @param aridity - Climate of the location
+ * @returns Tdew in °C
+ */
+export function estimateDewpoint(minTemperature: number, aridity: AridityClass = 'humid'): number {
+  return minTemperature - DEWPOINT_BELOW_TMIN[aridity]
+}
+
+/**
+ * Humidity of a day without humidity data: ea = e°(Tdew) with Tdew estimated from Tmin
+ * (FAO-56 eq. 48), and the mean relative humidity that gives the same ea with eq. 19
+ * @returns Tdew in °C, ea in kPa and RHmean in %
+ */
+export function estimateHumidity(
+  maxTemperature: number,
+  minTemperature: number,
+  aridity: AridityClass = 'humid',
+): { dewpoint: number; actualVaporPressure: number; relativeHumidity: number } {
+  const dewpoint = estimateDewpoint(minTemperature, aridity)
+  const actualVaporPressure = saturationVaporPressure(dewpoint)
+  const meanSaturation =
+    (saturationVaporPressure(maxTemperature) + saturationVaporPressure(minTemperature)) / 2
+
+  return {
+    dewpoint,
+    actualVaporPressure,
+    relativeHumidity: Math.min(100, (100 * actualVaporPressure) / meanSaturation),
+  }
+}
+
+/**
+ * Solar radiation of a day without radiation data from its temperature range (FAO-56 eq. 50)
+ * @param latitude - Latitude in decimal degrees
+ * @param dayOfYear - Day of the year (1-366)
+ * @param maxTemperature - Tmax in °C
+ * @param minTemperature - Tmin in °C
+ * @param location - 'interior' or 'coastal' for the KRs adjustment coefficient
+ * @returns Rs in MJ/m²/day
+ */
+export function estimateSolarRadiation(
+  latitude: number,
+  dayOfYear: number,
+  maxTemperature: number,
+  minTemperature: number,
+  location: HargreavesLocation = 'interior',
+): number {
+  const ra = extraterrestrialRadiation(latitude, dayOfYear)
+  return solarRadiationFromTemperature(ra, maxTemperature, minTemperature, location)
+}
+
+/**
+ * Human-readable description of the humidity estimate, for provenance notes
+ */
+export function humidityEstimateLabel(aridity: AridityClass = 'humid'): string {
+  const offset = DEWPOINT_BELOW_TMIN[aridity]
+  return offset > 0 ? `Tdew ≈ Tmin − ${offset} °C (${aridity})` : 'Tdew ≈ Tmin'
+}
@@ -0,0 +1,126 @@
+import type { PenmanMonteithInputs, PenmanMonteithResult } from '@/types/penmanMonteith'
+import { calculateNetRadiation } from './radiation'
+
+// FAO-56 constants
+const REFERENCE_SURFACE_RESISTANCE = 70 // s/m
+
+/**
+ * Atmospheric pressure from elevation (FAO-56 eq. 7)
+ * @param elevation - Elevation above sea level in m
+ * @returns Pressure in kPa
+ */
+export function atmosphericPressure(elevation: number): number {
+  return 101.3 * Math.pow((293 - 0.0065 * elevation) / 293, 5.26)
+}
+
+/**
+ * Psychrometric constant (FAO-56 eq. 8)
+ * @param pressure - Atmospheric pressure in kPa
+ * @returns γ in kPa/°C
+ */
+export function psychrometricConstant(pressure: number): number {
+  return 0.000665 * pressure
+}
+
+/**
+ * Saturation vapour pressure at a given air temperature (FAO-56 eq. 11)
+ * @param temperature - Air temperature in °C
+ * @returns e°(T) in kPa
+ */
+export function saturationVaporPressure(temperature: number): number {
+  return 0.6108 * Math.exp((17.27 * temperature) / (temperature + 237.3))
+}
+
+/**
+ * Slope of the saturation vapour pressure curve (FAO-56 eq. 13)
+ * @param temperature - Mean air temperature in °C
+ * @returns Δ in kPa/°C
+ */
+export function slopeVaporPressureCurve(temperature: number): number {
+  return (4098 * saturationVaporPressure(temperature)) / Math.pow(temperature + 237.3, 2)
+}
+
+/**
+ * Wind speed at the 2 m standard height from a measurement at another height, with the
+ * logarithmic wind profile over short grass (FAO-56 eq. 47)
+ * @param windSpeed - uz in m/s
+ * @param height - Height of measurement above the ground surface in m
+ * @returns u₂ in m/s
+ */
+export function windSpeedAt2m(windSpeed: number, height: number): number {
+  if (height === 2) return windSpeed
+  return (windSpeed * 4.87) / Math.log(67.8 * height - 5.42)
+}
+
+/**
+ * Actual vapour pressure in FAO-56's order of preference: dewpoint (eq. 14),
+ * RHmax and RHmin (eq. 17), then RHmean (eq. 19)
+ */
+function actualVaporPressure(inputs: PenmanMonteithInputs, esMax: number, esMin: number): number {
+  if (inputs.dewpoint !== undefined) {
+    return saturationVaporPressure(inputs.dewpoint)
+  }
+  if (inputs.maxRelativeHumidity !== undefined && inputs.minRelativeHumidity !== undefined) {
+    return (esMin * inputs.maxRelativeHumidity + esMax * inputs.minRelativeHumidity) / 200
+  }
+  return (inputs.relativeHumidity / 100) * ((esMax + esMin) / 2)
+}
+
+/**
+ * Daily reference evapotranspiration with the FAO-56 Penman-Monteith equation (eq. 6)
+ * @param inputs - Daily meteorological and site data in metric units
+ * @returns ET₀ in mm/day together with the intermediate terms of the equation
+ */
+export function calculateEt0(inputs: PenmanMonteithInputs): PenmanMonteithResult {
+  const meanTemperature = (inputs.maxTemperature + inputs.minTemperature) / 2
+  const pressure = atmosphericPressure(inputs.elevation)
+  const gamma = psychrometricConstant(pressure)
+  const delta = slopeVaporPressureCurve(meanTemperature)
+
+  // Mean saturation vapour pressure (eq. 12)
+  const esMax = saturationVaporPressure(inputs.maxTemperature)
+  const esMin = saturationVaporPressure(inputs.minTemperature)
+  const es = (esMax + esMin) / 2
+  const ea = actualVaporPressure(inputs, esMax, esMin)
+  const vaporPressureDeficit = Math.max(0, es - ea)
+
+  const radiation = calculateNetRadiation({
+    latitude: inputs.latitude,
+    dayOfYear: inputs.dayOfYear,
+    elevation: inputs.elevation,
+    maxTemperature: inputs.maxTemperature,
+    minTemperature: inputs.minTemperature,
+    actualVaporPressure: ea,
+    solarRadiationMethod: inputs.solarRadiationMethod ?? 'measured',
+    solarRadiation: inputs.solarRadiation,
+    sunshineHours: inputs.sunshineHours,
+    hargreavesLocation: inputs.hargreavesLocation,
+    albedo: inputs.albedo,
+  })
+  const rn = radiation.netRadiation
+  // Soil heat flux beneath the grass reference surface is negligible for daily steps (eq. 42)
+  const soilHeatFlux = 0
+  const u2 = inputs.windSpeed
+
+  const numerator =
+    0.408 * delta * (rn - soilHeatFlux) +
+    gamma * (900 / (meanTemperature + 273)) * u2 * vaporPressureDeficit
+  const denominator = delta + gamma * (1 + 0.34 * u2)
+
+  return {
+    et0: Math.max(0, numerator / denominator),
+    meanTemperature,
+    atmosphericPressure: pressure,
+    saturationVaporPressure: es,
+    actualVaporPressure: ea,
+    vaporPressureDeficit,
+    slopeVaporPressure: delta,
+    psychrometricConstant: gamma,
+    netRadiation: rn,
+    radiation,
+    soilHeatFlux,
+    // ra = 208/u2 for the 0.12 m grass reference (eq. 4); u2 below 0.5 m/s is not meaningful
+    aerodynamicResistance: 208 / Math.max(u2, 0.5),
+    surfaceResistance: REFERENCE_SURFACE_RESISTANCE,
+  }
+}
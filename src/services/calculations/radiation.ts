@@ -0,0 +1,303 @@
+import type { HargreavesLocation, RadiationInputs, RadiationResult } from '@/types/penmanMonteith'
+
+// FAO-56 constants
+const SOLAR_CONSTANT = 0.082 // MJ/m²/min
+const STEFAN_BOLTZMANN = 4.903e-9 // MJ/K⁴/m²/day
+const REFERENCE_ALBEDO = 0.23 // Hypothetical grass reference crop
+
+// Angstrom regression constants recommended when no calibration is available (eq. 35)
+const ANGSTROM_A = 0.25
+const ANGSTROM_B = 0.5
+
+// Hargreaves' adjustment coefficient KRs in °C^-0.5 (eq. 50)
+export const HARGREAVES_KRS: Record<HargreavesLocation, number> = {
+  interior: 0.16, // Interior locations where land mass dominates
+  coastal: 0.19, // Coastal locations where air masses are influenced by a nearby water body
+}
+
+/**
+ * Convert decimal degrees to radians (FAO-56 eq. 22)
+ */
+export function degreesToRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180
+}
+
+/**
+ * Day of the year J of a calendar date
+ * @param date - Calendar date as YYYY-MM-DD
+ * @returns J between 1 (1 January) and 365 or 366 (31 December)
+ */
+export function dayOfYear(date: string): number {
+  const [year, month, day] = date.split('-').map(Number)
+  return Math.round((Date.UTC(year, month - 1, day) - Date.UTC(year, 0, 0)) / (24 * 3600 * 1000))
+}
+
+/**
+ * Inverse relative distance Earth-Sun (FAO-56 eq. 23)
+ * @param dayOfYear - Day of the year J (1-366)
+ * @returns dr, dimensionless
+ */
+export function inverseRelativeDistance(dayOfYear: number): number {
+  return 1 + 0.033 * Math.cos((2 * Math.PI * dayOfYear) / 365)
+}
+
+/**
+ * Solar declination (FAO-56 eq. 24)
+ * @param dayOfYear - Day of the year J (1-366)
+ * @returns δ in rad
+ */
+export function solarDeclination(dayOfYear: number): number {
+  return 0.409 * Math.sin((2 * Math.PI * dayOfYear) / 365 - 1.39)
+}
+
+/**
+ * Sunset hour angle (FAO-56 eq. 25)
+ * @param latitudeRad - Latitude φ in rad
+ * @param declination - Solar declination δ in rad
+ * @returns ωs in rad
+ */
+export function sunsetHourAngle(latitudeRad: number, declination: number): number {
+  // Clamp for polar day/night where |tan φ tan δ| > 1
+  const x = -Math.tan(latitudeRad) * Math.tan(declination)
+  return Math.acos(Math.min(1, Math.max(-1, x)))
+}
+
+/**
+ * Extraterrestrial radiation for daily periods (FAO-56 eq. 21)
+ * @param latitude - Latitude in decimal degrees
+ * @param dayOfYear - Day of the year J (1-366)
+ * @returns Ra in MJ/m²/day
+ */
+export function extraterrestrialRadiation(latitude: number, dayOfYear: number): number {
+  const phi = degreesToRadians(latitude)
+  const dr = inverseRelativeDistance(dayOfYear)
+  const delta = solarDeclination(dayOfYear)
+  const omegaS = sunsetHourAngle(phi, delta)
+
+  return (
+    ((24 * 60) / Math.PI) *
+    SOLAR_CONSTANT *
+    dr *
+    (omegaS * Math.sin(phi) * Math.sin(delta) + Math.cos(phi) * Math.cos(delta) * Math.sin(omegaS))
+  )
+}
+
+/**
+ * Maximum possible duration of sunshine, i.e. daylight hours (FAO-56 eq. 34)
+ * @param sunsetHourAngleRad - ωs in rad
+ * @returns N in hours
+ */
+export function daylightHours(sunsetHourAngleRad: number): number {
+  return (24 / Math.PI) * sunsetHourAngleRad
+}
+
+/**
+ * Clear-sky solar radiation from station elevation (FAO-56 eq. 37)
+ * @param extraterrestrial - Ra in MJ/m²/day
+ * @param elevation - Station elevation in m
+ * @returns Rso in MJ/m²/day
+ */
+export function clearSkyRadiation(extraterrestrial: number, elevation: number): number {
+  return (0.75 + 2e-5 * elevation) * extraterrestrial
+}
+
+/**
+ * Solar radiation from measured sunshine duration with the Angstrom formula (FAO-56 eq. 35)
+ * @param extraterrestrial - Ra in MJ/m²/day
+ * @param sunshineHours - Actual duration of sunshine n in hours
+ * @param maxDaylightHours - Maximum possible duration of sunshine N in hours
+ * @returns Rs in MJ/m²/day
+ */
+export function solarRadiationFromSunshine(
+  extraterrestrial: number,
+  sunshineHours: number,
+  maxDaylightHours: number,
+): number {
+  const relativeSunshine =
+    maxDaylightHours > 0 ? Math.min(1, Math.max(0, sunshineHours / maxDaylightHours)) : 0
+  return (ANGSTROM_A + ANGSTROM_B * relativeSunshine) * extraterrestrial
+}
+
+/**
+ * Solar radiation from air temperature differences with Hargreaves' formula (FAO-56 eq. 50)
+ * @param extraterrestrial - Ra in MJ/m²/day
+ * @param maxTemperature - Tmax in °C
+ * @param minTemperature - Tmin in °C
+ * @param location - 'interior' (KRs 0.16) or 'coastal' (KRs 0.19)
+ * @returns Rs in MJ/m²/day
+ */
+export function solarRadiationFromTemperature(
+  extraterrestrial: number,
+  maxTemperature: number,
+  minTemperature: number,
+  location: HargreavesLocation = 'interior',
+): number {
+  const range = Math.max(0, maxTemperature - minTemperature)
+  return HARGREAVES_KRS[location] * Math.sqrt(range) * extraterrestrial
+}
+
+/**
+ * Net solar or shortwave radiation (FAO-56 eq. 38)
+ * @param solarRadiation - Rs in MJ/m²/day
+ * @param albedo - Canopy reflection coefficient α
+ * @returns Rns in MJ/m²/day
+ */
+export function netShortwaveRadiation(
+  solarRadiation: number,
+  albedo: number = REFERENCE_ALBEDO,
+): number {
+  return (1 - albedo) * solarRadiation
+}
+
+/**
+ * Net outgoing longwave radiation (FAO-56 eq. 39)
+ * @param maxTemperature - Tmax in °C
+ * @param minTemperature - Tmin in °C
+ * @param actualVaporPressure - ea in kPa
+ * @param solarRadiation - Rs in MJ/m²/day
+ * @param clearSky - Rso in MJ/m²/day
+ * @returns Rnl in MJ/m²/day
+ */
+export function netLongwaveRadiation(
+  maxTemperature: number,
+  minTemperature: number,
+  actualVaporPressure: number,
+  solarRadiation: number,
+  clearSky: number,
+): number {
+  const tMaxK = maxTemperature + 273.16
+  const tMinK = minTemperature + 273.16
+  // Rs/Rso is limited to ≤ 1.0
+  const relativeShortwave = clearSky > 0 ? Math.min(1, solarRadiation / clearSky) : 1
+
+  return (
+    STEFAN_BOLTZMANN *
+    ((Math.pow(tMaxK, 4) + Math.pow(tMinK, 4)) / 2) *
+    (0.34 - 0.14 * Math.sqrt(Math.max(0, actualVaporPressure))) *
+    (1.35 * relativeShortwave - 0.35)
+  )
+}
+
+/**
+ * Daily net radiation and its components (FAO-56 eqs. 21-40)
+ * @param inputs - Site, date, temperature, humidity and the chosen solar radiation source
+ * @returns Every radiation term from dr through Rn
+ */
+export function calculateNetRadiation(inputs: RadiationInputs): RadiationResult {
+  const phi = degreesToRadians(inputs.latitude)
+  const dr = inverseRelativeDistance(inputs.dayOfYear)
+  const delta = solarDeclination(inputs.dayOfYear)
+  const omegaS = sunsetHourAngle(phi, delta)
+  const ra = extraterrestrialRadiation(inputs.latitude, inputs.dayOfYear)
+  const maxDaylight = daylightHours(omegaS)
+  const rso = clearSkyRadiation(ra, inputs.elevation)
+
+  let rs: number
+  switch (inputs.solarRadiationMethod) {
+    case 'sunshine':
+      rs = solarRadiationFromSunshine(ra, inputs.sunshineHours ?? 0, maxDaylight)
+      break
+    case 'temperature':
+      rs = solarRadiationFromTemperature(
+        ra,
+        inputs.maxTemperature,
+        inputs.minTemperature,
+        inputs.hargreavesLocation,
+      )
+      break
+    default:
+      rs = inputs.solarRadiation ?? 0
+  }
+
+  const rns = netShortwaveRadiation(rs, inputs.albedo)
+  const rnl = netLongwaveRadiation(
+    inputs.maxTemperature,
+    inputs.minTemperature,
+    inputs.actualVaporPressure,
+    rs,
+    rso,
+  )
+
+  return {
+    inverseRelativeDistance: dr,
+    solarDeclination: delta,
+    sunsetHourAngle: omegaS,
+    extraterrestrialRadiation: ra,
+    maxDaylightHours: maxDaylight,
+    clearSkyRadiation: rso,
+    solarRadiation: rs,
+    netShortwaveRadiation: rns,
+    netLongwaveRadiation: rnl,
+    netRadiation: rns - rnl,
+  }
+}
+
+/**
+ * Seasonal correction for solar time (FAO-56 eqs. 32-33)
+ * @param dayOfYear - Day of the year J (1-366)
+ * @returns Sc in hours
+ */
+export function seasonalCorrection(dayOfYear: number): number {
+  const b = (2 * Math.PI * (dayOfYear - 81)) / 364
+  return 0.1645 * Math.sin(2 * b) - 0.1255 * Math.cos(b) - 0.025 * Math.sin(b)
+}
+
+/**
+ * Solar time angle at the midpoint of a period (FAO-56 eq. 31)
+ *
+ * Written against UTC so that Lz = 0 and the site longitude can be used directly.
+ * @param utcHours - Midpoint of the period in decimal hours UTC
+ * @param longitude - Site longitude in decimal degrees (+ for East, - for West)
+ * @param dayOfYear - Day of the year J (1-366)
+ * @returns ω in rad
+ */
+export function solarTimeAngle(utcHours: number, longitude: number, dayOfYear: number): number {
+  return (Math.PI / 12) * (utcHours + longitude / 15 + seasonalCorrection(dayOfYear) - 12)
+}
+
+/**
+ * Extraterrestrial radiation for hourly or shorter periods (FAO-56 eqs. 28-30)
+ * @param latitude - Latitude in decimal degrees
+ * @param longitude - Longitude in decimal degrees (+ for East, - for West)
+ * @param periodStart - Start of the period
+ * @param periodHours - Length of the period in hours (t1)
+ * @returns Ra in MJ/m²/period, zero when the sun is below the horizon
+ */
+export function hourlyExtraterrestrialRadiation(
+  latitude: number,
+  longitude: number,
+  periodStart: Date,
+  periodHours: number = 1,
+): number {
+  const midpoint = new Date(periodStart.getTime() + (periodHours / 2) * 3600 * 1000)
+  const dayOfYear = utcDayOfYear(midpoint)
+  const utcHours = midpoint.getUTCHours() + midpoint.getUTCMinutes() / 60
+
+  const phi = degreesToRadians(latitude)
+  const dr = inverseRelativeDistance(dayOfYear)
+  const delta = solarDeclination(dayOfYear)
+  const omegaS = sunsetHourAngle(phi, delta)
+  const omega = solarTimeAngle(utcHours, longitude, dayOfYear)
+
+  // Wrap ω into [-π, π] and limit the integration interval to daylight
+  const wrapped = Math.atan2(Math.sin(omega), Math.cos(omega))
+  const omega1 = Math.max(-omegaS, wrapped - (Math.PI * periodHours) / 24)
+  const omega2 = Math.min(omegaS, wrapped + (Math.PI * periodHours) / 24)
+  if (omega1 >= omega2) return 0
+
+  return (
+    ((12 * 60) / Math.PI) *
+    SOLAR_CONSTANT *
+    dr *
+    ((omega2 - omega1) * Math.sin(phi) * Math.sin(delta) +
+      Math.cos(phi) * Math.cos(delta) * (Math.sin(omega2) - Math.sin(omega1)))
+  )
+}
+
+/**
+ * Day of the year of a timestamp, counted in UTC
+ */
+function utcDayOfYear(date: Date): number {
+  const start = Date.UTC(date.getUTCFullYear(), 0, 0)
+  return Math.floor((date.getTime() - start) / (24 * 3600 * 1000))
+}
@@ -0,0 +1,106 @@
+import type {
+  SoilWaterParameters,
+  WaterBalanceDay,
+  WaterBalanceInput,
+  WaterBalanceResult,
+} from '@/types/soilWater'
+
+/**
+ * Total available soil water in the root zone (FAO-56 eq. 82)
+ * @param fieldCapacity - θFC in m³/m³
+ * @param wiltingPoint - θWP in m³/m³
+ * @param rootDepth - Rooting depth Zr in m
+ * @returns TAW in mm
+ */
+export function totalAvailableWater(
+  fieldCapacity: number,
+  wiltingPoint: number,
+  rootDepth: number,
+): number {
+  return Math.max(0, 1000 * (fieldCapacity - wiltingPoint) * rootDepth)
+}
+
+/**
+ * Depletion fraction adjusted for the evaporative demand (FAO-56 Table 22 footnote)
+ * @param depletionFraction - Tabulated p for ETc ≈ 5 mm/day
+ * @param etc - Crop evapotranspiration in mm/day
+ * @returns p limited to 0.1-0.8
+ */
+export function adjustDepletionFraction(depletionFraction: number, etc: number): number {
+  return Math.min(0.8, Math.max(0.1, depletionFraction + 0.04 * (5 - etc)))
+}
+
+/**
+ * Water stress coefficient from root-zone depletion (FAO-56 eq. 84)
+ * @param depletion - Root-zone depletion Dr in mm
+ * @param taw - Total available water in mm
+ * @param raw - Readily available water in mm
+ * @returns Ks, 1 while Dr ≤ RAW and falling linearly to 0 at TAW
+ */
+export function waterStressCoefficient(depletion: number, taw: number, raw: number): number {
+  if (depletion <= raw) return 1
+  if (taw <= raw) return 0
+  return Math.max(0, (taw - depletion) / (taw - raw))
+}
+
+/**
+ * Daily root-zone water balance (FAO-56 eqs. 85-88)
+ *
+ * Capillary rise is neglected, as FAO-56 recommends when the water table is more than about
+ * 1 m below the root zone. Ks for a day comes from the depletion at the start of that day.
+ * @param inputs - Consecutive days of ETc, precipitation, irrigation and runoff
+ * @param parameters - Soil water characteristics, rooting depth and depletion fraction
+ * @returns Depletion series with Ks and the number of days until RAW is reached
+ */
+export function runSoilWaterBalance(
+  inputs: WaterBalanceInput[],
+  parameters: SoilWaterParameters,
+): WaterBalanceResult {
+  const taw = totalAvailableWater(
+    parameters.fieldCapacity,
+    parameters.wiltingPoint,
+    parameters.rootDepth,
+  )
+  let depletion = Math.min(taw, Math.max(0, parameters.initialDepletion ?? 0))
+  let daysUntilRaw: number | null = null
+
+  const days = inputs.map((input, index): WaterBalanceDay => {
+    const precipitation = input.precipitation ?? 0
+    const irrigation = input.irrigation ?? 0
+    const runoff = Math.min(precipitation, input.runoff ?? 0)
+
+    const p = adjustDepletionFraction(parameters.depletionFraction, input.etc)
+    const raw = p * taw // eq. 83
+    if (daysUntilRaw === null && depletion >= raw) daysUntilRaw = index
+
+    const ks = waterStressCoefficient(depletion, taw, raw)
+    const etcAdjusted = ks * input.etc + (input.soilEvaporation ?? 0)
+
+    // Water beyond field capacity drains below the root zone (eq. 88)
+    const balance = depletion - (precipitation - runoff) - irrigation + etcAdjusted
+    const deepPercolation = Math.max(0, -balance)
+    depletion = Math.min(taw, Math.max(0, balance))
+
+    return {
+      date: input.date,
+      etc: input.etc,
+      etcAdjusted,
+      ks,
+      precipitation,
+      irrigation,
+      runoff,
+      deepPercolation,
+      depletion,
+      depletionFraction: p,
+      readilyAvailableWater: raw,
+    }
+  })
+
+  // RAW reached at the end of the last day
+  const last = days[days.length - 1]
+  if (daysUntilRaw === null && last && last.depletion >= last.readilyAvailableWater) {
+    daysUntilRaw = days.length
+  }
+
+  return { totalAvailableWater: taw, days, daysUntilRaw }
+}
@@ -0,0 +1,78 @@
+// Comma-separated values as spreadsheets read and write them (RFC 4180): fields with commas,
+// quotes or line breaks are quoted, and quotes inside them doubled
+
+export type CsvValue = string | number | boolean | null | undefined
+
+function formatField(value: CsvValue): string {
+  if (value === null || value === undefined) return ''
+  const text = String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * CSV text of rows of values, one line per row; null and undefined become empty fields
+ */
+export function formatCsv(rows: CsvValue[][]): string {
+  return rows.map((row) => row.map(formatField).join(',') + '\n').join('')
+}
+
+/**
+ * Rows of fields from CSV text, skipping blank lines
+ * @param delimiter - Field separator, e.g. a tab for tab-separated text
+ * @throws Error when a quoted field is not closed
+ */
+export function parseCsv(text: string, delimiter: string = ','): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0 // byte order mark from spreadsheet exports
+
+  const endRow = () => {
+    row.push(field)
+    if (row.length > 1 || row[0].trim() !== '') rows.push(row)
+    row = []
+    field = ''
+  }
+
+  for (; i < text.length; i++) {
+    const char = text[i]
+    if (quoted) {
+      if (char !== '"') field += char
+      else if (text[i + 1] === '"') field += text[++i]
+      else quoted = false
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === delimiter) {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      endRow()
+    } else {
+      field += char
+    }
+  }
+  if (quoted) throw new Error('CSV has a quoted field that is not closed')
+  endRow()
+
+  return rows
+}
+
+/**
+ * Records keyed by the header row, with header names trimmed and lowercased and values trimmed
+ * @returns The header row and one record per following row
+ */
+export function parseCsvRecords(text: string): {
+  header: string[]
+  records: Array<Record<string, string>>
+} {
+  const [header = [], ...rows] = parseCsv(text)
+  const names = header.map((name) => name.trim().toLowerCase())
+  return {
+    header: names,
+    records: rows.map((row) =>
+      Object.fromEntries(names.map((name, i) => [name, (row[i] ?? '').trim()])),
+    ),
+  }
+}
@@ -0,0 +1,92 @@
+import type {
+  HargreavesLocation,
+  PenmanMonteithInputs,
+  PenmanMonteithResult,
+} from '@/types/penmanMonteith'
+import type { ProcessedWeatherData, WeatherDataMode, WeatherQuality } from '@/types/weather'
+import { calculateEt0 } from '@/services/calculations/penmanMonteith'
+import { calendarDate } from '@/services/calculations/hourlyPenmanMonteith'
+import { dayOfYear } from '@/services/calculations/radiation'
+
+// ET₀ of one day with the inputs it was calculated from and their provenance, as the HTTP API
+// and the command line report it
+export interface Et0Report {
+  date: string // YYYY-MM-DD
+  et0: number // mm/day
+  mode: WeatherDataMode | 'supplied' // 'supplied' for weather sent to the API
+  inputs: PenmanMonteithInputs
+  result: PenmanMonteithResult
+  station?: ProcessedWeatherData['station']
+  quality?: WeatherQuality
+  sourceData?: ProcessedWeatherData['sourceData']
+}
+
+/**
+ * Calendar day of provider weather, in the station's time zone
+ */
+export function weatherDate(data: ProcessedWeatherData): string {
+  return data.date || calendarDate(data.timestamp, data.station.timeZone)
+}
+
+/**
+ * Penman-Monteith inputs for a day of provider weather, with the calculator's defaults: Rs from
+ * the provider or Hargreaves, and the measured dewpoint and RHmax/RHmin of station data
+ * @param data - Daily weather from the weather service
+ * @param hargreavesLocation - KRs location when Rs is estimated from temperature
+ */
+export function et0InputsFrom(
+  data: ProcessedWeatherData,
+  hargreavesLocation: HargreavesLocation = 'interior',
+): PenmanMonteithInputs {
+  const observed =
+    data.mode === 'observed' || data.mode === 'imported'
+      ? {
+          maxRelativeHumidity: data.maxRelativeHumidity,
+          minRelativeHumidity: data.minRelativeHumidity,
+          dewpoint: data.dewpoint,
+        }
+      : {}
+
+  return {
+    maxTemperature: data.maxTemperature,
+    minTemperature: data.minTemperature,
+    relativeHumidity: data.relativeHumidity,
+    ...observed,
+    windSpeed: data.windSpeed,
+    elevation: data.station.elevation,
+    latitude: data.station.latitude,
+    dayOfYear: dayOfYear(weatherDate(data)),
+    solarRadiationMethod: data.solarRadiation !== undefined ? 'measured' : 'temperature',
+    solarRadiation: data.solarRadiation,
+    hargreavesLocation,
+  }
+}
+
+/**
+ * ET₀ of a day of provider weather with the inputs it was calculated from
+ */
+export function dailyEt0(
+  data: ProcessedWeatherData,
+  hargreavesLocation?: HargreavesLocation,
+): { date: string; inputs: PenmanMonteithInputs; result: PenmanMonteithResult } {
+  const inputs = et0InputsFrom(data, hargreavesLocation)
+  return { date: weatherDate(data), inputs, result: calculateEt0(inputs) }
+}
+
+/**
+ * ET₀ report of a day of weather with its station, quality flags and sources
+ * @param mode - Where the weather came from, the data's own mode when omitted
+ */
+export function et0Report(data: ProcessedWeatherData, mode?: Et0Report['mode']): Et0Report {
+  const { date, inputs, result } = dailyEt0(data)
+  return {
+    date,
+    et0: result.et0,
+    mode: mode ?? data.mode ?? 'forecast',
+    inputs,
+    result,
+    station: data.station,
+    quality: data.quality,
+    sourceData: data.sourceData,
+  }
+}
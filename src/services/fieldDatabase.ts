@@ -0,0 +1,98 @@
+import type { Field } from '@/types/field'
+import type { StationDataset } from '@/types/stationData'
+
+const DB_NAME = 'pme'
+const DB_VERSION = 2
+const FIELD_STORE = 'fields'
+const STATION_DATA_STORE = 'stationData' // imported on-farm station data, one record per field
+
+let database: Promise<IDBDatabase> | null = null
+
+function openDatabase(): Promise<IDBDatabase> {
+  database ??= new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this browser'))
+      return
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+      const db = request.result
+      if (!db.objectStoreNames.contains(FIELD_STORE)) {
+        db.createObjectStore(FIELD_STORE, { keyPath: 'id' }).createIndex('farm', 'farm')
+      }
+      if (!db.objectStoreNames.contains(STATION_DATA_STORE)) {
+        db.createObjectStore(STATION_DATA_STORE, { keyPath: 'fieldId' })
+      }
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error ?? new Error('Failed to open the field database'))
+  })
+  return database
+}
+
+// Run one request against an object store and resolve once its transaction has committed
+async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  const db = await openDatabase()
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode)
+    const request = operation(transaction.objectStore(storeName))
+    transaction.oncomplete = () => resolve(request.result)
+    transaction.onerror = () => reject(transaction.error ?? new Error('Field database error'))
+    transaction.onabort = () => reject(transaction.error ?? new Error('Field database error'))
+  })
+}
+
+/**
+ * All saved fields
+ */
+export function getAllFields(): Promise<Field[]> {
+  return withStore(FIELD_STORE, 'readonly', (store) => store.getAll() as IDBRequest<Field[]>)
+}
+
+/**
+ * Insert or replace a field
+ */
+export async function putField(field: Field): Promise<void> {
+  // Reactive proxies can't be cloned into IndexedDB
+  const record: Field = JSON.parse(JSON.stringify(field))
+  await withStore(FIELD_STORE, 'readwrite', (store) => store.put(record))
+}
+
+/**
+ * Delete a field by id
+ */
+export async function deleteFieldRecord(id: string): Promise<void> {
+  await withStore(FIELD_STORE, 'readwrite', (store) => store.delete(id))
+}
+
+/**
+ * Imported station data of a field, undefined when it has none
+ */
+export function getStationData(fieldId: string): Promise<StationDataset | undefined> {
+  return withStore(
+    STATION_DATA_STORE,
+    'readonly',
+    (store) => store.get(fieldId) as IDBRequest<StationDataset | undefined>,
+  )
+}
+
+/**
+ * Insert or replace the imported station data of a field
+ */
+export async function putStationData(dataset: StationDataset): Promise<void> {
+  const record: StationDataset = JSON.parse(JSON.stringify(dataset))
+  await withStore(STATION_DATA_STORE, 'readwrite', (store) => store.put(record))
+}
+
+/**
+ * Delete the imported station data of a field
+ */
+export async function deleteStationData(fieldId: string): Promise<void> {
+  await withStore(STATION_DATA_STORE, 'readwrite', (store) => store.delete(fieldId))
+}
@@ -0,0 +1,102 @@
+import type { Field, FieldStatus } from '@/types/field'
+import type { ProcessedWeatherData } from '@/types/weather'
+import { dailyEt0, weatherDate } from '@/services/dailyEt0'
+import {
+  cropCoefficientOn,
+  daysBetween,
+  estimateMinRelativeHumidity,
+} from '@/services/calculations/cropCoefficient'
+import { effectiveRainfall } from '@/services/calculations/effectiveRainfall'
+import { runSoilWaterBalance } from '@/services/calculations/soilWaterBalance'
+import { irrigationStatus, recommendIrrigation } from '@/services/calculations/irrigationScheduling'
+import { findCrop } from '@/data/crops'
+
+/**
+ * Today's ET₀ and ETc of a field and when to irrigate it, with the calculator's defaults:
+ * Rs from the forecast or Hargreaves, Kc from the crop curve (1 without a crop), USDA-SCS
+ * effective rainfall and a refill strategy. The water balance runs from the depletion at the
+ * last check through the past days to today; without weather for every day since the check,
+ * today starts from the checked depletion and the status is flagged as an outlook.
+ * @param field - Saved field
+ * @param series - Daily forecast starting today
+ * @param history - Past daily weather, e.g. the field's imported station days
+ * @returns The status, or null without forecast days
+ */
+export function computeFieldStatus(
+  field: Field,
+  series: ProcessedWeatherData[],
+  history: ProcessedWeatherData[] = [],
+): FieldStatus | null {
+  if (series.length === 0) return null
+
+  const crop = field.cropId ? findCrop(field.cropId) : undefined
+  const today = series[0]
+  const climate = {
+    windSpeed: today.windSpeed,
+    minRelativeHumidity:
+      today.minRelativeHumidity ??
+      estimateMinRelativeHumidity(today.maxTemperature, today.minTemperature),
+  }
+  const kcOn = (date: string): number => {
+    if (!crop || !field.plantingDate) return 1
+    return cropCoefficientOn(crop, field.plantingDate, date, climate)?.kc ?? 0
+  }
+  const dailyValues = (day: ProcessedWeatherData) => {
+    const { date, result } = dailyEt0(day)
+    return { date, et0: result.et0, kc: kcOn(date), precipitation: day.precipitation ?? 0 }
+  }
+  const balanceOf = (days: ReturnType<typeof dailyValues>[], initialDepletion: number) =>
+    runSoilWaterBalance(
+      days.map(({ date, et0, kc, precipitation }) => ({
+        date,
+        etc: et0 * kc,
+        precipitation,
+        runoff: precipitation - effectiveRainfall(precipitation, { type: 'usda-scs' }),
+      })),
+      {
+        fieldCapacity: field.soil.fieldCapacity,
+        wiltingPoint: field.soil.wiltingPoint,
+        rootDepth: field.soil.rootDepth,
+        depletionFraction: field.soil.depletionFraction,
+        initialDepletion,
+      },
+    )
+
+  const days = series.map(dailyValues)
+  const checked = field.soil.depletionDate
+  const checkedDepletion = field.soil.initialDepletion ?? 0
+
+  // Past weather of each day from the check to yesterday
+  const past = new Map<string, ProcessedWeatherData>()
+  if (checked && checked < days[0].date) {
+    for (const day of history) {
+      const date = weatherDate(day)
+      if (date >= checked && date < days[0].date) past.set(date, day)
+    }
+  }
+  const caughtUp = !!checked && past.size > 0 && past.size === daysBetween(checked, days[0].date)
+  let initialDepletion = checkedDepletion
+  if (caughtUp) {
+    const pastDays = [...past.values()]
+      .map(dailyValues)
+      .sort((a, b) => a.date.localeCompare(b.date))
+    const { days: since } = balanceOf(pastDays, checkedDepletion)
+    initialDepletion = since[since.length - 1].depletion
+  }
+
+  const balance = balanceOf(days, initialDepletion)
+  const recommendation = recommendIrrigation(balance, { type: 'refill' }, field.irrigationSystem)
+  const first = balance.days[0]
+
+  return {
+    date: days[0].date,
+    et0: days[0].et0,
+    kc: days[0].kc,
+    etc: first.etcAdjusted,
+    depletion: first.depletion,
+    readilyAvailableWater: first.readilyAvailableWater,
+    recommendation,
+    status: irrigationStatus(recommendation),
+    outlook: !caughtUp && checked !== days[0].date,
+  }
+}
@@ -0,0 +1,162 @@
+import type { DailyAggregate, GridpointLayer, HourlyValue } from '@/types/weather'
+
+const HOUR_MS = 3600 * 1000
+
+// Converts a raw gridpoint value in the layer's unit of measure to the app's metric unit
+export type GridValueConverter = (value: number | null, uom: string) => number | null
+
+/**
+ * Parse an ISO-8601 duration such as PT3H, P1D or P1DT6H into hours
+ * @param duration - ISO-8601 duration (years and months are not used by NWS gridpoints)
+ * @returns Length of the duration in hours
+ */
+export function parseDuration(duration: string): number {
+  const match =
+    /^P(?:(\d+(?:\.\d+)?)W)?(?:(\d+(?:\.\d+)?)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/.exec(
+      duration,
+    )
+  if (!match || duration === 'P' || duration.endsWith('T')) {
+    throw new Error(`Invalid ISO-8601 duration: ${duration}`)
+  }
+
+  const [, weeks, days, hours, minutes, seconds] = match.map((part) => Number(part || 0))
+  return weeks * 168 + days * 24 + hours + minutes / 60 + seconds / 3600
+}
+
+/**
+ * Parse a gridpoint validTime interval such as 2026-10-19T06:00:00+00:00/PT3H
+ * @param validTime - ISO-8601 interval in start/duration form
+ * @returns Start of the interval and its length in whole hours (at least one)
+ */
+export function parseValidTime(validTime: string): { start: Date; hours: number } {
+  const [start, duration] = validTime.split('/')
+  const startDate = new Date(start)
+  if (isNaN(startDate.getTime())) {
+    throw new Error(`Invalid validTime start: ${validTime}`)
+  }
+
+  const hours = duration ? parseDuration(duration) : 1
+  return { start: startDate, hours: Math.max(1, Math.round(hours)) }
+}
+
+// Formatters are comparatively expensive to create, so keep one per time zone
+const formatters = new Map<string, Intl.DateTimeFormat>()
+
+/**
+ * Calendar date and hour of a timestamp in an IANA time zone
+ */
+export function localDateHour(date: Date, timeZone?: string): { date: string; hour: number } {
+  let formatter = formatters.get(timeZone || '')
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-CA', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      hourCycle: 'h23',
+    })
+    formatters.set(timeZone || '', formatter)
+  }
+  const parts = formatter.formatToParts(date)
+  const part = (type: string) => parts.find((p) => p.type === type)?.value || ''
+
+  return {
+    date: `${part('year')}-${part('month')}-${part('day')}`,
+    hour: Number(part('hour')),
+  }
+}
+
+/**
+ * Expand every validTime run of a gridpoint layer into a regular hourly series
+ * @param layer - Gridpoint layer with uom and validTime/value pairs
+ * @param timeZone - Station IANA time zone for the local date and hour of each value
+ * @param convert - Unit conversion for the layer's uom, identity by default
+ * @returns Hourly values sorted by time, later runs overriding earlier overlapping ones
+ */
+export function expandGridpointLayer(
+  layer: GridpointLayer | undefined,
+  timeZone?: string,
+  convert: GridValueConverter = (value) => value,
+): HourlyValue[] {
+  return expandRuns(layer, timeZone, convert, (value) => value)
+}
+
+/**
+ * Expand a layer of amounts accumulated over each validTime, such as quantitativePrecipitation,
+ * into hourly amounts by spreading each amount evenly over the hours of its run
+ * @returns Hourly amounts sorted by time, whose daily sum is the daily total
+ */
+export function expandGridpointAccumulation(
+  layer: GridpointLayer | undefined,
+  timeZone?: string,
+  convert: GridValueConverter = (value) => value,
+): HourlyValue[] {
+  return expandRuns(layer, timeZone, convert, (value, hours) => value / hours)
+}
+
+function expandRuns(
+  layer: GridpointLayer | undefined,
+  timeZone: string | undefined,
+  convert: GridValueConverter,
+  hourlyValue: (value: number, hours: number) => number,
+): HourlyValue[] {
+  const hourly = new Map<number, number>()
+  if (!layer?.values) return []
+
+  for (const { validTime, value } of layer.values) {
+    const converted = convert(value, layer.uom || '')
+    if (converted === null || isNaN(converted)) continue
+
+    const { start, hours } = parseValidTime(validTime)
+    // Align to the top of the hour so that layers with different run boundaries line up
+    const firstHour = Math.floor(start.getTime() / HOUR_MS) * HOUR_MS
+    for (let i = 0; i < hours; i++) {
+      hourly.set(firstHour + i * HOUR_MS, hourlyValue(converted, hours))
+    }
+  }
+
+  return [...hourly.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([time, value]) => {
+      const local = localDateHour(new Date(time), timeZone)
+      return {
+        time: new Date(time).toISOString(),
+        localDate: local.date,
+        localHour: local.hour,
+        value,
+      }
+    })
+}
+
+/**
+ * Aggregate an hourly series to calendar-day min/max/mean/sum
+ * @param values - Hourly values carrying their local calendar date
+ * @returns One aggregate per local date, in date order
+ */
+export function aggregateDaily(values: HourlyValue[]): DailyAggregate[] {
+  const days = new Map<string, DailyAggregate>()
+
+  for (const { localDate, value } of values) {
+    const day = days.get(localDate)
+    if (!day) {
+      days.set(localDate, {
+        date: localDate,
+        min: value,
+        max: value,
+        mean: value,
+        sum: value,
+        count: 1,
+      })
+      continue
+    }
+    day.min = Math.min(day.min, value)
+    day.max = Math.max(day.max, value)
+    // Running mean
+    day.mean += (value - day.mean) / (day.count + 1)
+    day.sum += value
+    day.count += 1
+  }
+
+  return [...days.values()].sort((a, b) => a.date.localeCompare(b.date))
+}
@@ -0,0 +1,215 @@
+import type {
+  GridpointLayer,
+  NwsForecastPeriod,
+  NwsForecastResponse,
+  NwsGridpointResponse,
+  NwsPointResponse,
+  QuantitativeValue,
+} from '@/types/weather'
+import { WeatherServiceError } from '@/services/weatherServiceError'
+
+// Runtime checks of weather.gov documents at the provider boundary. Each check returns the value
+// typed or throws a WeatherServiceError naming the first missing or malformed field.
+
+type JsonObject = Record<string, unknown>
+
+function invalid(document: string, path: string, expected: string): WeatherServiceError {
+  return new WeatherServiceError(
+    `Invalid weather.gov ${document} response: ${path} is missing or not ${expected}`,
+    'INVALID_RESPONSE',
+    { field: path },
+  )
+}
+
+function object(value: unknown, document: string, path: string): JsonObject {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw invalid(document, path, 'an object')
+  }
+  return value as JsonObject
+}
+
+function array(value: unknown, document: string, path: string): unknown[] {
+  if (!Array.isArray(value)) throw invalid(document, path, 'an array')
+  return value
+}
+
+function string(value: unknown, document: string, path: string): string {
+  if (typeof value !== 'string') throw invalid(document, path, 'a string')
+  return value
+}
+
+function number(value: unknown, document: string, path: string): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw invalid(document, path, 'a number')
+  }
+  return value
+}
+
+function boolean(value: unknown, document: string, path: string): boolean {
+  if (typeof value !== 'boolean') throw invalid(document, path, 'a boolean')
+  return value
+}
+
+function quantity(value: unknown, document: string, path: string): QuantitativeValue {
+  const { value: amount, unitCode } = object(value, document, path)
+  return {
+    value: amount === null ? null : number(amount, document, `${path}.value`),
+    unitCode: string(unitCode, document, `${path}.unitCode`),
+  }
+}
+
+// Optional fields may be absent or null, but must have the right shape when present
+function optional<T>(
+  check: (value: unknown, document: string, path: string) => T,
+  value: unknown,
+  document: string,
+  path: string,
+): T | undefined {
+  return value === undefined || value === null ? undefined : check(value, document, path)
+}
+
+function gridpointLayer(value: unknown, document: string, path: string): GridpointLayer {
+  const layer = object(value, document, path)
+  return {
+    uom: optional(string, layer.uom, document, `${path}.uom`),
+    values: array(layer.values, document, `${path}.values`).map((entry, i) => {
+      const item = object(entry, document, `${path}.values[${i}]`)
+      return {
+        validTime: string(item.validTime, document, `${path}.values[${i}].validTime`),
+        value:
+          item.value === null ? null : number(item.value, document, `${path}.values[${i}].value`),
+      }
+    }),
+  }
+}
+
+/**
+ * Check a /points/{lat},{lon} document
+ */
+export function validatePointResponse(data: unknown): NwsPointResponse {
+  const document = 'points'
+  const body = object(data, document, '(body)')
+  const properties = object(body.properties, document, 'properties')
+  const link = (key: string) => string(properties[key], document, `properties.${key}`)
+  const relativeLocation = optional(
+    object,
+    properties.relativeLocation,
+    document,
+    'properties.relativeLocation',
+  )
+  const place =
+    relativeLocation &&
+    optional(
+      object,
+      relativeLocation.properties,
+      document,
+      'properties.relativeLocation.properties',
+    )
+
+  return {
+    id: optional(string, body.id, document, 'id'),
+    properties: {
+      gridId: link('gridId'),
+      gridX: number(properties.gridX, document, 'properties.gridX'),
+      gridY: number(properties.gridY, document, 'properties.gridY'),
+      forecast: link('forecast'),
+      forecastHourly: link('forecastHourly'),
+      forecastGridData: link('forecastGridData'),
+      observationStations: link('observationStations'),
+      timeZone: link('timeZone'),
+      relativeLocation: place
+        ? {
+            properties: {
+              city: string(place.city, document, 'properties.relativeLocation.properties.city'),
+              state: string(place.state, document, 'properties.relativeLocation.properties.state'),
+            },
+          }
+        : undefined,
+    },
+  }
+}
+
+/**
+ * Check a /gridpoints/{wfo}/{x},{y} document: the layers behind daily and hourly ET₀ are
+ * required, precipitation and elevation are optional
+ */
+export function validateGridpointResponse(data: unknown): NwsGridpointResponse {
+  const document = 'gridpoints'
+  const properties = object(object(data, document, '(body)').properties, document, 'properties')
+  const layer = (key: string) => gridpointLayer(properties[key], document, `properties.${key}`)
+  const optionalLayer = (key: string) =>
+    optional(gridpointLayer, properties[key], document, `properties.${key}`)
+
+  return {
+    properties: {
+      updateTime: optional(string, properties.updateTime, document, 'properties.updateTime'),
+      elevation: optional(quantity, properties.elevation, document, 'properties.elevation'),
+      temperature: layer('temperature'),
+      dewpoint: layer('dewpoint'),
+      relativeHumidity: layer('relativeHumidity'),
+      windSpeed: layer('windSpeed'),
+      skyCover: layer('skyCover'),
+      quantitativePrecipitation: optionalLayer('quantitativePrecipitation'),
+      probabilityOfPrecipitation: optionalLayer('probabilityOfPrecipitation'),
+    },
+  }
+}
+
+/**
+ * Check a /gridpoints/{wfo}/{x},{y}/forecast or .../forecast/hourly document
+ * @param document - 'forecast' or 'hourly forecast', for the error message
+ */
+export function validateForecastResponse(
+  data: unknown,
+  document: 'forecast' | 'hourly forecast' = 'forecast',
+): NwsForecastResponse {
+  const properties = object(object(data, document, '(body)').properties, document, 'properties')
+
+  return {
+    properties: {
+      updated: optional(string, properties.updated, document, 'properties.updated'),
+      elevation: optional(quantity, properties.elevation, document, 'properties.elevation'),
+      periods: array(properties.periods, document, 'properties.periods').map(
+        (entry, i): NwsForecastPeriod => {
+          const path = `properties.periods[${i}]`
+          const period = object(entry, document, path)
+          const temperatureUnit = string(
+            period.temperatureUnit,
+            document,
+            `${path}.temperatureUnit`,
+          )
+          if (temperatureUnit !== 'F' && temperatureUnit !== 'C') {
+            throw invalid(document, `${path}.temperatureUnit`, "'F' or 'C'")
+          }
+
+          return {
+            number: number(period.number, document, `${path}.number`),
+            name: string(period.name, document, `${path}.name`),
+            startTime: string(period.startTime, document, `${path}.startTime`),
+            endTime: string(period.endTime, document, `${path}.endTime`),
+            isDaytime: boolean(period.isDaytime, document, `${path}.isDaytime`),
+            temperature: number(period.temperature, document, `${path}.temperature`),
+            temperatureUnit,
+            probabilityOfPrecipitation: optional(
+              quantity,
+              period.probabilityOfPrecipitation,
+              document,
+              `${path}.probabilityOfPrecipitation`,
+            ),
+            dewpoint: optional(quantity, period.dewpoint, document, `${path}.dewpoint`),
+            relativeHumidity: optional(
+              quantity,
+              period.relativeHumidity,
+              document,
+              `${path}.relativeHumidity`,
+            ),
+            windSpeed: string(period.windSpeed, document, `${path}.windSpeed`),
+            windDirection: string(period.windDirection, document, `${path}.windDirection`),
+            shortForecast: string(period.shortForecast, document, `${path}.shortForecast`),
+            detailedForecast: string(period.detailedForecast, document, `${path}.detailedForecast`),
+          }
+        },
+      ),
+    },
+  }
+}
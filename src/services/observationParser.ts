@@ -0,0 +1,150 @@
+import type { ObservedDailySummary, QuantitativeValue, WeatherObservation } from '@/types/weather'
+import { saturationVaporPressure } from '@/services/calculations/penmanMonteith'
+import { localDateHour } from '@/services/gridpointParser'
+
+// A quantitative value of an observation, e.g. { value: 12.2, unitCode: 'wmoUnit:degC' }
+export type ObservedQuantity = QuantitativeValue
+
+// Conversions of the unit codes used by weather.gov observations to °C, m/s, %, m and mm
+const UNIT_CONVERSIONS: Record<string, (value: number) => number> = {
+  'wmoUnit:degC': (value) => value,
+  'wmoUnit:degF': (value) => ((value - 32) * 5) / 9,
+  'wmoUnit:K': (value) => value - 273.15,
+  'wmoUnit:m_s-1': (value) => value,
+  'wmoUnit:km_h-1': (value) => value / 3.6,
+  'wmoUnit:mi_h-1': (value) => value * 0.44704,
+  'wmoUnit:kt': (value) => value * 0.514444,
+  'wmoUnit:percent': (value) => value,
+  'wmoUnit:m': (value) => value,
+  'wmoUnit:ft': (value) => value * 0.3048,
+  'wmoUnit:mm': (value) => value,
+}
+
+const HOUR_MS = 3600 * 1000
+// Synoptic reports at 00, 06, 12 and 18 UTC carry the 6-hour precipitation group
+const SYNOPTIC_INTERVAL_HOURS = 6
+
+/**
+ * Convert an observed quantity to the app's metric unit using its unitCode
+ * @returns The metric value, or null when the value is missing or the unit is unknown
+ */
+export function convertObservedValue(quantity: ObservedQuantity | undefined): number | null {
+  if (!quantity || quantity.value === null || isNaN(quantity.value)) return null
+
+  const convert = UNIT_CONVERSIONS[quantity.unitCode]
+  return convert ? convert(quantity.value) : null
+}
+
+// Variables an observation needs to contribute fully to daily ET₀ inputs
+const REQUIRED_VARIABLES = ['temperature', 'dewpoint', 'relativeHumidity', 'windSpeed'] as const
+
+/**
+ * Share of the required variables (temperature, dewpoint, humidity, wind) that observations report
+ * @returns 0-1, or 0 when there are no observations
+ */
+export function observationCompleteness(observations: WeatherObservation[]): number {
+  if (observations.length === 0) return 0
+
+  let reported = 0
+  for (const observation of observations) {
+    for (const variable of REQUIRED_VARIABLES) {
+      if (convertObservedValue(observation[variable]) !== null) reported += 1
+    }
+  }
+  return reported / (observations.length * REQUIRED_VARIABLES.length)
+}
+
+/**
+ * Precipitation of one calendar day from the precipitation groups of station observations
+ *
+ * Sums the 6-hour amounts of the synoptic reports made during the day, or the hourly amounts
+ * when no synoptic report has one. Reports omit the groups when no precipitation fell.
+ * @param observations - Station observations, in any order
+ * @param date - Calendar day (YYYY-MM-DD) in the station's time zone
+ * @param timeZone - Station IANA time zone
+ * @returns Total in mm, 0 when no report of the day carries an amount
+ */
+export function observedPrecipitation(
+  observations: WeatherObservation[],
+  date: string,
+  timeZone?: string,
+): number {
+  const sixHourly = new Map<number, number>()
+  const hourly = new Map<number, number>()
+
+  for (const observation of observations) {
+    const time = new Date(observation.timestamp)
+    if (localDateHour(time, timeZone).date !== date) continue
+
+    // Routine reports go out a few minutes before the hour they belong to
+    const hour = Math.round(time.getTime() / HOUR_MS)
+    const sixHours = convertObservedValue(observation.precipitationLast6Hours)
+    if (sixHours !== null && hour % SYNOPTIC_INTERVAL_HOURS === 0) sixHourly.set(hour, sixHours)
+    const lastHour = convertObservedValue(observation.precipitationLastHour)
+    if (lastHour !== null) hourly.set(hour, lastHour)
+  }
+
+  const amounts = sixHourly.size > 0 ? sixHourly : hourly
+  return [...amounts.values()].reduce((sum, value) => sum + value, 0)
+}
+
+/**
+ * Summarise the observations of one calendar day into daily Penman-Monteith inputs
+ * @param observations - Station observations, in any order
+ * @param date - Calendar day (YYYY-MM-DD) in the station's time zone
+ * @param timeZone - Station IANA time zone
+ * @returns Daily extremes and means, or null when the day lacks temperature, humidity or wind
+ */
+export function summarizeObservations(
+  observations: WeatherObservation[],
+  date: string,
+  timeZone?: string,
+): ObservedDailySummary | null {
+  const temperatures: number[] = []
+  const humidities: number[] = []
+  const windSpeeds: number[] = []
+  const dewpoints: number[] = []
+  const times: string[] = []
+
+  for (const observation of observations) {
+    if (localDateHour(new Date(observation.timestamp), timeZone).date !== date) continue
+
+    const temperature = convertObservedValue(observation.temperature)
+    const dewpoint = convertObservedValue(observation.dewpoint)
+    const windSpeed = convertObservedValue(observation.windSpeed)
+    let humidity = convertObservedValue(observation.relativeHumidity)
+
+    if (temperature !== null) {
+      temperatures.push(temperature)
+      times.push(observation.timestamp)
+      // RH = e°(Tdew) / e°(T) when the station doesn't report humidity
+      if (humidity === null && dewpoint !== null) {
+        humidity = (100 * saturationVaporPressure(dewpoint)) / saturationVaporPressure(temperature)
+      }
+    }
+    if (humidity !== null) humidities.push(Math.min(100, humidity))
+    if (windSpeed !== null) windSpeeds.push(windSpeed)
+    if (dewpoint !== null) dewpoints.push(dewpoint)
+  }
+
+  if (temperatures.length === 0 || humidities.length === 0 || windSpeeds.length === 0) return null
+
+  const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length
+  times.sort()
+
+  return {
+    date,
+    maxTemperature: Math.max(...temperatures),
+    minTemperature: Math.min(...temperatures),
+    maxRelativeHumidity: Math.max(...humidities),
+    minRelativeHumidity: Math.min(...humidities),
+    meanRelativeHumidity: mean(humidities),
+    // Calm hours are reported as 0 and belong in the mean
+    windSpeed: mean(windSpeeds),
+    dewpoint: dewpoints.length > 0 ? mean(dewpoints) : undefined,
+    precipitation: observedPrecipitation(observations, date, timeZone),
+    observationCount: temperatures.length,
+    firstObservation: times[0],
+    lastObservation: times[times.length - 1],
+  }
+}
@@ -0,0 +1,28 @@
+// Offline support: the service worker in src/service-worker.js caches the app shell and the
+// last weather.gov responses per location
+
+// Header the service worker adds to cached weather responses, with the time they were cached
+export const CACHED_AT_HEADER = 'x-pme-cached-at'
+
+/**
+ * Time a response was cached by the service worker
+ * @param headers - Response headers, e.g. from axios
+ * @returns ISO-8601 time, or undefined for a response from the network
+ */
+export function cachedAt(headers: Record<string, unknown>): string | undefined {
+  const value = headers[CACHED_AT_HEADER]
+  return typeof value === 'string' ? value : undefined
+}
+
+/**
+ * Register the service worker of a production build; the dev server has none
+ */
+export function registerServiceWorker(): void {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return
+
+  window.addEventListener('load', () => {
+    navigator.serviceWorker
+      .register(`${import.meta.env.BASE_URL}sw.js`)
+      .catch((error) => console.warn('Service worker registration failed:', error))
+  })
+}
@@ -9,7 +9,9 @@ export class GooglePlacesProvider implements GeocodingProvider {
   private loadingPromise: Promise<void> | null = null
 
   isAvailable(): boolean {
-    return !!import.meta.env.VITE_GOOGLE_MAPS_API_KEY && 
+    // The Maps JavaScript API loads through a <script> tag, so it needs a browser
+    return typeof window !== 'undefined' &&
+           !!import.meta.env.VITE_GOOGLE_MAPS_API_KEY && 
            import.meta.env.VITE_GOOGLE_MAPS_API_KEY !== 'demo'
   }
 
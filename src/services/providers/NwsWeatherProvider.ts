@@ -0,0 +1,866 @@
+import axios from 'axios'
+import type {
+  WeatherStationsResponse,
+  WeatherObservationsResponse,
+  ProcessedWeatherData,
+  Location,
+  FilledValue,
+  WeatherDataSource,
+  HourlyValue,
+  HourlyWeatherPoint,
+  NearbyStation,
+  NwsGridpointResponse,
+  NwsPointResponse,
+  ObservedDailySummary,
+  StationDataStatus,
+} from '@/types/weather'
+import type { WeatherProvider } from '../weatherService'
+import { rankStations, toNearbyStation } from '@/services/stations'
+import { windSpeedAt2m } from '@/services/calculations/penmanMonteith'
+import {
+  DEFAULT_WIND_SPEED,
+  estimateHumidity,
+  humidityEstimateLabel,
+} from '@/services/calculations/missingData'
+import {
+  convertObservedValue,
+  observationCompleteness,
+  summarizeObservations,
+} from '@/services/observationParser'
+import { cachedAt } from '@/services/offlineCache'
+import { API_USER_AGENT, NWS_API_URL, usesApiProxy } from '@/services/apiConfig'
+import { validateGridpointResponse, validatePointResponse } from '@/services/nwsValidation'
+import { WeatherServiceError, type WeatherServiceErrorCode } from '@/services/weatherServiceError'
+import {
+  aggregateDaily,
+  expandGridpointAccumulation,
+  expandGridpointLayer,
+  localDateHour,
+  type GridValueConverter,
+} from '@/services/gridpointParser'
+
+// Hourly gridpoint layers used for ET₀, in metric units
+interface GridpointSeries {
+  temperature: HourlyValue[] // °C
+  dewpoint: HourlyValue[] // °C
+  relativeHumidity: HourlyValue[] // %
+  windSpeed: HourlyValue[] // m/s
+  skyCover: HourlyValue[] // %
+  precipitation: HourlyValue[] // mm per hour, spread from quantitativePrecipitation
+  precipitationProbability: HourlyValue[] // %
+}
+
+// Point metadata and gridpoint forecast for one location
+interface GridpointForecast {
+  location: Location
+  gridId: string
+  gridX: number
+  gridY: number
+  timeZone: string
+  elevation?: number // m, undefined when the gridpoint has none
+  series: GridpointSeries
+  forecastUrl?: string
+  pointDataUrl: string
+  gridpointsUrl: string
+  fetchedAt: string
+  cachedAt?: string // set when the service worker answered from its cache
+}
+
+// Continental US, Alaska, Hawaii, Puerto Rico/USVI and Guam/Marianas as [south, west, north, east]
+const NWS_COVERAGE: Array<[number, number, number, number]> = [
+  [24.4, -125.0, 49.5, -66.9],
+  [51.0, -180.0, 71.5, -129.9],
+  [51.0, 172.0, 53.1, 180.0],
+  [18.8, -160.3, 22.3, -154.7],
+  [17.6, -67.3, 18.6, -64.5],
+  [13.2, 144.6, 20.6, 146.1],
+]
+
+// Observed mode tries the best ranked stations in turn until one has a usable day
+const OBSERVED_STATION_ATTEMPTS = 3
+// Hourly METAR reports plus specials; fewer than this misses the daily extremes
+const MIN_DAILY_OBSERVATIONS = 18
+// ASOS anemometers and the forecast grids' wind are at 10 m above ground
+const WIND_MEASUREMENT_HEIGHT = 10 // m
+
+/**
+ * Calendar date one day before a YYYY-MM-DD date
+ */
+function previousDate(date: string): string {
+  const [year, month, day] = date.split('-').map(Number)
+  return new Date(Date.UTC(year, month - 1, day - 1)).toISOString().slice(0, 10)
+}
+
+export class NwsWeatherProvider implements WeatherProvider {
+  readonly name = 'National Weather Service (weather.gov)'
+  readonly priority = 10
+
+  // Public URLs for the source links; requests may go through the proxy instead
+  private readonly baseURL = 'https://api.weather.gov'
+
+  private pointCache = new Map<string, Promise<NwsPointResponse>>()
+
+  // Browsers can't set User-Agent; there the proxy (VITE_API_PROXY_URL) sends it for us
+  private axiosInstance = axios.create({
+    baseURL: NWS_API_URL,
+    timeout: 10000,
+    headers: {
+      Accept: 'application/json',
+      ...(typeof window === 'undefined' && { 'User-Agent': API_USER_AGENT }),
+    },
+  })
+
+  constructor() {
+    // Add response interceptor for error handling
+    this.axiosInstance.interceptors.response.use(
+      (response) => response,
+      (error) => {
+        const code: WeatherServiceErrorCode = error.response
+          ? (String(error.response.status) as WeatherServiceErrorCode)
+          : 'NETWORK'
+        throw new WeatherServiceError(error.message || 'Weather service error', code, {
+          details: error.response?.data,
+        })
+      },
+    )
+  }
+
+  isAvailable(): boolean {
+    // weather.gov is free and doesn't require an API key
+    return true
+  }
+
+  covers(location: Location): boolean {
+    // Bounding boxes are coarse; /points answers 404 for the rest and the manager falls back
+    return NWS_COVERAGE.some(
+      ([south, west, north, east]) =>
+        location.latitude >= south &&
+        location.latitude <= north &&
+        location.longitude >= west &&
+        location.longitude <= east,
+    )
+  }
+
+  /**
+   * Get point metadata for a given location
+   * @param location - Latitude and longitude
+   * @returns Promise with point data including forecast URLs
+   */
+  async getPointData(location: Location): Promise<NwsPointResponse> {
+    const lat = location.latitude.toFixed(4)
+    const lon = location.longitude.toFixed(4)
+    const key = `${lat},${lon}`
+
+    // Point metadata doesn't change, and batches look it up before fetching the forecast
+    let request = this.pointCache.get(key)
+    if (!request) {
+      request = this.axiosInstance
+        .get<unknown>(`/points/${key}`)
+        .then((response) => validatePointResponse(response.data))
+      request.catch(() => this.pointCache.delete(key))
+      this.pointCache.set(key, request)
+    }
+    return request
+  }
+
+  /**
+   * Forecast grid cell of a location, e.g. SEW/124,67
+   */
+  async getGridCell(location: Location): Promise<string> {
+    const pointData = await this.getPointData(location)
+    const { gridId, gridX, gridY } = pointData.properties
+    return `${gridId}/${gridX},${gridY}`
+  }
+
+  /**
+   * Find observation stations near a given location
+   * @param location - Latitude and longitude
+   * @param limit - Maximum number of stations to return
+   * @param elevation - Field elevation in m, looked up from the gridpoint when omitted
+   * @returns Stations from the point's observationStations list, best match first
+   */
+  async findNearbyStations(
+    location: Location,
+    limit: number = 10,
+    elevation?: number,
+  ): Promise<NearbyStation[]> {
+    const pointData = await this.getPointData(location)
+    const stations = await this.getRankedStations(pointData, location, elevation)
+    return stations.slice(0, limit)
+  }
+
+  /**
+   * Resolve the point's observationStations link and rank the stations against the field
+   */
+  private async getRankedStations(
+    pointData: NwsPointResponse,
+    location: Location,
+    elevation?: number,
+  ): Promise<NearbyStation[]> {
+    const fieldElevation = elevation ?? (await this.getGridElevation(pointData))
+    const response = await this.axiosInstance.get<WeatherStationsResponse>(
+      this.apiPath(pointData.properties.observationStations),
+    )
+    return rankStations(
+      response.data.features.map((feature) => toNearbyStation(feature, location, fieldElevation)),
+    )
+  }
+
+  /**
+   * Path of a weather.gov link relative to the API base URL, so that it goes through the proxy
+   */
+  private apiPath(link: string): string {
+    return link.startsWith(this.baseURL) ? link.slice(this.baseURL.length) : link
+  }
+
+  /**
+   * Elevation of the forecast grid cell, used when the caller doesn't know the field elevation
+   */
+  private async getGridElevation(pointData: NwsPointResponse): Promise<number> {
+    const { gridpoint } = await this.getGridpointData(pointData)
+    // Only ranks the stations, so a missing elevation needs no flag
+    return this.extractElevation(gridpoint) ?? 0
+  }
+
+  /**
+   * Fetch and validate the gridpoint document of a point's grid cell
+   * @returns The document and, when the service worker answered from its cache, when it was cached
+   */
+  private async getGridpointData(
+    pointData: NwsPointResponse,
+  ): Promise<{ gridpoint: NwsGridpointResponse; cachedAt?: string }> {
+    const { gridId, gridX, gridY } = pointData.properties
+    const response = await this.axiosInstance.get<unknown>(
+      `/gridpoints/${gridId}/${gridX},${gridY}`,
+    )
+    return {
+      gridpoint: validateGridpointResponse(response.data),
+      cachedAt: cachedAt(response.headers),
+    }
+  }
+
+  /**
+   * Get the latest observation from a weather station
+   * @param stationId - Weather station ID
+   * @returns Promise<WeatherObservationsResponse>
+   */
+  async getLatestObservation(stationId: string): Promise<WeatherObservationsResponse> {
+    const response = await this.axiosInstance.get<WeatherObservationsResponse>(
+      `/stations/${stationId}/observations/latest`,
+    )
+    return response.data
+  }
+
+  /**
+   * Get recent observations from a weather station
+   * @param stationId - Weather station ID
+   * @param limit - Number of observations to retrieve
+   * @returns Promise<WeatherObservationsResponse>
+   */
+  async getRecentObservations(
+    stationId: string,
+    limit: number = 24,
+  ): Promise<WeatherObservationsResponse> {
+    const response = await this.axiosInstance.get<WeatherObservationsResponse>(
+      `/stations/${stationId}/observations`,
+      {
+        params: { limit },
+      },
+    )
+    return response.data
+  }
+
+  /**
+   * Check how recently and how completely a station has been reporting
+   * @param stationId - Weather station ID
+   * @returns Latest observation time and completeness over the last 24 observations
+   */
+  async getStationStatus(stationId: string): Promise<StationDataStatus> {
+    const observations = (await this.getRecentObservations(stationId, 24)).features.map(
+      (feature) => feature.properties,
+    )
+    const latest = observations.map((observation) => observation.timestamp).sort()
+
+    return {
+      stationId,
+      lastObservation: latest[latest.length - 1],
+      observationCount: observations.length,
+      completeness: observationCompleteness(observations),
+    }
+  }
+
+  /**
+   * Get observations from a weather station within a time window
+   * @param stationId - Weather station ID
+   * @param start - Start of the window
+   * @param end - End of the window
+   * @returns Promise<WeatherObservationsResponse>
+   */
+  async getObservations(
+    stationId: string,
+    start: Date,
+    end: Date,
+  ): Promise<WeatherObservationsResponse> {
+    const response = await this.axiosInstance.get<WeatherObservationsResponse>(
+      `/stations/${stationId}/observations`,
+      {
+        params: { start: start.toISOString(), end: end.toISOString() },
+      },
+    )
+    return response.data
+  }
+
+  /**
+   * Convert Celsius to Fahrenheit
+   */
+  private celsiusToFahrenheit(celsius: number): number {
+    return (celsius * 9) / 5 + 32
+  }
+
+  /**
+   * Convert Fahrenheit to Celsius
+   */
+  private fahrenheitToCelsius(fahrenheit: number): number {
+    return ((fahrenheit - 32) * 5) / 9
+  }
+
+  /**
+   * Convert temperature from grid data format
+   */
+  private convertTemperatureFromGrid(value: number | null, uom: string): number | null {
+    if (value === null) return null
+
+    if (uom === 'wmoUnit:degC') {
+      return value
+    }
+    if (uom === 'wmoUnit:degF') {
+      return this.fahrenheitToCelsius(value)
+    }
+    if (uom === 'wmoUnit:K') {
+      return value - 273.15 // Kelvin to Celsius
+    }
+    return value
+  }
+
+  /**
+   * Convert 10 m wind speed from grid data format to u₂ in m/s (FAO-56 eq. 47)
+   */
+  private convertWindSpeedFromGrid(value: number | null, uom: string): number | null {
+    if (value === null) return null
+
+    let metresPerSecond = value // wmoUnit:m_s-1
+    if (uom === 'wmoUnit:km_h-1') {
+      metresPerSecond = value / 3.6 // km/h to m/s
+    } else if (uom === 'wmoUnit:mi_h-1') {
+      metresPerSecond = value * 0.44704 // mph to m/s
+    }
+    return windSpeedAt2m(metresPerSecond, WIND_MEASUREMENT_HEIGHT)
+  }
+
+  /**
+   * Convert precipitation amounts from grid data format to mm
+   */
+  private convertPrecipitationFromGrid(value: number | null, uom: string): number | null {
+    if (value === null) return null
+
+    if (uom === 'wmoUnit:in') {
+      return value * 25.4 // inches to mm
+    }
+    return value // wmoUnit:mm
+  }
+
+  /**
+   * Get processed weather data for Penman-Monteith calculations
+   * @param location - Latitude and longitude
+   * @returns Promise<ProcessedWeatherData> for today in the station's local time
+   */
+  async getProcessedWeatherData(location: Location): Promise<ProcessedWeatherData> {
+    try {
+      const gridpoint = await this.getGridpointForecast(location)
+      const today = localDateHour(new Date(), gridpoint.timeZone).date
+
+      const processedData = this.buildDailyWeatherData(gridpoint, today)
+      if (!processedData) {
+        throw new Error('No gridpoint temperature data available for today')
+      }
+      return processedData
+    } catch (error) {
+      throw this.toWeatherError(error)
+    }
+  }
+
+  /**
+   * Get processed weather data for each of the next calendar days
+   * @param location - Latitude and longitude
+   * @param days - Number of calendar days starting today (station local time)
+   * @returns Promise<ProcessedWeatherData[]> with one record per day that has forecast data
+   */
+  async getDailyForecastSeries(
+    location: Location,
+    days: number = 7,
+  ): Promise<ProcessedWeatherData[]> {
+    try {
+      const gridpoint = await this.getGridpointForecast(location)
+      const today = localDateHour(new Date(), gridpoint.timeZone).date
+
+      const dates = aggregateDaily(gridpoint.series.temperature)
+        .map((day) => day.date)
+        .filter((date) => date >= today)
+        .slice(0, days)
+
+      const series = dates
+        .map((date) => this.buildDailyWeatherData(gridpoint, date))
+        .filter((day): day is ProcessedWeatherData => day !== null)
+
+      if (series.length === 0) {
+        throw new Error('No gridpoint forecast data available')
+      }
+      return series
+    } catch (error) {
+      throw this.toWeatherError(error)
+    }
+  }
+
+  /**
+   * Get yesterday's weather (station local time) from nearby station observations
+   * @param location - Latitude and longitude
+   * @param stationId - Use this station instead of the best ranked ones
+   * @returns Promise<ProcessedWeatherData> with observed extremes and means
+   */
+  async getObservedWeatherData(
+    location: Location,
+    stationId?: string,
+  ): Promise<ProcessedWeatherData> {
+    try {
+      const pointData = await this.getPointData(location)
+      const timeZone = pointData.properties.timeZone
+      const stations = await this.getRankedStations(pointData, location)
+      const candidates = stationId
+        ? stations.filter((station) => station.id === stationId)
+        : stations.slice(0, OBSERVED_STATION_ATTEMPTS)
+      if (candidates.length === 0) {
+        throw new Error(`Station ${stationId} is not near the specified location`)
+      }
+
+      const now = new Date()
+      const yesterday = previousDate(localDateHour(now, timeZone).date)
+      // 48 hours back covers all of yesterday in any time zone
+      const start = new Date(now.getTime() - 48 * 3600 * 1000)
+
+      for (const station of candidates) {
+        const observations = await this.getObservations(station.id, start, now)
+        const summary = summarizeObservations(
+          observations.features.map((feature) => feature.properties),
+          yesterday,
+          station.timeZone || timeZone,
+        )
+        if (summary && summary.observationCount >= MIN_DAILY_OBSERVATIONS) {
+          return this.buildObservedWeatherData(station, summary, start, now)
+        }
+        console.warn(`Station ${station.id} has too few observations for ${yesterday}`)
+      }
+
+      throw new Error(`No nearby station has enough observations for ${yesterday}`)
+    } catch (error) {
+      throw this.toWeatherError(error)
+    }
+  }
+
+  /**
+   * Observed daily summary of one station as daily weather with provenance
+   */
+  private buildObservedWeatherData(
+    station: NearbyStation,
+    summary: ObservedDailySummary,
+    start: Date,
+    end: Date,
+  ): ProcessedWeatherData {
+    const observationsUrl = `${this.baseURL}/stations/${station.id}/observations?start=${start.toISOString()}&end=${end.toISOString()}`
+    const period = `${summary.observationCount} observations on ${summary.date}`
+    const source = (value: number, label: string, valueCelsius?: number): WeatherDataSource => ({
+      value,
+      valueCelsius,
+      date: summary.firstObservation,
+      source: `NWS Station ${station.id}`,
+      period: `${label} of ${period}`,
+      url: observationsUrl,
+    })
+    const retrievedAt = new Date().toISOString()
+    const windSpeed = windSpeedAt2m(summary.windSpeed, WIND_MEASUREMENT_HEIGHT)
+
+    return {
+      date: summary.date,
+      mode: 'observed',
+      maxTemperature: summary.maxTemperature,
+      minTemperature: summary.minTemperature,
+      relativeHumidity: summary.meanRelativeHumidity,
+      maxRelativeHumidity: summary.maxRelativeHumidity,
+      minRelativeHumidity: summary.minRelativeHumidity,
+      dewpoint: summary.dewpoint,
+      windSpeed,
+      windMeasurementHeight: WIND_MEASUREMENT_HEIGHT,
+      solarRadiation: undefined, // Stations don't report solar radiation, needs to be estimated
+      precipitation: summary.precipitation,
+      station: {
+        id: station.id,
+        name: station.name,
+        latitude: station.latitude,
+        longitude: station.longitude,
+        elevation: station.elevation,
+        timeZone: station.timeZone,
+      },
+      timestamp: retrievedAt,
+      sourceData: {
+        temperatures: [
+          source(
+            this.celsiusToFahrenheit(summary.maxTemperature), // Fahrenheit for display
+            'Maximum',
+            summary.maxTemperature,
+          ),
+          source(
+            this.celsiusToFahrenheit(summary.minTemperature),
+            'Minimum',
+            summary.minTemperature,
+          ),
+        ],
+        humidity: [
+          source(summary.maxRelativeHumidity, 'Maximum'),
+          source(summary.minRelativeHumidity, 'Minimum'),
+        ],
+        windSpeed: [
+          {
+            ...source(windSpeed, `Mean at 2 m (from ${WIND_MEASUREMENT_HEIGHT} m)`),
+            measurementHeight: WIND_MEASUREMENT_HEIGHT,
+          },
+        ],
+        precipitation:
+          summary.precipitation !== undefined ? [source(summary.precipitation, 'Total')] : [],
+        forecastDate: summary.firstObservation,
+        provider: this.name,
+        periodStart: summary.firstObservation,
+        periodEnd: summary.lastObservation,
+        hoursAvailable: summary.observationCount,
+        retrievedAt,
+        observationsUrl,
+        stationDistance: station.distance,
+        filledValues: station.elevationDefaulted
+          ? [
+              {
+                variable: 'elevation',
+                value: 0,
+                flag: 'defaulted',
+                reason: `No elevation for station ${station.id}`,
+              },
+            ]
+          : undefined,
+      },
+    }
+  }
+
+  /**
+   * Fetch point metadata and the gridpoint forecast, expanded to hourly series
+   */
+  private async getGridpointForecast(location: Location): Promise<GridpointForecast> {
+    // Get point metadata first (this is the correct weather.gov API flow)
+    const lat = location.latitude.toFixed(4)
+    const lon = location.longitude.toFixed(4)
+    const pointDataUrl = `${this.baseURL}/points/${lat},${lon}`
+    const pointData = await this.getPointData(location)
+    const { gridId, gridX, gridY, timeZone } = pointData.properties
+
+    // Gridpoints data holds the hourly forecast layers for the whole forecast period
+    const { gridpoint, cachedAt: cachedTime } = await this.getGridpointData(pointData)
+
+    return {
+      location,
+      gridId,
+      gridX,
+      gridY,
+      timeZone,
+      elevation: this.extractElevation(gridpoint),
+      series: this.parseGridpointSeries(gridpoint, timeZone),
+      forecastUrl: pointData.properties.forecast,
+      pointDataUrl,
+      gridpointsUrl: `${this.baseURL}/gridpoints/${gridId}/${gridX},${gridY}`,
+      fetchedAt: cachedTime ?? new Date().toISOString(),
+      cachedAt: cachedTime,
+    }
+  }
+
+  /**
+   * Aggregate one calendar day (station local time) of the gridpoint forecast to daily inputs
+   * @returns Daily weather with provenance, or null when the day has no temperature data
+   */
+  private buildDailyWeatherData(
+    gridpoint: GridpointForecast,
+    date: string,
+  ): ProcessedWeatherData | null {
+    const { series, gridpointsUrl } = gridpoint
+    const forDate = (values: HourlyValue[]) => values.filter((v) => v.localDate === date)
+
+    const temperatureDay = aggregateDaily(forDate(series.temperature))[0]
+    const humidityDay = aggregateDaily(forDate(series.relativeHumidity))[0]
+    const windDay = aggregateDaily(forDate(series.windSpeed))[0]
+    const precipitationDay = aggregateDaily(forDate(series.precipitation))[0]
+    const probabilityDay = aggregateDaily(forDate(series.precipitationProbability))[0]
+    const hours = forDate(series.temperature)
+
+    if (!temperatureDay || hours.length === 0) return null
+
+    const firstHour = hours[0].time
+    const lastHour = hours[hours.length - 1].time
+    const maxTemp = temperatureDay.max
+    const minTemp = temperatureDay.min
+    const temperatureSources: WeatherDataSource[] = [
+      {
+        value: this.celsiusToFahrenheit(maxTemp), // Fahrenheit for display
+        valueCelsius: maxTemp,
+        date: firstHour,
+        source: 'NWS Gridpoint Forecast',
+        period: `Daily max of ${temperatureDay.count} hourly values`,
+        url: gridpointsUrl,
+      },
+      {
+        value: this.celsiusToFahrenheit(minTemp),
+        valueCelsius: minTemp,
+        date: firstHour,
+        source: 'NWS Gridpoint Forecast',
+        period: `Daily min of ${temperatureDay.count} hourly values`,
+        url: gridpointsUrl,
+      },
+    ]
+
+    const filledValues: FilledValue[] = []
+    let relativeHumidity: number
+    let humiditySources: WeatherDataSource[]
+    if (humidityDay) {
+      relativeHumidity = humidityDay.mean
+      humiditySources = [
+        {
+          value: humidityDay.mean,
+          date: firstHour,
+          source: 'NWS Gridpoint Forecast',
+          period: `Daily mean of ${humidityDay.count} hourly values`,
+          url: gridpointsUrl,
+        },
+      ]
+    } else {
+      const aridity = gridpoint.location.aridity
+      const estimate = estimateHumidity(maxTemp, minTemp, aridity)
+      relativeHumidity = estimate.relativeHumidity
+      humiditySources = [
+        {
+          value: estimate.relativeHumidity,
+          date: firstHour,
+          source: `Estimated from Tmin (FAO-56 eq. 48, ${humidityEstimateLabel(aridity)})`,
+          period: 'Daily',
+          url: gridpointsUrl,
+        },
+      ]
+      filledValues.push({
+        variable: 'relativeHumidity',
+        value: estimate.relativeHumidity,
+        flag: 'estimated',
+        reason: `No forecast relative humidity for ${date}; ${humidityEstimateLabel(aridity)}`,
+      })
+    }
+
+    const windSpeed = windDay ? windDay.mean : DEFAULT_WIND_SPEED
+    const windSpeedSources: WeatherDataSource[] = [
+      windDay
+        ? {
+            value: windDay.mean,
+            date: firstHour,
+            source: 'NWS Gridpoint Forecast',
+            period: `Daily mean at 2 m (from ${WIND_MEASUREMENT_HEIGHT} m) of ${windDay.count} hourly values`,
+            url: gridpointsUrl,
+            measurementHeight: WIND_MEASUREMENT_HEIGHT,
+          }
+        : {
+            value: DEFAULT_WIND_SPEED,
+            date: firstHour,
+            source: `Default Value (${DEFAULT_WIND_SPEED} m/s)`,
+            period: 'Current',
+            url: gridpointsUrl,
+          },
+    ]
+    if (!windDay) {
+      filledValues.push({
+        variable: 'windSpeed',
+        value: DEFAULT_WIND_SPEED,
+        flag: 'defaulted',
+        reason: `No forecast wind speed for ${date}; FAO-56 global average`,
+      })
+    }
+
+    if (gridpoint.elevation === undefined) {
+      filledValues.push({
+        variable: 'elevation',
+        value: 0,
+        flag: 'defaulted',
+        reason: `No elevation for grid cell ${gridpoint.gridId} ${gridpoint.gridX},${gridpoint.gridY}`,
+      })
+    }
+
+    const precipitationSources: WeatherDataSource[] = precipitationDay
+      ? [
+          {
+            value: precipitationDay.sum,
+            date: firstHour,
+            source: 'NWS Gridpoint Forecast',
+            period: `Daily total of ${precipitationDay.count} hourly values`,
+            url: gridpointsUrl,
+          },
+        ]
+      : []
+
+    const hourTimes = new Set(hours.map((h) => h.time))
+
+    return {
+      date,
+      maxTemperature: maxTemp,
+      minTemperature: minTemp,
+      relativeHumidity: relativeHumidity,
+      windSpeed: windSpeed,
+      windMeasurementHeight: windDay ? WIND_MEASUREMENT_HEIGHT : undefined,
+      solarRadiation: undefined, // Solar radiation not available from weather.gov, needs to be estimated
+      precipitation: precipitationDay?.sum,
+      precipitationProbability: probabilityDay?.max,
+      station: {
+        id: gridpoint.gridId,
+        name: `Weather Grid ${gridpoint.gridId} (${gridpoint.gridX},${gridpoint.gridY})`,
+        latitude: gridpoint.location.latitude,
+        longitude: gridpoint.location.longitude,
+        elevation: gridpoint.elevation ?? 0,
+        timeZone: gridpoint.timeZone,
+      },
+      timestamp: gridpoint.fetchedAt,
+      hourly: this.buildHourlySeries(series).filter((hour) => hourTimes.has(hour.time)),
+      sourceData: {
+        temperatures: temperatureSources,
+        humidity: humiditySources,
+        windSpeed: windSpeedSources,
+        precipitation: precipitationSources,
+        forecastDate: firstHour,
+        provider: this.name,
+        forecastUrl: gridpoint.forecastUrl,
+        pointDataUrl: gridpoint.pointDataUrl,
+        gridpointsUrl,
+        periodStart: firstHour,
+        periodEnd: lastHour,
+        hoursAvailable: hours.length,
+        retrievedAt: gridpoint.fetchedAt,
+        cachedAt: gridpoint.cachedAt,
+        filledValues,
+      },
+    }
+  }
+
+  /**
+   * Normalise errors from the weather.gov flow into a user-facing WeatherServiceError
+   */
+  private toWeatherError(error: unknown): WeatherServiceError {
+    console.error('Weather service error:', error)
+
+    if (error instanceof Error) {
+      // Check for CORS or network errors
+      if (
+        error.message.includes('CORS') ||
+        error.message.includes('Network Error') ||
+        error.message.includes('ERR_NETWORK')
+      ) {
+        return new WeatherServiceError(
+          usesApiProxy()
+            ? 'Failed to get weather data: network error - check that the API proxy is running'
+            : 'Failed to get weather data: CORS error - weather.gov API may not be accessible from browser. Set VITE_API_PROXY_URL to use the API proxy in server/.',
+          'NETWORK',
+        )
+      }
+    }
+
+    if (error instanceof WeatherServiceError) {
+      return new WeatherServiceError(
+        `Failed to get weather data: ${error.message} (Code: ${error.code})`,
+        error.code,
+        { field: error.field, details: error.details },
+      )
+    }
+
+    if (error instanceof Error) {
+      return new WeatherServiceError(`Failed to get weather data: ${error.message}`, 'UNKNOWN')
+    }
+
+    return new WeatherServiceError(
+      'Failed to get weather data: Unknown error - check browser console for details',
+      'UNKNOWN',
+    )
+  }
+
+  /**
+   * Expand the gridpoint layers used for ET₀ into hourly series in metric units
+   * @param gridpoint - Validated /gridpoints/{wfo}/{x},{y} response
+   * @param timeZone - Station IANA time zone from the point metadata
+   */
+  private parseGridpointSeries(
+    gridpoint: NwsGridpointResponse,
+    timeZone?: string,
+  ): GridpointSeries {
+    const gridData = gridpoint.properties
+    const temperature: GridValueConverter = (value, uom) =>
+      this.convertTemperatureFromGrid(value, uom)
+    const windSpeed: GridValueConverter = (value, uom) => this.convertWindSpeedFromGrid(value, uom)
+    const precipitation: GridValueConverter = (value, uom) =>
+      this.convertPrecipitationFromGrid(value, uom)
+
+    return {
+      temperature: expandGridpointLayer(gridData.temperature, timeZone, temperature),
+      dewpoint: expandGridpointLayer(gridData.dewpoint, timeZone, temperature),
+      relativeHumidity: expandGridpointLayer(gridData.relativeHumidity, timeZone),
+      windSpeed: expandGridpointLayer(gridData.windSpeed, timeZone, windSpeed),
+      skyCover: expandGridpointLayer(gridData.skyCover, timeZone),
+      precipitation: expandGridpointAccumulation(
+        gridData.quantitativePrecipitation,
+        timeZone,
+        precipitation,
+      ),
+      precipitationProbability: expandGridpointLayer(gridData.probabilityOfPrecipitation, timeZone),
+    }
+  }
+
+  /**
+   * Join the gridpoint series into the hourly records needed for hourly ET₀
+   */
+  private buildHourlySeries(series: GridpointSeries): HourlyWeatherPoint[] {
+    const byTime = (values: HourlyValue[]) => new Map(values.map((v) => [v.time, v.value]))
+    const dewpoint = byTime(series.dewpoint)
+    const relativeHumidity = byTime(series.relativeHumidity)
+    const windSpeed = byTime(series.windSpeed)
+    const skyCover = byTime(series.skyCover)
+
+    const hours: HourlyWeatherPoint[] = []
+    for (const { time, value: temperature } of series.temperature) {
+      const wind = windSpeed.get(time)
+      const sky = skyCover.get(time)
+      if (wind === undefined || sky === undefined) continue
+      if (!dewpoint.has(time) && !relativeHumidity.has(time)) continue
+
+      hours.push({
+        time,
+        temperature,
+        dewpoint: dewpoint.get(time),
+        relativeHumidity: relativeHumidity.get(time),
+        windSpeed: wind,
+        skyCover: sky,
+      })
+    }
+    return hours
+  }
+
+  /**
+   * Elevation of the grid cell in m
+   * @returns undefined when the gridpoint has no elevation
+   */
+  private extractElevation(gridpoint: NwsGridpointResponse): number | undefined {
+    return convertObservedValue(gridpoint.properties.elevation) ?? undefined
+  }
+}
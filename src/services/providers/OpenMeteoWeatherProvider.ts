@@ -0,0 +1,255 @@
+import axios from 'axios'
+import type {
+  FilledValue,
+  HourlyWeatherPoint,
+  Location,
+  ProcessedWeatherData,
+  WeatherDataSource,
+} from '@/types/weather'
+import type { WeatherProvider } from '../weatherService'
+import { localDateHour } from '@/services/gridpointParser'
+import { windSpeedAt2m } from '@/services/calculations/penmanMonteith'
+import {
+  DEFAULT_WIND_SPEED,
+  estimateHumidity,
+  humidityEstimateLabel,
+} from '@/services/calculations/missingData'
+
+// The wind_speed_10m variables are at 10 m above ground
+const WIND_MEASUREMENT_HEIGHT = 10 // m
+
+interface OpenMeteoForecastResponse {
+  latitude: number
+  longitude: number
+  elevation: number
+  timezone: string
+  hourly: {
+    time: number[] // Unix seconds
+    temperature_2m: Array<number | null> // °C
+    dewpoint_2m: Array<number | null> // °C
+    relative_humidity_2m: Array<number | null> // %
+    wind_speed_10m: Array<number | null> // m/s
+    cloud_cover: Array<number | null> // %
+  }
+  daily: {
+    time: number[] // Unix seconds at local midnight
+    temperature_2m_max: Array<number | null>
+    temperature_2m_min: Array<number | null>
+    relative_humidity_2m_mean: Array<number | null>
+    wind_speed_10m_mean: Array<number | null>
+    shortwave_radiation_sum: Array<number | null> // MJ/m²
+    precipitation_sum: Array<number | null> // mm
+    precipitation_probability_max: Array<number | null> // %
+  }
+}
+
+export class OpenMeteoWeatherProvider implements WeatherProvider {
+  readonly name = 'Open-Meteo'
+  readonly priority = 5
+
+  private readonly baseURL = 'https://api.open-meteo.com/v1'
+
+  private axiosInstance = axios.create({
+    baseURL: this.baseURL,
+    timeout: 10000,
+    headers: {
+      Accept: 'application/json',
+    },
+  })
+
+  isAvailable(): boolean {
+    // Open-Meteo is free for non-commercial use and doesn't require an API key
+    return true
+  }
+
+  covers(): boolean {
+    // Global model coverage
+    return true
+  }
+
+  async getProcessedWeatherData(location: Location): Promise<ProcessedWeatherData> {
+    const [today] = await this.getDailyForecastSeries(location, 1)
+    return today
+  }
+
+  async getDailyForecastSeries(
+    location: Location,
+    days: number = 7,
+  ): Promise<ProcessedWeatherData[]> {
+    const params = {
+      latitude: location.latitude.toFixed(4),
+      longitude: location.longitude.toFixed(4),
+      hourly: 'temperature_2m,dewpoint_2m,relative_humidity_2m,wind_speed_10m,cloud_cover',
+      daily:
+        'temperature_2m_max,temperature_2m_min,relative_humidity_2m_mean,wind_speed_10m_mean,shortwave_radiation_sum,precipitation_sum,precipitation_probability_max',
+      timezone: 'auto',
+      forecast_days: days,
+      wind_speed_unit: 'ms',
+      timeformat: 'unixtime',
+    }
+    const forecastUrl = `${this.baseURL}/forecast?${new URLSearchParams(
+      Object.entries(params).map(([key, value]) => [key, String(value)]),
+    )}`
+
+    try {
+      const response = await this.axiosInstance.get<OpenMeteoForecastResponse>('/forecast', {
+        params,
+      })
+      const data = response.data
+      if (!data?.daily?.time?.length) {
+        throw new Error('No forecast data available')
+      }
+
+      const hourly = this.buildHourlySeries(data)
+      const fetchedAt = new Date().toISOString()
+      const series: ProcessedWeatherData[] = []
+
+      data.daily.time.forEach((time, i) => {
+        const maxTemp = data.daily.temperature_2m_max[i]
+        const minTemp = data.daily.temperature_2m_min[i]
+        if (maxTemp === null || minTemp === null) return
+
+        const dayStart = new Date(time * 1000).toISOString()
+        const date = localDateHour(new Date(time * 1000), data.timezone).date
+        const humidity = data.daily.relative_humidity_2m_mean[i]
+        const wind10m = data.daily.wind_speed_10m_mean[i]
+        const wind = wind10m === null ? null : windSpeedAt2m(wind10m, WIND_MEASUREMENT_HEIGHT)
+        const radiation = data.daily.shortwave_radiation_sum[i]
+        const precipitation = data.daily.precipitation_sum[i]
+        const probability = data.daily.precipitation_probability_max[i]
+        const source = (value: number, period: string, valueCelsius?: number) => ({
+          value,
+          valueCelsius,
+          date: dayStart,
+          source: 'Open-Meteo Forecast',
+          period,
+          url: forecastUrl,
+        })
+
+        const relativeHumidity =
+          humidity ?? estimateHumidity(maxTemp, minTemp, location.aridity).relativeHumidity
+        const estimateLabel = humidityEstimateLabel(location.aridity)
+        const humiditySources: WeatherDataSource[] =
+          humidity !== null
+            ? [source(humidity, 'Daily mean')]
+            : [
+                {
+                  value: relativeHumidity,
+                  date: dayStart,
+                  source: `Estimated from Tmin (FAO-56 eq. 48, ${estimateLabel})`,
+                  period: 'Daily',
+                  url: forecastUrl,
+                },
+              ]
+        const filledValues: FilledValue[] = []
+        if (humidity === null) {
+          filledValues.push({
+            variable: 'relativeHumidity',
+            value: relativeHumidity,
+            flag: 'estimated',
+            reason: `No forecast relative humidity for ${date}; ${estimateLabel}`,
+          })
+        }
+        if (wind === null) {
+          filledValues.push({
+            variable: 'windSpeed',
+            value: DEFAULT_WIND_SPEED,
+            flag: 'defaulted',
+            reason: `No forecast wind speed for ${date}; FAO-56 global average`,
+          })
+        }
+
+        series.push({
+          date,
+          maxTemperature: maxTemp,
+          minTemperature: minTemp,
+          relativeHumidity,
+          windSpeed: wind ?? DEFAULT_WIND_SPEED,
+          windMeasurementHeight: wind !== null ? WIND_MEASUREMENT_HEIGHT : undefined,
+          solarRadiation: radiation ?? undefined,
+          precipitation: precipitation ?? undefined,
+          precipitationProbability: probability ?? undefined,
+          station: {
+            id: `open-meteo:${data.latitude.toFixed(2)},${data.longitude.toFixed(2)}`,
+            name: `Open-Meteo Grid (${data.latitude.toFixed(2)}, ${data.longitude.toFixed(2)})`,
+            latitude: location.latitude,
+            longitude: location.longitude,
+            elevation: data.elevation,
+            timeZone: data.timezone,
+          },
+          timestamp: fetchedAt,
+          hourly: hourly.filter(
+            (hour) => localDateHour(new Date(hour.time), data.timezone).date === date,
+          ),
+          sourceData: {
+            temperatures: [
+              source((maxTemp * 9) / 5 + 32, 'Daily maximum', maxTemp), // Fahrenheit for display
+              source((minTemp * 9) / 5 + 32, 'Daily minimum', minTemp),
+            ],
+            humidity: humiditySources,
+            windSpeed:
+              wind !== null
+                ? [
+                    {
+                      ...source(wind, `Daily mean at 2 m (from ${WIND_MEASUREMENT_HEIGHT} m)`),
+                      measurementHeight: WIND_MEASUREMENT_HEIGHT,
+                    },
+                  ]
+                : [
+                    {
+                      value: DEFAULT_WIND_SPEED,
+                      date: dayStart,
+                      source: `Default Value (${DEFAULT_WIND_SPEED} m/s)`,
+                      period: 'Current',
+                      url: forecastUrl,
+                    },
+                  ],
+            precipitation: precipitation !== null ? [source(precipitation, 'Daily total')] : [],
+            forecastDate: dayStart,
+            provider: this.name,
+            forecastUrl,
+            retrievedAt: fetchedAt,
+            filledValues,
+          },
+        })
+      })
+
+      if (series.length === 0) {
+        throw new Error('No forecast data available')
+      }
+      return series
+    } catch (error) {
+      console.error('Open-Meteo weather error:', error)
+      throw new Error(
+        `Failed to get weather data from Open-Meteo: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      )
+    }
+  }
+
+  /**
+   * Convert the hourly arrays into hourly records for hourly ET₀
+   */
+  private buildHourlySeries(data: OpenMeteoForecastResponse): HourlyWeatherPoint[] {
+    const hours: HourlyWeatherPoint[] = []
+
+    data.hourly.time.forEach((time, i) => {
+      const temperature = data.hourly.temperature_2m[i]
+      const windSpeed = data.hourly.wind_speed_10m[i]
+      const skyCover = data.hourly.cloud_cover[i]
+      const dewpoint = data.hourly.dewpoint_2m[i]
+      const relativeHumidity = data.hourly.relative_humidity_2m[i]
+      if (temperature === null || windSpeed === null || skyCover === null) return
+      if (dewpoint === null && relativeHumidity === null) return
+
+      hours.push({
+        time: new Date(time * 1000).toISOString(),
+        temperature,
+        dewpoint: dewpoint ?? undefined,
+        relativeHumidity: relativeHumidity ?? undefined,
+        windSpeed: windSpeedAt2m(windSpeed, WIND_MEASUREMENT_HEIGHT),
+        skyCover,
+      })
+    })
+    return hours
+  }
+}
@@ -1,5 +1,6 @@
 import type { GeocodeResult } from '@/types/geocoding'
 import type { GeocodingProvider } from '../geocodingService'
+import { API_USER_AGENT, NOMINATIM_API_URL } from '@/services/apiConfig'
 
 interface NominatimResult {
   lat: string
@@ -21,8 +22,7 @@ export class OpenStreetMapProvider implements GeocodingProvider {
   readonly name = 'OpenStreetMap (Nominatim)'
   readonly priority = 5
   
-  private readonly nominatimBaseURL = 'https://nominatim.openstreetmap.org'
-  private readonly userAgent = 'PME-POC Weather App (contact@example.com)'
+  private readonly nominatimBaseURL = NOMINATIM_API_URL
 
   isAvailable(): boolean {
     // OpenStreetMap is always available as it's free and doesn't require an API key
@@ -30,10 +30,11 @@ export class OpenStreetMapProvider implements GeocodingProvider {
   }
 
   private async makeRequest<T>(url: string): Promise<T> {
+    // Browsers can't set User-Agent; there the proxy (VITE_API_PROXY_URL) identifies the app
     const response = await fetch(url, {
       headers: {
-        'User-Agent': this.userAgent,
-        'Accept': 'application/json'
+        'Accept': 'application/json',
+        ...(typeof window === 'undefined' && { 'User-Agent': API_USER_AGENT })
       }
     })
 
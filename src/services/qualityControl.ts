@@ -0,0 +1,116 @@
+import type {
+  ProcessedWeatherData,
+  QualityFlag,
+  QualityVariable,
+  WeatherQuality,
+} from '@/types/weather'
+import { saturationVaporPressure } from '@/services/calculations/penmanMonteith'
+import {
+  clearSkyRadiation,
+  dayOfYear,
+  extraterrestrialRadiation,
+} from '@/services/calculations/radiation'
+
+// Plausible ranges of daily values (ASCE-EWRI 2005 Appendix D)
+const TEMPERATURE_RANGE: [number, number] = [-50, 60] // °C
+const MAX_WIND_SPEED = 20 // m/s, daily mean
+// Dewpoint rarely exceeds Tmin by more than 2 °C; more points to an RH sensor reading high
+const DEWPOINT_ABOVE_TMIN = 2 // °C
+
+/**
+ * Dewpoint from actual vapour pressure, inverting FAO-56 eq. 11
+ * @param vaporPressure - ea in kPa
+ * @returns Tdew in °C
+ */
+export function dewpointFromVaporPressure(vaporPressure: number): number {
+  const x = Math.log(vaporPressure / 0.6108)
+  return (237.3 * x) / (17.27 - x)
+}
+
+/**
+ * Quality flags of the daily inputs: where each comes from (measured, forecast, estimated or
+ * defaulted), or suspect when it fails an ASCE-EWRI Appendix D integrity check
+ *
+ * Checks RH within 0-100 %, Tdew ≤ Tmin + 2 °C, Rs ≤ Rso, Tmax ≥ Tmin with both in range, daily
+ * mean wind within 0-20 m/s and a non-zero elevation. A reported 0 m is more often a placeholder
+ * than a site at sea level, so it is flagged for review; a 0 m the provider filled in for a
+ * missing elevation is flagged as defaulted instead.
+ */
+export function assessWeatherQuality(data: ProcessedWeatherData): WeatherQuality {
+  const source: QualityFlag =
+    data.mode === 'observed' || data.mode === 'imported' ? 'measured' : 'forecast'
+  const quality: WeatherQuality = {
+    maxTemperature: { flag: source },
+    minTemperature: { flag: source },
+    relativeHumidity: { flag: source },
+    windSpeed: { flag: source },
+    elevation: { flag: 'measured' },
+    solarRadiation:
+      data.solarRadiation === undefined
+        ? { flag: 'estimated', note: 'Not reported; estimated from the temperature range' }
+        : { flag: source },
+  }
+  if (data.dewpoint !== undefined) quality.dewpoint = { flag: source }
+
+  const suspect = (variable: QualityVariable, note: string) => {
+    quality[variable] = { flag: 'suspect', note }
+  }
+
+  const { maxTemperature: tmax, minTemperature: tmin } = data
+  const [lowest, highest] = TEMPERATURE_RANGE
+  if (tmax < lowest || tmax > highest) suspect('maxTemperature', `Outside ${lowest}-${highest} °C`)
+  if (tmin < lowest || tmin > highest) suspect('minTemperature', `Outside ${lowest}-${highest} °C`)
+  if (tmax < tmin) suspect('maxTemperature', 'Maximum below minimum temperature')
+
+  const humidities = [data.relativeHumidity, data.maxRelativeHumidity, data.minRelativeHumidity]
+  if (humidities.some((rh) => rh !== undefined && (rh < 0 || rh > 100))) {
+    suspect('relativeHumidity', 'Outside 0-100 %')
+  } else {
+    // Reported dewpoint, or the one implied by the mean RH (FAO-56 eq. 19)
+    const dewpoint =
+      data.dewpoint ??
+      dewpointFromVaporPressure(
+        ((data.relativeHumidity / 100) *
+          (saturationVaporPressure(tmax) + saturationVaporPressure(tmin))) /
+          2,
+      )
+    if (data.relativeHumidity > 0 && dewpoint > tmin + DEWPOINT_ABOVE_TMIN) {
+      suspect(
+        data.dewpoint !== undefined ? 'dewpoint' : 'relativeHumidity',
+        `Dewpoint ${dewpoint.toFixed(1)} °C exceeds Tmin + ${DEWPOINT_ABOVE_TMIN} °C`,
+      )
+    }
+  }
+
+  if (data.windSpeed < 0 || data.windSpeed > MAX_WIND_SPEED) {
+    suspect('windSpeed', `Daily mean outside 0-${MAX_WIND_SPEED} m/s`)
+  }
+
+  if (data.solarRadiation !== undefined) {
+    const date = data.date ?? data.timestamp.slice(0, 10)
+    const rso = clearSkyRadiation(
+      extraterrestrialRadiation(data.station.latitude, dayOfYear(date)),
+      data.station.elevation,
+    )
+    if (data.solarRadiation > rso) {
+      suspect('solarRadiation', `Exceeds clear-sky radiation Rso of ${rso.toFixed(1)} MJ/m²/day`)
+    }
+  }
+
+  if (data.station.elevation === 0) {
+    suspect('elevation', 'Reported as 0 m, right only for a site at sea level')
+  }
+
+  // Estimates and defaults are flagged as such even when they also fail a check
+  for (const { variable, flag, reason } of data.sourceData?.filledValues ?? []) {
+    quality[variable] = { flag, note: reason }
+  }
+  return quality
+}
+
+/**
+ * Daily weather with its quality flags attached
+ */
+export function withQualityFlags(data: ProcessedWeatherData): ProcessedWeatherData {
+  return { ...data, quality: assessWeatherQuality(data) }
+}
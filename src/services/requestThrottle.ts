@@ -0,0 +1,45 @@
+// Schedules a request and resolves or rejects with its result
+export type Throttle = <T>(request: () => Promise<T>) => Promise<T>
+
+/**
+ * Limit how many requests run at once and how quickly they start, in call order
+ * @param concurrency - Maximum number of requests in flight
+ * @param minInterval - Minimum time between request starts in ms
+ */
+export function createThrottle(concurrency: number, minInterval: number = 0): Throttle {
+  const queue: Array<() => void> = []
+  let active = 0
+  let lastStart = -Infinity
+  let timer: ReturnType<typeof setTimeout> | null = null
+
+  const next = () => {
+    if (timer !== null || active >= concurrency || queue.length === 0) return
+
+    const wait = lastStart + minInterval - Date.now()
+    if (wait > 0) {
+      timer = setTimeout(() => {
+        timer = null
+        next()
+      }, wait)
+      return
+    }
+
+    active += 1
+    lastStart = Date.now()
+    queue.shift()!()
+    next()
+  }
+
+  return <T>(request: () => Promise<T>) =>
+    new Promise<T>((resolve, reject) => {
+      queue.push(() => {
+        request()
+          .then(resolve, reject)
+          .finally(() => {
+            active -= 1
+            next()
+          })
+      })
+      next()
+    })
+}
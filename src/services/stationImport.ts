@@ -0,0 +1,608 @@
+import type {
+  ColumnMapping,
+  StationDataset,
+  StationDay,
+  StationRecord,
+  StationTable,
+  StationUnits,
+  StationVariable,
+} from '@/types/stationData'
+import type {
+  FilledValue,
+  Location,
+  ProcessedWeatherData,
+  WeatherDataSource,
+} from '@/types/weather'
+import { parseCsv } from '@/services/csv'
+import { windSpeedAt2m } from '@/services/calculations/penmanMonteith'
+import {
+  DEFAULT_WIND_SPEED,
+  estimateHumidity,
+  humidityEstimateLabel,
+} from '@/services/calculations/missingData'
+import { localDateHour } from '@/services/gridpointParser'
+import { withQualityFlags } from '@/services/qualityControl'
+
+const MINUTE_MS = 60 * 1000
+const DAY_MS = 24 * 60 * MINUTE_MS
+// MJ/m²/day of a constant irradiance of 1 W/m²
+const MJ_PER_DAY_PER_WATT = 0.0864
+// Tmax and Tmin of a day logged less than this are likely to miss the extremes
+const MIN_DAY_COVERAGE = 0.9
+// Header rows are found among the first rows of the file
+const HEADER_SEARCH_ROWS = 10
+// Cells loggers write for missing values, besides empty cells
+const MISSING_VALUES = new Set(['nan', 'na', 'n/a', '---', '--', '-', 'null'])
+
+// Column name patterns of each variable in Davis, Campbell and Onset exports, in matching order
+const COLUMN_PATTERNS: Array<[StationVariable, RegExp, RegExp?]> = [
+  ['timestamp', /timestamp|date/],
+  ['time', /^time\b/],
+  [
+    'maxTemperature',
+    /(temp|air).*(hi|high|max)\b|\b(hi|high|max).*temp/,
+    /dew|soil|leaf|in ?temp|inside/,
+  ],
+  [
+    'minTemperature',
+    /(temp|air).*(lo|low|min)\b|\b(lo|low|min).*temp/,
+    /dew|soil|leaf|in ?temp|inside/,
+  ],
+  [
+    'temperature',
+    /temp|airt|^t_?air/,
+    /dew|soil|leaf|in ?temp|inside|heat|chill|thw|panel|ptemp|batt|wet/,
+  ],
+  ['relativeHumidity', /\brh\b|rh_|humid|\bhum\b/, /in ?hum|inside|leaf|soil/],
+  ['dewpoint', /dew/],
+  [
+    'windSpeed',
+    /wind ?speed|wspd|^ws\b|^ws_|wind.*(avg|mean)|^wind$/,
+    /dir|gust|hi\b|max|run|chill/,
+  ],
+  ['solarRadiation', /solar|srad|slr|radiation|pyran|^rs\b/, /energy|hi\b|max|uv/],
+  ['precipitation', /rain|precip|ppt/, /rate/],
+]
+
+/**
+ * Read a logger export: CSV with one header row, possibly after title rows (Onset HOBOware)
+ * and followed by unit rows (Campbell TOA5), or JSON as an array of records
+ * @throws Error when the file has no header and data rows
+ */
+export function readStationFile(text: string, fileName: string = ''): StationTable {
+  const table =
+    /\.json$/i.test(fileName) || /^\s*[[{]/.test(text) ? readJson(text) : readCsvExport(text)
+  if (table.columns.length < 2 || table.rows.length === 0) {
+    throw new Error('The file has no header row and data rows')
+  }
+  return table
+}
+
+function readJson(text: string): StationTable {
+  let data: unknown = JSON.parse(text)
+  // Exports wrap the records in an object, e.g. { "data": [...] }
+  if (data && typeof data === 'object' && !Array.isArray(data)) {
+    data = Object.values(data).find((value) => Array.isArray(value)) ?? []
+  }
+  const records = (data as unknown[]).filter(
+    (record): record is Record<string, unknown> =>
+      !!record && typeof record === 'object' && !Array.isArray(record),
+  )
+
+  const columns = [...new Set(records.flatMap((record) => Object.keys(record)))]
+  const rows = records.map((record) =>
+    Object.fromEntries(
+      columns.map((column) => [column, record[column] == null ? '' : String(record[column])]),
+    ),
+  )
+  return { columns, units: {}, rows }
+}
+
+function readCsvExport(text: string): StationTable {
+  // Davis WeatherLink exports are tab-separated
+  const firstLine = text.split('\n', 1)[0]
+  const csv = parseCsv(text, firstLine.includes('\t') && !firstLine.includes(',') ? '\t' : ',')
+  const isNumber = (cell: string) => cell.trim() !== '' && Number.isFinite(Number(cell))
+  const filled = (row: string[]) => row.filter((cell) => cell.trim() !== '').length
+
+  // The header is the first row of text about as wide as the first rows, which skips title rows
+  // (Onset HOBOware); Campbell TOA5 files start with a file information row of their own
+  const widest = Math.max(0, ...csv.slice(0, HEADER_SEARCH_ROWS).map(filled))
+  let headerIndex = csv
+    .slice(0, HEADER_SEARCH_ROWS)
+    .findIndex((row) => filled(row) >= Math.max(2, widest / 2) && !row.some(isNumber))
+  if (csv[0]?.[0]?.trim() === 'TOA5') headerIndex = 1
+  if (headerIndex < 0) throw new Error('The file has no header row')
+
+  // Davis splits names over two rows, e.g. 'Hi' above 'Temp'; the top row leaves gaps
+  let names = csv[headerIndex]
+  const below = csv[headerIndex + 1] ?? []
+  if (
+    names.some((cell) => !cell.trim()) &&
+    !below.some(isNumber) &&
+    filled(below) > filled(names)
+  ) {
+    names = below.map((cell, i) => `${names[i]?.trim() ?? ''} ${cell.trim()}`.trim())
+    headerIndex += 1
+  }
+
+  // Names are made unique so that every column can be mapped
+  const columns: string[] = []
+  names.forEach((cell, i) => {
+    const name = cell.trim() || `Column ${i + 1}`
+    let unique = name
+    for (let n = 2; columns.includes(unique); n++) unique = `${name} (${n})`
+    columns.push(unique)
+  })
+
+  // Rows without numbers under the header hold units and processing (TOA5)
+  let first = headerIndex + 1
+  const units: Record<string, string> = {}
+  while (first < csv.length && !csv[first].some(isNumber)) {
+    if (first === headerIndex + 1) {
+      columns.forEach((column, i) => (units[column] = csv[first][i]?.trim() ?? ''))
+    }
+    first++
+  }
+
+  const rows = csv
+    .slice(first)
+    .map((row) => Object.fromEntries(columns.map((column, i) => [column, row[i]?.trim() ?? ''])))
+  return { columns, units, rows }
+}
+
+/**
+ * Columns of a logger export that likely hold each variable, from their names
+ */
+export function suggestMapping(table: StationTable): ColumnMapping {
+  const mapping: ColumnMapping = {}
+  const taken = new Set<string>()
+
+  for (const [variable, pattern, exclude] of COLUMN_PATTERNS) {
+    const column = table.columns.find((name) => {
+      const text = name.toLowerCase()
+      return !taken.has(name) && pattern.test(text) && !exclude?.test(text)
+    })
+    if (column) {
+      mapping[variable] = column
+      taken.add(column)
+    }
+  }
+  // A time column only goes with a date column that has no time of its own
+  if (mapping.time && mapping.timestamp && /\d:\d\d/.test(table.rows[0]?.[mapping.timestamp])) {
+    delete mapping.time
+  }
+  return mapping
+}
+
+/**
+ * Units of the mapped columns from their names and unit rows, or else from their values
+ */
+export function detectUnits(table: StationTable, mapping: ColumnMapping): StationUnits {
+  const describe = (variable: StationVariable) => {
+    const column = mapping[variable]
+    return column ? `${column} ${table.units[column] ?? ''}`.toLowerCase() : ''
+  }
+  const largest = (variable: StationVariable) => {
+    const column = mapping[variable]
+    // Exports run to many thousand rows, too many to spread into Math.max
+    return column
+      ? table.rows.reduce(
+          (max, row) => Math.max(max, parseValue(row[column]) ?? -Infinity),
+          -Infinity,
+        )
+      : -Infinity
+  }
+
+  const temperatureText = [
+    describe('temperature'),
+    describe('maxTemperature'),
+    describe('minTemperature'),
+  ].join(' ')
+  let temperature: StationUnits['temperature']
+  if (/°f|deg ?f|\(f\)|\*f|fahrenheit/.test(temperatureText)) temperature = 'F'
+  else if (/°c|deg ?c|\(c\)|\*c|celsius/.test(temperatureText)) temperature = 'C'
+  else {
+    // Air temperatures above 50 °C don't happen, above 50 °F they are common
+    const warmest = Math.max(largest('temperature'), largest('maxTemperature'))
+    temperature = warmest > 50 ? 'F' : 'C'
+  }
+  // Exports in °F are in US customary units throughout
+  const customary = temperature === 'F'
+
+  const wind = describe('windSpeed')
+  const windSpeed: StationUnits['windSpeed'] = /mph|mi\/h|miles/.test(wind)
+    ? 'mph'
+    : /km\/h|kph|kmh|km h/.test(wind)
+      ? 'km/h'
+      : /m\/s|m s-1|mps|meters/.test(wind)
+        ? 'm/s'
+        : customary
+          ? 'mph'
+          : 'm/s'
+
+  const radiation = describe('solarRadiation')
+  const solarRadiation: StationUnits['solarRadiation'] = /mj/.test(radiation)
+    ? 'MJ/m2/day'
+    : /w\/m|w m-2|wm-2|w\/m²/.test(radiation)
+      ? 'W/m2'
+      : largest('solarRadiation') > 50 // daily totals stay below about 35 MJ/m²
+        ? 'W/m2'
+        : 'MJ/m2/day'
+
+  const rain = describe('precipitation')
+  const precipitation: StationUnits['precipitation'] = /mm/.test(rain)
+    ? 'mm'
+    : /\bin\b|inch|\(in\)/.test(rain) || customary
+      ? 'in'
+      : 'mm'
+
+  return { temperature, windSpeed, solarRadiation, precipitation }
+}
+
+/**
+ * Time zone of a logger clock that a timestamp column names, e.g. 'Date Time, GMT-07:00' in
+ * Onset HOBOware exports
+ * @returns A fixed-offset IANA time zone, or undefined when the column names none
+ */
+export function suggestTimeZone(mapping: ColumnMapping): string | undefined {
+  const match = /(?:gmt|utc)\s*([+-])(\d{1,2})(?::?(\d\d))?/i.exec(mapping.timestamp ?? '')
+  if (!match) return /\b(gmt|utc)\b/i.test(mapping.timestamp ?? '') ? 'UTC' : undefined
+  // Etc/GMT zones have whole hours only, with the sign reversed
+  if (match[3] && match[3] !== '00') return undefined
+  const hours = Number(match[2])
+  return hours === 0 ? 'UTC' : `Etc/GMT${match[1] === '-' ? '+' : '-'}${hours}`
+}
+
+function parseValue(cell: string | undefined): number | undefined {
+  const text = cell?.trim() ?? ''
+  if (text === '' || MISSING_VALUES.has(text.toLowerCase())) return undefined
+  const value = Number(text)
+  return Number.isFinite(value) ? value : undefined
+}
+
+// Formatters are comparatively expensive to create, so keep one per time zone
+const formatters = new Map<string, Intl.DateTimeFormat>()
+
+/**
+ * UTC time of a wall clock time in a time zone
+ */
+function zonedTimeToUtc(parts: number[], timeZone: string): number {
+  let formatter = formatters.get(timeZone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    })
+    formatters.set(timeZone, formatter)
+  }
+  const offset = (time: number) => {
+    const local = Object.fromEntries(
+      formatter.formatToParts(time).map(({ type, value }) => [type, Number(value)]),
+    )
+    const { year, month, day, hour, minute, second } = local
+    return Date.UTC(year, month - 1, day, hour, minute, second) - time
+  }
+
+  const [year, month, day, hour = 0, minute = 0, second = 0] = parts
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute, second)
+  // The second pass settles times next to a daylight saving time change
+  const first = wallClock - offset(wallClock)
+  return wallClock - offset(first)
+}
+
+/**
+ * Time of a logger timestamp: ISO-8601, YYYY-MM-DD or M/D/YY(YY) dates with an optional 12 or 24
+ * hour time (Davis writes '2:30 p'), or Unix seconds
+ * @param timeZone - IANA time zone of the logger clock, for timestamps without an offset
+ * @returns The time, with the date for timestamps without a time of day, or null when unreadable
+ */
+export function parseTimestamp(
+  text: string,
+  timeZone: string,
+): { time: number; date?: string } | null {
+  const value = text.trim()
+  if (/^\d{9,13}$/.test(value)) {
+    return { time: value.length > 10 ? Number(value) : Number(value) * 1000 }
+  }
+  if (/^\d{4}-\d\d-\d\dT.*(Z|[+-]\d\d:?\d\d)$/i.test(value)) {
+    const time = Date.parse(value)
+    return Number.isNaN(time) ? null : { time }
+  }
+
+  const match =
+    /^(?:(\d{4})[-/](\d{1,2})[-/](\d{1,2})|(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4}))(?:[ T]+(\d{1,2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?\s*([ap])?\.?m?\.?)?$/i.exec(
+      value,
+    )
+  if (!match) return null
+
+  const year = match[1] ? Number(match[1]) : Number(match[6]) + (match[6].length === 2 ? 2000 : 0)
+  const month = Number(match[2] ?? match[4])
+  const day = Number(match[3] ?? match[5])
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null
+
+  const date = `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`
+  if (match[7] === undefined) return { time: Date.UTC(year, month - 1, day), date }
+
+  let hour = Number(match[7])
+  const meridiem = match[10]?.toLowerCase()
+  if (meridiem) hour = (hour % 12) + (meridiem === 'p' ? 12 : 0)
+  const parts = [year, month, day, hour, Number(match[8]), Number(match[9] ?? 0)]
+  return { time: zonedTimeToUtc(parts, timeZone) }
+}
+
+/**
+ * Convert the rows of a logger export to records in metric units
+ * @param timeZone - IANA time zone of the logger clock
+ * @returns Records in time order, and the number of rows without a timestamp or a temperature
+ */
+export function convertRecords(
+  table: StationTable,
+  mapping: ColumnMapping,
+  units: StationUnits,
+  timeZone: string,
+): { records: StationRecord[]; skippedRows: number } {
+  const temperature = (value: number) =>
+    units.temperature === 'F' ? ((value - 32) * 5) / 9 : value
+  const wind = { 'm/s': 1, mph: 0.44704, 'km/h': 1 / 3.6 }[units.windSpeed]
+  const radiation = units.solarRadiation === 'MJ/m2/day' ? 1 / MJ_PER_DAY_PER_WATT : 1
+  const rain = units.precipitation === 'in' ? 25.4 : 1
+
+  const records: StationRecord[] = []
+  let skippedRows = 0
+  for (const row of table.rows) {
+    const value = (variable: StationVariable, convert: (value: number) => number) => {
+      const number = mapping[variable] ? parseValue(row[mapping[variable]]) : undefined
+      return number === undefined ? undefined : convert(number)
+    }
+    const stamp = mapping.timestamp
+      ? parseTimestamp(
+          mapping.time ? `${row[mapping.timestamp]} ${row[mapping.time]}` : row[mapping.timestamp],
+          timeZone,
+        )
+      : null
+
+    const record: StationRecord = {
+      time: stamp?.time ?? NaN,
+      date: stamp?.date,
+      temperature: value('temperature', temperature),
+      maxTemperature: value('maxTemperature', temperature),
+      minTemperature: value('minTemperature', temperature),
+      relativeHumidity: value('relativeHumidity', (rh) => Math.min(100, rh)),
+      dewpoint: value('dewpoint', temperature),
+      windSpeed: value('windSpeed', (speed) => speed * wind),
+      solarRadiation: value('solarRadiation', (rs) => Math.max(0, rs * radiation)),
+      precipitation: value('precipitation', (amount) => amount * rain),
+    }
+    const hasTemperature = [record.temperature, record.maxTemperature, record.minTemperature].some(
+      (value) => value !== undefined,
+    )
+    if (!stamp || !hasTemperature) {
+      skippedRows += 1
+      continue
+    }
+    records.push(record)
+  }
+
+  records.sort((a, b) => a.time - b.time)
+  return { records, skippedRows }
+}
+
+const mean = (values: number[]) =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : undefined
+
+/**
+ * Aggregate records to daily FAO-56 inputs: Tmax and Tmin, RHmax, RHmin and mean RH, mean
+ * dewpoint and wind speed, Rs from the mean irradiance and the precipitation total
+ *
+ * Timestamps mark the end of each logging interval, as Davis, Campbell and Onset loggers write
+ * them, so a record at midnight belongs to the day before.
+ * @param timeZone - IANA time zone of the station's days
+ * @param source - File the records come from
+ * @returns Days with a temperature, in date order
+ */
+export function aggregateDays(
+  records: StationRecord[],
+  timeZone: string,
+  source: string,
+): StationDay[] {
+  // The logging interval is the most common spacing of the records
+  const spacings = new Map<number, number>()
+  const subDaily = records.filter((record) => record.date === undefined)
+  for (let i = 1; i < subDaily.length; i++) {
+    const spacing = subDaily[i].time - subDaily[i - 1].time
+    if (spacing > 0 && spacing < DAY_MS) spacings.set(spacing, (spacings.get(spacing) ?? 0) + 1)
+  }
+  const interval = [...spacings.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? 60 * MINUTE_MS
+
+  const groups = new Map<string, StationRecord[]>()
+  for (const record of records) {
+    const date = record.date ?? localDateHour(new Date(record.time - 1), timeZone).date
+    const group = groups.get(date)
+    if (group) group.push(record)
+    else groups.set(date, [record])
+  }
+
+  const days: StationDay[] = []
+  for (const [date, group] of groups) {
+    const values = (variable: keyof StationRecord) =>
+      group.map((record) => record[variable]).filter((value) => typeof value === 'number')
+    const highs = [...values('maxTemperature'), ...values('temperature')]
+    const lows = [...values('minTemperature'), ...values('temperature')]
+    if (highs.length === 0 || lows.length === 0) continue
+
+    const humidities = values('relativeHumidity')
+    const daily = group.every((record) => record.date !== undefined)
+    // Single daily humidity values are means, not extremes
+    const humidityRange = daily
+      ? {}
+      : {
+          maxRelativeHumidity: humidities.length > 0 ? Math.max(...humidities) : undefined,
+          minRelativeHumidity: humidities.length > 0 ? Math.min(...humidities) : undefined,
+        }
+    const irradiance = mean(values('solarRadiation'))
+    const precipitation = values('precipitation')
+
+    days.push({
+      date,
+      maxTemperature: Math.max(...highs),
+      minTemperature: Math.min(...lows),
+      relativeHumidity: mean(humidities),
+      ...humidityRange,
+      dewpoint: mean(values('dewpoint')),
+      // Calm intervals are logged as 0 and belong in the mean
+      windSpeed: mean(values('windSpeed')),
+      solarRadiation: irradiance === undefined ? undefined : irradiance * MJ_PER_DAY_PER_WATT,
+      precipitation:
+        precipitation.length > 0 ? precipitation.reduce((sum, value) => sum + value) : undefined,
+      recordCount: group.length,
+      coverage: daily ? 1 : Math.min(1, (group.length * interval) / DAY_MS),
+      source,
+    })
+  }
+
+  return days.sort((a, b) => a.date.localeCompare(b.date))
+}
+
+/**
+ * Days of an earlier import updated with a new one, whose days replace those of the same date
+ */
+export function mergeStationDays(existing: StationDay[], imported: StationDay[]): StationDay[] {
+  const byDate = new Map(existing.map((day) => [day.date, day]))
+  for (const day of imported) byDate.set(day.date, day)
+  return [...byDate.values()].sort((a, b) => a.date.localeCompare(b.date))
+}
+
+/**
+ * Daily weather of an imported station day for the calculator, with the station's records as
+ * its provenance; humidity and wind the station didn't log are estimated or defaulted as for
+ * the weather providers
+ * @param location - Field location, with the climate for estimating missing humidity
+ */
+export function stationWeatherData(
+  dataset: StationDataset,
+  day: StationDay,
+  location: Location,
+): ProcessedWeatherData {
+  const { date, maxTemperature, minTemperature } = day
+  const dayStart = new Date(
+    zonedTimeToUtc(date.split('-').map(Number), dataset.timeZone),
+  ).toISOString()
+  const records = day.recordCount === 1 ? 'Daily record' : `${day.recordCount} records`
+  const source = (value: number, period: string, valueCelsius?: number): WeatherDataSource => ({
+    value,
+    valueCelsius,
+    date: dayStart,
+    source: `${dataset.stationName} (${day.source})`,
+    period,
+  })
+
+  const estimateLabel = humidityEstimateLabel(location.aridity)
+  const relativeHumidity =
+    day.relativeHumidity ??
+    estimateHumidity(maxTemperature, minTemperature, location.aridity).relativeHumidity
+  const windSpeed =
+    day.windSpeed !== undefined ? windSpeedAt2m(day.windSpeed, dataset.windHeight) : undefined
+  const filledValues: FilledValue[] = []
+  if (day.relativeHumidity === undefined) {
+    filledValues.push({
+      variable: 'relativeHumidity',
+      value: relativeHumidity,
+      flag: 'estimated',
+      reason: `No logged relative humidity for ${date}; ${estimateLabel}`,
+    })
+  }
+  if (windSpeed === undefined) {
+    filledValues.push({
+      variable: 'windSpeed',
+      value: DEFAULT_WIND_SPEED,
+      flag: 'defaulted',
+      reason: `No logged wind speed for ${date}; FAO-56 global average`,
+    })
+  }
+  const windPeriod =
+    dataset.windHeight === 2
+      ? `Mean of ${records}`
+      : `Mean of ${records} at 2 m (from ${dataset.windHeight} m)`
+
+  const data = withQualityFlags({
+    date,
+    mode: 'imported',
+    maxTemperature,
+    minTemperature,
+    relativeHumidity,
+    maxRelativeHumidity: day.maxRelativeHumidity,
+    minRelativeHumidity: day.minRelativeHumidity,
+    dewpoint: day.dewpoint,
+    windSpeed: windSpeed ?? DEFAULT_WIND_SPEED,
+    windMeasurementHeight:
+      windSpeed !== undefined && dataset.windHeight !== 2 ? dataset.windHeight : undefined,
+    solarRadiation: day.solarRadiation,
+    precipitation: day.precipitation,
+    station: {
+      id: `farm:${dataset.fieldId}`,
+      name: dataset.stationName,
+      latitude: location.latitude,
+      longitude: location.longitude,
+      elevation: dataset.elevation,
+      timeZone: dataset.timeZone,
+    },
+    timestamp: dayStart,
+    sourceData: {
+      temperatures: [
+        // Fahrenheit for display, as from the weather providers
+        source((maxTemperature * 9) / 5 + 32, `Maximum of ${records}`, maxTemperature),
+        source((minTemperature * 9) / 5 + 32, `Minimum of ${records}`, minTemperature),
+      ],
+      humidity:
+        day.relativeHumidity !== undefined
+          ? [source(day.relativeHumidity, `Mean of ${records}`)]
+          : [
+              {
+                value: relativeHumidity,
+                date: dayStart,
+                source: `Estimated from Tmin (FAO-56 eq. 48, ${estimateLabel})`,
+                period: 'Daily',
+              },
+            ],
+      windSpeed:
+        windSpeed !== undefined
+          ? [
+              dataset.windHeight === 2
+                ? source(windSpeed, windPeriod)
+                : { ...source(windSpeed, windPeriod), measurementHeight: dataset.windHeight },
+            ]
+          : [
+              {
+                value: DEFAULT_WIND_SPEED,
+                date: dayStart,
+                source: `Default Value (${DEFAULT_WIND_SPEED} m/s)`,
+                period: 'Daily',
+              },
+            ],
+      precipitation:
+        day.precipitation !== undefined ? [source(day.precipitation, `Total of ${records}`)] : [],
+      forecastDate: dayStart,
+      provider: 'On-farm station (imported)',
+      hoursAvailable: Math.round(day.coverage * 24),
+      retrievedAt: dataset.updatedAt,
+      filledValues,
+    },
+  })
+
+  // Extremes of a partly logged day may have been missed
+  if (day.coverage < MIN_DAY_COVERAGE && data.quality) {
+    const note = `Only ${Math.round(day.coverage * 100)} % of the day was logged`
+    for (const variable of ['maxTemperature', 'minTemperature'] as const) {
+      if (data.quality[variable]?.flag === 'measured')
+        data.quality[variable] = { flag: 'suspect', note }
+    }
+  }
+  return data
+}
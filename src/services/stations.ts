@@ -0,0 +1,94 @@
+import type {
+  Location,
+  NearbyStation,
+  QuantitativeValue,
+  WeatherStationResponse,
+} from '@/types/weather'
+import { degreesToRadians } from '@/services/calculations/radiation'
+
+const EARTH_RADIUS_KM = 6371
+
+// Weight of elevation difference in the station ranking: 100 m counts like 10 km of distance.
+// Temperature falls roughly 0.65 °C per 100 m, which matters more than modest horizontal offsets.
+const ELEVATION_WEIGHT_KM_PER_M = 0.1
+
+/**
+ * Great-circle distance between two points (haversine formula)
+ * @returns Distance in km
+ */
+export function greatCircleDistance(from: Location, to: Location): number {
+  const dLat = degreesToRadians(to.latitude - from.latitude)
+  const dLon = degreesToRadians(to.longitude - from.longitude)
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(degreesToRadians(from.latitude)) *
+      Math.cos(degreesToRadians(to.latitude)) *
+      Math.sin(dLon / 2) ** 2
+
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)))
+}
+
+/**
+ * Initial bearing of the great-circle route from one point to another
+ * @returns Degrees clockwise from true north, 0-360
+ */
+export function initialBearing(from: Location, to: Location): number {
+  const lat1 = degreesToRadians(from.latitude)
+  const lat2 = degreesToRadians(to.latitude)
+  const dLon = degreesToRadians(to.longitude - from.longitude)
+  const y = Math.sin(dLon) * Math.cos(lat2)
+  const x = Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLon)
+
+  return ((Math.atan2(y, x) * 180) / Math.PI + 360) % 360
+}
+
+/**
+ * Eight-point compass direction of a bearing, e.g. 225 → SW
+ */
+export function compassDirection(bearing: number): string {
+  const directions = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW']
+  return directions[Math.round((((bearing % 360) + 360) % 360) / 45) % 8]
+}
+
+/**
+ * Convert an observationStations feature into a station located relative to the field
+ * @param feature - Station feature from /gridpoints/{wfo}/{x},{y}/stations
+ * @param location - Field location
+ * @param elevation - Field elevation in m
+ */
+export function toNearbyStation(
+  feature: WeatherStationResponse,
+  location: Location,
+  elevation: number,
+): NearbyStation {
+  const [longitude, latitude] = feature.geometry.coordinates
+  // Some stations report no elevation; 0 m stands in for it
+  const reported = feature.properties.elevation as QuantitativeValue | undefined
+  const value = reported?.value ?? undefined
+  const meters = value !== undefined && reported?.unitCode === 'wmoUnit:ft' ? value * 0.3048 : value
+  const stationElevation = meters ?? 0
+
+  return {
+    id: feature.properties.stationIdentifier,
+    name: feature.properties.name,
+    latitude,
+    longitude,
+    elevation: stationElevation,
+    elevationDefaulted: meters === undefined,
+    timeZone: feature.properties.timeZone,
+    distance: greatCircleDistance(location, { latitude, longitude }),
+    bearing: initialBearing(location, { latitude, longitude }),
+    elevationDifference: stationElevation - elevation,
+  }
+}
+
+/**
+ * Rank stations by great-circle distance and elevation difference from the field
+ * @returns Stations ordered best match first
+ */
+export function rankStations(stations: NearbyStation[]): NearbyStation[] {
+  const score = (station: NearbyStation) =>
+    station.distance + Math.abs(station.elevationDifference) * ELEVATION_WEIGHT_KM_PER_M
+
+  return [...stations].sort((a, b) => score(a) - score(b))
+}
@@ -1,469 +1,220 @@
-import axios from 'axios'
 import type {
-  WeatherStationsResponse,
-  WeatherObservationsResponse,
-  ProcessedWeatherData,
   Location,
-  WeatherServiceError,
-  WeatherDataSource,
+  NearbyStation,
+  ProcessedWeatherData,
+  StationDataStatus,
 } from '@/types/weather'
+import type { HargreavesLocation } from '@/types/penmanMonteith'
+import { estimateSolarRadiation } from '@/services/calculations/missingData'
+import { NwsWeatherProvider } from './providers/NwsWeatherProvider'
+import { OpenMeteoWeatherProvider } from './providers/OpenMeteoWeatherProvider'
+import { createThrottle, type Throttle } from './requestThrottle'
+import { withQualityFlags } from './qualityControl'
+
+export interface WeatherService {
+  getProcessedWeatherData(location: Location): Promise<ProcessedWeatherData>
+  getDailyForecastSeries(location: Location, days?: number): Promise<ProcessedWeatherData[]>
+}
 
-class WeatherService {
-  private readonly baseURL = 'https://api.weather.gov'
-  private readonly userAgent = 'PME-POC Weather App (contact@example.com)'
+export interface WeatherProvider extends WeatherService {
+  readonly name: string
+  readonly priority: number
+  isAvailable(): boolean
+  covers(location: Location): boolean
+  // Yesterday's weather from station observations, for providers with an observation network
+  getObservedWeatherData?(location: Location, stationId?: string): Promise<ProcessedWeatherData>
+  findNearbyStations?(
+    location: Location,
+    limit?: number,
+    elevation?: number,
+  ): Promise<NearbyStation[]>
+  getStationStatus?(stationId: string): Promise<StationDataStatus>
+  // Identifier of the forecast grid cell covering a location, for providers with a grid
+  getGridCell?(location: Location): Promise<string>
+}
+
+// Batches spare the weather APIs: two requests in flight, at most four starts per second
+const BATCH_CONCURRENCY = 2
+const BATCH_INTERVAL_MS = 250
 
-  private axiosInstance = axios.create({
-    baseURL: this.baseURL,
-    timeout: 10000,
-    headers: {
-      // User-Agent is not allowed to be set by browsers.
-      // Preferred to pass this if we move to a backend service
-      // 'User-Agent': this.userAgent,
-      Accept: 'application/json',
-    },
-  })
+class WeatherServiceManager implements WeatherService {
+  private providers: WeatherProvider[] = [new NwsWeatherProvider(), new OpenMeteoWeatherProvider()]
 
   constructor() {
-    // Add response interceptor for error handling
-    this.axiosInstance.interceptors.response.use(
-      (response) => response,
-      (error) => {
-        const weatherError: WeatherServiceError = {
-          message: error.message || 'Weather service error',
-          code: error.response?.status?.toString() || 'UNKNOWN',
-          details: error.response?.data,
-        }
-        throw weatherError
-      },
-    )
+    // Sort providers by priority (higher priority first)
+    this.providers.sort((a, b) => b.priority - a.priority)
   }
 
-  /**
-   * Get point metadata for a given location
-   * @param location - Latitude and longitude
-   * @returns Promise with point data including forecast URLs
-   */
-  async getPointData(location: Location): Promise<any> {
-    const lat = location.latitude.toFixed(4)
-    const lon = location.longitude.toFixed(4)
-
-    const response = await this.axiosInstance.get(`/points/${lat},${lon}`)
-    return response.data
+  private getProvidersFor(location: Location): WeatherProvider[] {
+    const providers = this.providers.filter((p) => p.isAvailable() && p.covers(location))
+    if (providers.length === 0) {
+      throw new Error('No weather providers available for this location')
+    }
+    return providers
   }
 
-  /**
-   * Find weather stations near a given location
-   * @param location - Latitude and longitude
-   * @param limit - Maximum number of stations to return
-   * @returns Promise<WeatherStationsResponse>
-   */
-  async findNearbyStations(
-    location: Location,
-    limit: number = 10,
-  ): Promise<WeatherStationsResponse> {
-    const response = await this.axiosInstance.get<WeatherStationsResponse>(`/stations`, {
-      params: {
-        limit,
-      },
-    })
-    return response.data
-  }
+  private async withFallback<T>(
+    providers: WeatherProvider[],
+    operation: string,
+    request: (provider: WeatherProvider) => Promise<T>,
+  ): Promise<T> {
+    let lastError: unknown
+
+    for (const provider of providers) {
+      try {
+        return await request(provider)
+      } catch (error) {
+        console.warn(`${provider.name} failed for ${operation}, trying next provider...`)
+        lastError = error
+      }
+    }
 
-  /**
-   * Get the latest observation from a weather station
-   * @param stationId - Weather station ID
-   * @returns Promise<WeatherObservationsResponse>
-   */
-  async getLatestObservation(stationId: string): Promise<WeatherObservationsResponse> {
-    const response = await this.axiosInstance.get<WeatherObservationsResponse>(
-      `/stations/${stationId}/observations/latest`,
-    )
-    return response.data
+    throw lastError
   }
 
-  /**
-   * Get recent observations from a weather station
-   * @param stationId - Weather station ID
-   * @param limit - Number of observations to retrieve
-   * @returns Promise<WeatherObservationsResponse>
-   */
-  async getRecentObservations(
-    stationId: string,
-    limit: number = 24,
-  ): Promise<WeatherObservationsResponse> {
-    const response = await this.axiosInstance.get<WeatherObservationsResponse>(
-      `/stations/${stationId}/observations`,
-      {
-        params: { limit },
-      },
+  async getProcessedWeatherData(location: Location): Promise<ProcessedWeatherData> {
+    const data = await this.withFallback(
+      this.getProvidersFor(location),
+      'weather data',
+      (provider) => provider.getProcessedWeatherData(location),
     )
-    return response.data
+    return withQualityFlags(data)
   }
 
-  /**
-   * Convert Celsius to Fahrenheit
-   */
-  private celsiusToFahrenheit(celsius: number): number {
-    return (celsius * 9) / 5 + 32
+  async getDailyForecastSeries(
+    location: Location,
+    days: number = 7,
+  ): Promise<ProcessedWeatherData[]> {
+    const series = await this.withFallback(
+      this.getProvidersFor(location),
+      'daily forecast',
+      (provider) => provider.getDailyForecastSeries(location, days),
+    )
+    return series.map(withQualityFlags)
   }
 
   /**
-   * Convert Fahrenheit to Celsius
+   * Daily forecasts for many locations with one request per forecast grid cell
+   *
+   * Locations in the same grid cell share one forecast request, and all requests, including
+   * the grid cell lookups, are throttled.
+   * @param locations - Field locations
+   * @param days - Number of calendar days starting today
+   * @returns Per location, in order, the forecast series or the error that prevented it
    */
-  private fahrenheitToCelsius(fahrenheit: number): number {
-    return ((fahrenheit - 32) * 5) / 9
+  async getDailyForecastBatch(
+    locations: Location[],
+    days: number = 7,
+  ): Promise<Array<ProcessedWeatherData[] | Error>> {
+    const throttle = createThrottle(BATCH_CONCURRENCY, BATCH_INTERVAL_MS)
+    const cells = await Promise.all(
+      locations.map((location) => this.gridCellFor(location, throttle)),
+    )
+    const requests = new Map<string, Promise<ProcessedWeatherData[]>>()
+
+    return Promise.all(
+      locations.map((location, i) => {
+        // The humidity estimate depends on aridity, so only like locations share a forecast
+        const key = `${cells[i]}|${location.aridity ?? 'humid'}`
+        let request = requests.get(key)
+        if (!request) {
+          request = throttle(() => this.getDailyForecastSeries(location, days))
+          requests.set(key, request)
+        }
+        return request.catch((error: unknown) =>
+          error instanceof Error ? error : new Error('Failed to get forecast data'),
+        )
+      }),
+    )
   }
 
   /**
-   * Convert temperature value based on unit code
+   * Grid cell of the first gridded provider for a location; without one, or when the lookup
+   * fails, locations within about 1 km share a cell
    */
-  private convertTemperature(value: number | null, unitCode: string): number | null {
-    if (value === null) return null
-
-    if (unitCode === 'wmoUnit:degF') {
-      return this.fahrenheitToCelsius(value)
+  private async gridCellFor(location: Location, throttle: Throttle): Promise<string> {
+    const fallback = `${location.latitude.toFixed(2)},${location.longitude.toFixed(2)}`
+    try {
+      const provider = this.getProvidersFor(location).find((p) => p.getGridCell)
+      if (!provider) return fallback
+      return `${provider.name}:${await throttle(() => provider.getGridCell!(location))}`
+    } catch {
+      return fallback
     }
-    return value // Already in Celsius
   }
 
-  /**
-   * Convert wind speed to m/s
-   */
-  private convertWindSpeed(value: number | null, unitCode: string): number | null {
-    if (value === null) return null
-
-    if (unitCode === 'wmoUnit:km_h-1') {
-      return value / 3.6 // km/h to m/s
-    }
-    if (unitCode === 'wmoUnit:mi_h-1') {
-      return value * 0.44704 // mph to m/s
+  async getObservedWeatherData(
+    location: Location,
+    stationId?: string,
+  ): Promise<ProcessedWeatherData> {
+    const providers = this.getProvidersFor(location).filter((p) => p.getObservedWeatherData)
+    if (providers.length === 0) {
+      throw new Error('No weather provider has station observations for this location')
     }
-    return value // Already in m/s
+    const data = await this.withFallback(providers, 'station observations', (provider) =>
+      provider.getObservedWeatherData!(location, stationId),
+    )
+    return withQualityFlags(data)
   }
 
   /**
-   * Convert temperature from grid data format
+   * Observation stations near a location from the first provider with a station network
    */
-  private convertTemperatureFromGrid(value: number | null, uom: string): number | null {
-    if (value === null) return null
-
-    if (uom === 'wmoUnit:degC') {
-      return value
-    }
-    if (uom === 'wmoUnit:degF') {
-      return this.fahrenheitToCelsius(value)
-    }
-    if (uom === 'wmoUnit:K') {
-      return value - 273.15 // Kelvin to Celsius
+  async findNearbyStations(
+    location: Location,
+    limit: number = 10,
+    elevation?: number,
+  ): Promise<NearbyStation[]> {
+    const provider = this.getProvidersFor(location).find((p) => p.findNearbyStations)
+    if (!provider) {
+      throw new Error('No weather provider has observation stations for this location')
     }
-    return value
+    return provider.findNearbyStations!(location, limit, elevation)
   }
 
   /**
-   * Convert wind speed from grid data format
+   * Reporting status of a station from the provider that listed it for the location
    */
-  private convertWindSpeedFromGrid(value: number | null, uom: string): number | null {
-    if (value === null) return null
-
-    if (uom === 'wmoUnit:km_h-1') {
-      return value / 3.6 // km/h to m/s
-    }
-    if (uom === 'wmoUnit:mi_h-1') {
-      return value * 0.44704 // mph to m/s
-    }
-    if (uom === 'wmoUnit:m_s-1') {
-      return value // Already in m/s
+  async getStationStatus(location: Location, stationId: string): Promise<StationDataStatus> {
+    const provider = this.getProvidersFor(location).find((p) => p.getStationStatus)
+    if (!provider) {
+      throw new Error('No weather provider has observation stations for this location')
     }
-    return value
+    return provider.getStationStatus!(stationId)
   }
 
   /**
-   * Calculate relative humidity from temperature and dewpoint
+   * Estimate solar radiation from location, date and daily temperature range
+   * using Hargreaves' radiation formula (FAO-56 eq. 50)
+   * @param latitude - Latitude in decimal degrees
+   * @param dayOfYear - Day of the year (1-366)
+   * @param maxTemperature - Daily maximum temperature in °C
+   * @param minTemperature - Daily minimum temperature in °C
+   * @param location - 'interior' or 'coastal' for the KRs adjustment coefficient
+   * @returns Solar radiation Rs in MJ/m²/day
    */
-  private calculateRelativeHumidity(temperature: number, dewpoint: number): number {
-    // Using Magnus formula approximation
-    const a = 17.625
-    const b = 243.04
-
-    const alpha = Math.log(
-      Math.exp((a * dewpoint) / (b + dewpoint)) / Math.exp((a * temperature) / (b + temperature)),
-    )
-    return Math.exp(alpha) * 100
+  estimateSolarRadiation(
+    latitude: number,
+    dayOfYear: number,
+    maxTemperature: number,
+    minTemperature: number,
+    location: HargreavesLocation = 'interior',
+  ): number {
+    return estimateSolarRadiation(latitude, dayOfYear, maxTemperature, minTemperature, location)
   }
 
-  /**
-   * Get processed weather data for Penman-Monteith calculations
-   * @param location - Latitude and longitude
-   * @returns Promise<ProcessedWeatherData>
-   */
-  async getProcessedWeatherData(location: Location): Promise<ProcessedWeatherData> {
-    try {
-      // Get point metadata first (this is the correct weather.gov API flow)
-      const lat = location.latitude.toFixed(4)
-      const lon = location.longitude.toFixed(4)
-      const pointDataUrl = `${this.baseURL}/points/${lat},${lon}`
-      const pointData = await this.getPointData(location)
-
-      if (!pointData || !pointData.properties) {
-        throw new Error('No weather data available for the specified location')
-      }
-
-      // Get gridpoints data which contains current observations
-      const gridX = pointData.properties.gridX
-      const gridY = pointData.properties.gridY
-      const gridId = pointData.properties.gridId
-      const forecastUrl = pointData.properties.forecast
-
-      if (!gridX || !gridY || !gridId || !forecastUrl) {
-        throw new Error('Invalid grid data from weather service')
-      }
-
-      // Get forecast data for daily min/max temperatures and other averages
-      const forecastResponse = await this.axiosInstance.get(forecastUrl)
-
-      if (
-        !forecastResponse.data ||
-        !forecastResponse.data.properties ||
-        !forecastResponse.data.properties.periods
-      ) {
-        throw new Error('No forecast data available')
-      }
-
-      // Get today's forecast periods (day and night)
-      const periods = forecastResponse.data.properties.periods
-      const todayPeriods = periods.slice(0, 2) // Today's day and night periods
-
-      // Extract temperatures from today's periods with source data
-      // Note: weather.gov forecast API returns temperatures in Fahrenheit for US locations
-      const temperatureSources = todayPeriods.map((period: any) => ({
-        value: period.temperature, // Keep original F value for display
-        valueCelsius: this.fahrenheitToCelsius(period.temperature), // Convert to C for calculations
-        date: period.startTime,
-        source: 'NWS Forecast',
-        period: period.name,
-        url: forecastUrl,
-      }))
-      const temperaturesC = temperatureSources.map((t: any) => t.valueCelsius)
-      const maxTemp = Math.max(...temperaturesC) // Max in Celsius
-      const minTemp = Math.min(...temperaturesC) // Min in Celsius
-
-      // Extract humidity from today's periods and calculate daily average
-      const humidityValues = todayPeriods
-        .map((period: any) => period.relativeHumidity?.value || period.relativeHumidity)
-        .filter((humidity: any) => humidity !== null && humidity !== undefined && !isNaN(humidity))
-
-      const avgHumidity =
-        humidityValues.length > 0
-          ? humidityValues.reduce((sum: number, val: number) => sum + val, 0) /
-            humidityValues.length
-          : null
-
-      // Humidity sources with details
-      const humiditySources = todayPeriods
-        .map((period: any) => {
-          const humidity = period.relativeHumidity?.value || period.relativeHumidity
-          return humidity !== null && humidity !== undefined && !isNaN(humidity)
-            ? {
-                value: humidity,
-                date: period.startTime,
-                source: 'NWS Forecast',
-                period: period.name,
-                url: forecastUrl,
-              }
-            : null
-        })
-        .filter((item: any) => item !== null)
-
-      // Extract wind speed from today's periods and calculate daily average
-      const windSpeedSources = todayPeriods
-        .map((period: any) => {
-          const windSpeedText = period.windSpeed || ''
-          // Extract numeric value from strings like "10 mph", "15 to 20 mph", etc.
-          const match = windSpeedText.match(/(\d+)/)
-          const windSpeedMph = match ? parseInt(match[1]) : null
-          return windSpeedMph !== null
-            ? {
-                value: windSpeedMph * 0.44704, // Convert to m/s
-                date: period.startTime,
-                source: 'NWS Forecast',
-                period: period.name,
-                url: forecastUrl,
-              }
-            : null
-        })
-        .filter((item: any) => item !== null)
-
-      const windSpeedValues = windSpeedSources.map((w: any) => w.value)
-      const avgWindSpeed =
-        windSpeedValues.length > 0
-          ? windSpeedValues.reduce((sum: number, val: number) => sum + val, 0) /
-            windSpeedValues.length
-          : null
-
-      // Always fetch gridpoints data to get elevation and as fallback for other data
-      const gridResponse = await this.axiosInstance.get(`/gridpoints/${gridId}/${gridX},${gridY}`)
-      const gridData = gridResponse.data.properties
-
-      // Use forecast values if available, otherwise fall back to gridpoints data
-      let relativeHumidity: number
-      let windSpeed: number
-      let finalHumiditySources = humiditySources
-
-      if (avgHumidity !== null) {
-        relativeHumidity = avgHumidity
-      } else {
-        // Fallback to gridpoints current humidity data
-        const humidityData = gridData.relativeHumidity
-        const gridHumidity =
-          humidityData && humidityData.values && humidityData.values.length > 0
-            ? humidityData.values[0].value
-            : 50 // Final fallback
-
-        relativeHumidity = gridHumidity
-
-        // Add gridpoints humidity source to the sources array
-        finalHumiditySources = [
-          {
-            value: gridHumidity,
-            date: new Date().toISOString(),
-            source: gridHumidity === 50 ? 'Default Value (50%)' : 'NWS Gridpoint Data',
-            period: 'Current',
-            url: `${this.baseURL}/gridpoints/${gridId}/${gridX},${gridY}`,
-          },
-        ]
-      }
-
-      if (avgWindSpeed !== null) {
-        windSpeed = avgWindSpeed
-      } else {
-        // Fallback to gridpoints current wind speed data (already fetched above)
-        const windData = gridData.windSpeed
-        const windSpeedValue =
-          windData && windData.values && windData.values.length > 0
-            ? this.convertWindSpeedFromGrid(windData.values[0].value, windData.uom)
-            : 2 // Final fallback: 2 m/s
-        windSpeed = windSpeedValue || 2
-      }
-
-      const processedData: ProcessedWeatherData = {
-        maxTemperature: maxTemp,
-        minTemperature: minTemp,
-        relativeHumidity: relativeHumidity,
-        windSpeed: windSpeed,
-        solarRadiation: undefined, // Solar radiation not available from weather.gov, needs to be estimated
-        station: {
-          id: gridId,
-          name: `Weather Grid ${gridId} (${gridX},${gridY})`,
-          latitude: location.latitude,
-          longitude: location.longitude,
-          elevation: this.extractElevation(pointData, gridData),
-        },
-        timestamp: new Date().toISOString(),
-        sourceData: {
-          temperatures: temperatureSources,
-          humidity: finalHumiditySources,
-          windSpeed: windSpeedSources,
-          forecastDate: todayPeriods[0]?.startTime || new Date().toISOString(),
-          forecastUrl: forecastUrl,
-          pointDataUrl: pointDataUrl,
-        },
-      }
-
-      return processedData
-    } catch (error) {
-      console.error('Weather service error:', error)
-
-      if (error instanceof Error) {
-        // Check for CORS or network errors
-        if (
-          error.message.includes('CORS') ||
-          error.message.includes('Network Error') ||
-          error.message.includes('ERR_NETWORK')
-        ) {
-          throw new Error(
-            'Failed to get weather data: CORS error - weather.gov API may not be accessible from browser. This API typically requires server-side access.',
-          )
-        }
-        throw new Error(`Failed to get weather data: ${error.message}`)
-      }
-
-      // Check if it's our custom WeatherServiceError
-      if (error && typeof error === 'object' && 'message' in error && 'code' in error) {
-        const weatherError = error as WeatherServiceError
-        throw new Error(
-          `Failed to get weather data: ${weatherError.message} (Code: ${weatherError.code})`,
-        )
-      }
-
-      throw new Error(
-        'Failed to get weather data: Unknown error - check browser console for details',
-      )
-    }
+  getActiveProvider(location: Location): string {
+    return this.getProvidersFor(location)[0].name
   }
 
-  /**
-   * Extract elevation from point data and gridpoints data
-   */
-  private extractElevation(pointData: any, gridData?: any): number {
-    // First try gridpoints elevation data (most reliable)
-    if (gridData?.elevation) {
-      const elevationData = gridData.elevation
-      if (elevationData.value !== null && !isNaN(elevationData.value)) {
-        let elevation = elevationData.value
-
-        // Convert to meters if needed based on unit of measure
-        if (elevationData.uom) {
-          if (elevationData.uom.includes('ft') || elevationData.uom.includes('feet')) {
-            elevation = elevation * 0.3048 // Convert feet to meters
-          }
-        }
-
-        return elevation
-      }
-    }
-
-    // Fallback to point data elevation sources
-    const elevationSources = [
-      pointData.properties?.elevation?.value,
-      pointData.properties?.elevation,
-      pointData.properties?.elev,
-      pointData.properties?.relativeLocation?.properties?.elevation?.value,
-      pointData.properties?.relativeLocation?.geometry?.coordinates?.[2], // Sometimes altitude is in coordinates[2]
-    ]
-
-    for (const elevation of elevationSources) {
-      if (typeof elevation === 'number' && elevation !== null && !isNaN(elevation)) {
-        return elevation
-      }
-    }
-
-    return 0
+  listAvailableProviders(): string[] {
+    return this.providers.filter((p) => p.isAvailable()).map((p) => p.name)
   }
 
-  /**
-   * Estimate solar radiation based on location and date
-   * This is a simplified estimation - in a real application, you'd want to use
-   * a more sophisticated model or additional data sources
-   */
-  estimateSolarRadiation(latitude: number, dayOfYear: number): number {
-    // Simplified solar radiation estimation (MJ/m²/day)
-    // This is a very basic approximation
-    const solarConstant = 1367 // W/m²
-    const latRad = (latitude * Math.PI) / 180
-    const declination = (23.45 * Math.sin((2 * Math.PI * (284 + dayOfYear)) / 365) * Math.PI) / 180
-    const hourAngle = Math.acos(-Math.tan(latRad) * Math.tan(declination))
-
-    const extraterrestrialRadiation =
-      (((24 * 60) / Math.PI) *
-        solarConstant *
-        (hourAngle * Math.sin(latRad) * Math.sin(declination) +
-          Math.cos(latRad) * Math.cos(declination) * Math.sin(hourAngle))) /
-      1000000
-
-    // Assume 70% of extraterrestrial radiation reaches surface (simplified)
-    return extraterrestrialRadiation * 0.7
+  getProviders(): WeatherProvider[] {
+    return this.providers
   }
 }
 
-export const weatherService = new WeatherService()
+export const weatherService = new WeatherServiceManager()
 export default weatherService
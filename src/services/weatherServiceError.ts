@@ -0,0 +1,24 @@
+// Codes besides HTTP status codes: a response that fails validation, no response at all, other
+export type WeatherServiceErrorCode = 'INVALID_RESPONSE' | 'NETWORK' | 'UNKNOWN' | `${number}`
+
+/**
+ * Failure of a weather provider request, with the HTTP status or another code and, for a
+ * response that failed validation, the path of the offending field
+ */
+export class WeatherServiceError extends Error {
+  readonly code: WeatherServiceErrorCode
+  readonly field?: string // e.g. properties.gridX
+  readonly details?: unknown // response body, when there was one
+
+  constructor(
+    message: string,
+    code: WeatherServiceErrorCode,
+    options: { field?: string; details?: unknown } = {},
+  ) {
+    super(message)
+    this.name = 'WeatherServiceError'
+    this.code = code
+    this.field = options.field
+    this.details = options.details
+  }
+}
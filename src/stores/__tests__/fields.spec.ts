@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { createPinia, setActivePinia } from 'pinia'
+
+import type { Field } from '@/types/field'
+import { defaultFieldDraft } from '@/data/fields'
+import {
+  deleteFieldRecord,
+  deleteStationData,
+  getAllFields,
+  putField,
+} from '@/services/fieldDatabase'
+import { useFieldsStore } from '../fields'
+
+vi.mock('@/services/fieldDatabase', () => ({
+  getAllFields: vi.fn(),
+  putField: vi.fn(),
+  deleteFieldRecord: vi.fn(),
+  deleteStationData: vi.fn(),
+}))
+
+const saved = (id: string, name: string, farm = ''): Field => ({
+  ...defaultFieldDraft(),
+  id,
+  name,
+  farm,
+  latitude: 38.5,
+  longitude: -121.7,
+  createdAt: '2026-07-01T00:00:00Z',
+  updatedAt: '2026-07-01T00:00:00Z',
+})
+
+describe('fields store', () => {
+  beforeEach(() => {
+    setActivePinia(createPinia())
+    vi.clearAllMocks()
+  })
+
+  it('loads the saved fields once and shares the load in flight', async () => {
+    let resolve: (fields: Field[]) => void = () => undefined
+    vi.mocked(getAllFields).mockReturnValue(new Promise((settle) => (resolve = settle)))
+    const store = useFieldsStore()
+
+    const first = store.load()
+    const second = store.load()
+    expect(store.loading).toBe(true)
+    resolve([saved('north', 'North block', 'Home Ranch')])
+    await Promise.all([first, second])
+
+    expect(getAllFields).toHaveBeenCalledTimes(1)
+    expect(store.loaded).toBe(true)
+    expect(store.loading).toBe(false)
+    expect(store.fields.map((field) => field.id)).toEqual(['north'])
+
+    await store.load()
+    expect(getAllFields).toHaveBeenCalledTimes(1)
+    vi.mocked(getAllFields).mockResolvedValue([])
+    await store.load(true)
+    expect(getAllFields).toHaveBeenCalledTimes(2)
+    expect(store.fields).toEqual([])
+  })
+
+  it('reports a failed load and tries again on the next', async () => {
+    vi.mocked(getAllFields).mockRejectedValueOnce(new Error('IndexedDB is not available'))
+    const store = useFieldsStore()
+
+    await store.load()
+    expect(store.error).toBe('IndexedDB is not available')
+    expect(store.loaded).toBe(false)
+
+    vi.mocked(getAllFields).mockResolvedValueOnce([saved('north', 'North block')])
+    await store.load()
+    expect(store.error).toBe('')
+    expect(store.fields).toHaveLength(1)
+  })
+
+  it('creates, updates and deletes fields', async () => {
+    const store = useFieldsStore()
+
+    const field = await store.createField({ ...defaultFieldDraft(), name: 'North block' })
+    expect(field.id).toBeTruthy()
+    expect(field.createdAt).toBe(field.updatedAt)
+    expect(putField).toHaveBeenLastCalledWith(field)
+    expect(store.fieldById(field.id)).toEqual(field)
+
+    const renamed = await store.updateField(field.id, { name: 'North 40' })
+    expect(renamed).toMatchObject({ id: field.id, name: 'North 40', createdAt: field.createdAt })
+    expect(putField).toHaveBeenLastCalledWith(renamed)
+    expect(store.fields).toEqual([renamed])
+    await expect(store.updateField('missing', { name: 'Nowhere' })).rejects.toThrow(
+      'Field missing not found',
+    )
+
+    await store.deleteField(field.id)
+    expect(deleteFieldRecord).toHaveBeenCalledWith(field.id)
+    expect(deleteStationData).toHaveBeenCalledWith(field.id)
+    expect(store.fields).toEqual([])
+  })
+
+  it('groups fields by farm with ungrouped fields last', async () => {
+    vi.mocked(getAllFields).mockResolvedValue([
+      saved('c', 'West', 'River Farm'),
+      saved('d', 'Orchard'),
+      saved('b', 'South', 'Home Ranch'),
+      saved('a', 'North', 'Home Ranch'),
+    ])
+    const store = useFieldsStore()
+    await store.load()
+
+    expect(
+      store.farms.map(({ farm, fields }) => [farm, fields.map((field) => field.name)]),
+    ).toEqual([
+      ['Home Ranch', ['North', 'South']],
+      ['River Farm', ['West']],
+      ['', ['Orchard']],
+    ])
+  })
+})
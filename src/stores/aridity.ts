@@ -0,0 +1,36 @@
+import { ref } from 'vue'
+import { defineStore } from 'pinia'
+import type { Location } from '@/types/weather'
+import type { AridityClass } from '@/types/penmanMonteith'
+import { locationKey } from './stationPreferences'
+
+const STORAGE_KEY = 'pme.aridity'
+
+function loadAridity(): Record<string, AridityClass> {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}')
+  } catch {
+    return {}
+  }
+}
+
+// Climate of each location, which sets how far the dewpoint is taken below Tmin when humidity
+// data is missing
+export const useAridityStore = defineStore('aridity', () => {
+  const aridity = ref<Record<string, AridityClass>>(loadAridity())
+
+  function save() {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(aridity.value))
+  }
+
+  function aridityFor(location: Location): AridityClass {
+    return aridity.value[locationKey(location)] ?? 'humid'
+  }
+
+  function setAridity(location: Location, value: AridityClass) {
+    aridity.value[locationKey(location)] = value
+    save()
+  }
+
+  return { aridity, aridityFor, setAridity }
+})
@@ -0,0 +1,92 @@
+import { computed, ref } from 'vue'
+import { defineStore } from 'pinia'
+import type { Field, FieldDraft } from '@/types/field'
+import {
+  deleteFieldRecord,
+  deleteStationData,
+  getAllFields,
+  putField,
+} from '@/services/fieldDatabase'
+
+export const useFieldsStore = defineStore('fields', () => {
+  const fields = ref<Field[]>([])
+  const loaded = ref(false)
+  const loading = ref(false)
+  const error = ref('')
+
+  // Fields grouped by farm, farms and fields in alphabetical order with ungrouped fields last
+  const farms = computed(() => {
+    const groups = new Map<string, Field[]>()
+    for (const field of [...fields.value].sort((a, b) => a.name.localeCompare(b.name))) {
+      groups.set(field.farm, [...(groups.get(field.farm) ?? []), field])
+    }
+    return [...groups.entries()]
+      .map(([farm, farmFields]) => ({ farm, fields: farmFields }))
+      .sort((a, b) => (!a.farm ? 1 : !b.farm ? -1 : a.farm.localeCompare(b.farm)))
+  })
+
+  // The load in flight, shared by every caller until it settles
+  let pending: Promise<void> | null = null
+
+  async function readFields() {
+    loading.value = true
+    error.value = ''
+    try {
+      fields.value = await getAllFields()
+      loaded.value = true
+    } catch (e) {
+      error.value = e instanceof Error ? e.message : 'Failed to load fields'
+    } finally {
+      loading.value = false
+      pending = null
+    }
+  }
+
+  async function load(force = false) {
+    if (!pending && (!loaded.value || force)) pending = readFields()
+    await pending
+  }
+
+  function fieldById(id: string): Field | undefined {
+    return fields.value.find((field) => field.id === id)
+  }
+
+  async function createField(draft: FieldDraft): Promise<Field> {
+    const now = new Date().toISOString()
+    const field: Field = { ...draft, id: crypto.randomUUID(), createdAt: now, updatedAt: now }
+    await putField(field)
+    fields.value = [...fields.value, field]
+    return field
+  }
+
+  async function updateField(id: string, changes: Partial<FieldDraft>): Promise<Field> {
+    const existing = fieldById(id)
+    if (!existing) {
+      throw new Error(`Field ${id} not found`)
+    }
+
+    const field: Field = { ...existing, ...changes, id, updatedAt: new Date().toISOString() }
+    await putField(field)
+    fields.value = fields.value.map((f) => (f.id === id ? field : f))
+    return field
+  }
+
+  async function deleteField(id: string) {
+    await deleteFieldRecord(id)
+    await deleteStationData(id)
+    fields.value = fields.value.filter((field) => field.id !== id)
+  }
+
+  return {
+    fields,
+    loaded,
+    loading,
+    error,
+    farms,
+    load,
+    fieldById,
+    createField,
+    updateField,
+    deleteField,
+  }
+})
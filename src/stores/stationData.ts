@@ -0,0 +1,63 @@
+import { ref } from 'vue'
+import { defineStore } from 'pinia'
+import type { StationDataset, StationDay, StationImport } from '@/types/stationData'
+import { deleteStationData, getStationData, putStationData } from '@/services/fieldDatabase'
+import { mergeStationDays } from '@/services/stationImport'
+
+// Station details an import sets for all of a field's days
+export type StationDetails = Pick<
+  StationDataset,
+  'stationName' | 'elevation' | 'windHeight' | 'timeZone'
+>
+
+// Imported on-farm station data of each field, loaded from the field database on demand
+export const useStationDataStore = defineStore('stationData', () => {
+  const datasets = ref<Record<string, StationDataset | null>>({})
+  const error = ref('')
+
+  async function load(fieldId: string): Promise<StationDataset | null> {
+    if (fieldId in datasets.value) return datasets.value[fieldId]
+
+    error.value = ''
+    try {
+      datasets.value[fieldId] = (await getStationData(fieldId)) ?? null
+    } catch (e) {
+      error.value = e instanceof Error ? e.message : 'Failed to load station data'
+      return null
+    }
+    return datasets.value[fieldId]
+  }
+
+  function datasetFor(fieldId: string): StationDataset | null {
+    return datasets.value[fieldId] ?? null
+  }
+
+  /**
+   * Add the days of an import to a field's station data, replacing days of the same date
+   */
+  async function importDays(
+    fieldId: string,
+    details: StationDetails,
+    days: StationDay[],
+    record: StationImport,
+  ): Promise<StationDataset> {
+    const existing = await load(fieldId)
+    const dataset: StationDataset = {
+      fieldId,
+      ...details,
+      days: mergeStationDays(existing?.days ?? [], days),
+      imports: [...(existing?.imports ?? []), record],
+      updatedAt: new Date().toISOString(),
+    }
+    await putStationData(dataset)
+    datasets.value[fieldId] = dataset
+    return dataset
+  }
+
+  async function remove(fieldId: string) {
+    await deleteStationData(fieldId)
+    datasets.value[fieldId] = null
+  }
+
+  return { datasets, error, load, datasetFor, importDays, remove }
+})
@@ -0,0 +1,42 @@
+import { ref } from 'vue'
+import { defineStore } from 'pinia'
+import type { Location } from '@/types/weather'
+
+const STORAGE_KEY = 'pme.preferredStations'
+
+// Pins are keyed by location rounded to ~1 km so that small geocoding differences still match
+export function locationKey(location: Location): string {
+  return `${location.latitude.toFixed(2)},${location.longitude.toFixed(2)}`
+}
+
+function loadPins(): Record<string, string> {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}')
+  } catch {
+    return {}
+  }
+}
+
+export const useStationPreferencesStore = defineStore('stationPreferences', () => {
+  const pinnedStations = ref<Record<string, string>>(loadPins())
+
+  function save() {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(pinnedStations.value))
+  }
+
+  function pinnedStationFor(location: Location): string | undefined {
+    return pinnedStations.value[locationKey(location)]
+  }
+
+  function pinStation(location: Location, stationId: string) {
+    pinnedStations.value[locationKey(location)] = stationId
+    save()
+  }
+
+  function unpinStation(location: Location) {
+    delete pinnedStations.value[locationKey(location)]
+    save()
+  }
+
+  return { pinnedStations, pinnedStationFor, pinStation, unpinStation }
+})
@@ -0,0 +1,66 @@
+// FAO-56 single and dual crop coefficient types
+
+// Growth stages of the crop coefficient curve (FAO-56 Fig. 25)
+export type CropGrowthStage = 'initial' | 'development' | 'mid' | 'late'
+
+// Lengths of the four growth stages in days (FAO-56 Table 11)
+export interface CropStageLengths {
+  initial: number
+  development: number
+  mid: number
+  late: number
+}
+
+// Single and basal crop coefficients for a subhumid climate (FAO-56 Tables 12 and 17)
+export interface Crop {
+  id: string
+  name: string
+  kcIni: number
+  kcMid: number
+  kcEnd: number
+  kcbIni: number // basal crop coefficients (FAO-56 Table 17)
+  kcbMid: number
+  kcbEnd: number
+  stageLengths: CropStageLengths
+  maxHeight: number // m, mean plant height during mid-season
+  rootDepth: number // m, maximum effective rooting depth Zr (FAO-56 Table 22)
+  depletionFraction: number // p for ETc ≈ 5 mm/day (FAO-56 Table 22)
+}
+
+// Climate of the mid- and late-season stages for adjusting Kc_mid and Kc_end (eq. 62)
+export interface CropClimate {
+  windSpeed: number // m/s at 2 m height
+  minRelativeHumidity: number // %
+}
+
+// Kc on a given date of the season
+export interface CropCoefficientResult {
+  kc: number
+  stage: CropGrowthStage
+  daysAfterPlanting: number
+  kcMid: number // after climatic adjustment
+  kcEnd: number // after climatic adjustment
+}
+
+// Kcb, Ke and the terms of the surface-layer evaporation balance for one day (FAO-56 chapter 7)
+export interface DualCropCoefficientDay {
+  date: string // YYYY-MM-DD
+  kcb: number // basal crop coefficient
+  kcMax: number // upper limit of Kc after wetting (eq. 72)
+  fractionCover: number // fc (eq. 76)
+  exposedWettedFraction: number // few (eqs. 75 and 77)
+  kr: number // evaporation reduction coefficient (eq. 74)
+  ke: number // soil evaporation coefficient (eq. 71)
+  evaporation: number // E = Ke × ET₀, mm
+  evaporationDepletion: number // De at the end of the day, mm (eq. 77)
+}
+
+// A dual coefficient day combined with Ks from the root-zone balance
+export interface DualKcRow extends DualCropCoefficientDay {
+  et0: number // mm
+  precipitation: number // mm
+  irrigation: number // mm
+  ks: number
+  kc: number // Kcb × Ks + Ke (eq. 80)
+  etc: number // Kc × ET₀, mm
+}
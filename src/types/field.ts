@@ -0,0 +1,57 @@
+// Saved fields and farms
+import type { GeocodeResult } from './geocoding'
+import type { IrrigationRecommendation, IrrigationStatus, IrrigationSystem } from './irrigation'
+
+// Display units of the calculator
+export interface FieldUnits {
+  temperature: 'C' | 'F'
+  altitude: 'm' | 'ft'
+  windSpeed: 'm/s' | 'mph'
+}
+
+// Root-zone soil properties (FAO-56 Tables 19 and 22)
+export interface FieldSoil {
+  textureId: string
+  fieldCapacity: number // θFC, m³/m³
+  wiltingPoint: number // θWP, m³/m³
+  rootDepth: number // m
+  depletionFraction: number // p
+  initialDepletion?: number // mm, root-zone depletion Dr at the last check, 0 when omitted
+  depletionDate?: string // YYYY-MM-DD of the last check, Dr at the start of that day
+}
+
+// A named field with everything the calculator needs to pick up where it left off
+export interface Field {
+  id: string
+  name: string
+  farm: string // farm the field is grouped under, '' when ungrouped
+  latitude: number
+  longitude: number
+  geocodeResult?: GeocodeResult
+  cropId: string // '' for a manual Kc
+  plantingDate: string // YYYY-MM-DD, '' when not set
+  soil: FieldSoil
+  irrigationSystem: IrrigationSystem
+  preferredStationId?: string
+  units: FieldUnits
+  createdAt: string // ISO-8601
+  updatedAt: string // ISO-8601
+}
+
+// Field contents without the identity and timestamps the store assigns
+export type FieldDraft = Omit<Field, 'id' | 'createdAt' | 'updatedAt'>
+
+// Today's water use and irrigation outlook of a field from its forecast
+export interface FieldStatus {
+  date: string // YYYY-MM-DD, first forecast day
+  et0: number // mm/day
+  kc: number // single crop coefficient, 0 outside the season
+  etc: number // mm/day, ET₀ × Kc × Ks
+  depletion: number // mm, root-zone depletion at the end of today
+  readilyAvailableWater: number // mm
+  recommendation: IrrigationRecommendation
+  status: IrrigationStatus
+  // true when there is no weather for every day since the last check, so today starts from
+  // the checked depletion: an outlook from the last manual entry, not a running balance
+  outlook: boolean
+}
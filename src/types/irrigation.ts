@@ -0,0 +1,43 @@
+// Irrigation scheduling types
+
+export type IrrigationSystemType = 'drip' | 'sprinkler' | 'pivot'
+
+// An irrigation system and what it takes to convert a depth into run time
+export interface IrrigationSystem {
+  type: IrrigationSystemType
+  efficiency: number // application efficiency, 0-1
+  emitterFlow: number // drip: L/h per emitter
+  emitterSpacing: number // drip: m between emitters along the lateral
+  lateralSpacing: number // drip: m between laterals
+  sprinklerRate: number // sprinkler: application rate in mm/h
+  pivotDepth: number // pivot: gross depth per revolution at 100% speed, mm
+  pivotRevolutionHours: number // pivot: hours per revolution at 100% speed
+}
+
+// How much water to apply at each irrigation
+export type IrrigationStrategy =
+  | { type: 'refill' } // bring the root zone back to field capacity
+  | { type: 'fixed'; depth: number } // apply a fixed net depth in mm
+
+// When to irrigate next, how much and for how long
+export interface IrrigationRecommendation {
+  date: string | null // YYYY-MM-DD of the next irrigation, null if not needed within the horizon
+  daysFromStart: number | null // days after the first day of the balance
+  depletion: number // mm, Dr at the end of the irrigation day without irrigation (or at the horizon)
+  netDepth: number // mm
+  grossDepth: number // mm, net depth divided by application efficiency
+  applicationRate?: number // mm/h, drip and sprinkler
+  runTime: number // hours
+  pivotSpeed?: number // % of full speed for one revolution
+  deferredForRain?: string // YYYY-MM-DD of forecast rain that made an earlier irrigation unnecessary
+  warnings: string[]
+}
+
+// How much of the rainfall counts towards crop water demand
+export type EffectiveRainfallMethod =
+  | { type: 'usda-scs' } // USDA Soil Conservation Service formula, as used by CROPWAT
+  | { type: 'fixed'; percentage: number } // a fixed share of the rainfall, %
+  | { type: 'threshold'; threshold: number } // rain below the threshold (mm) is lost entirely
+
+// Urgency of irrigation from the projected depletion
+export type IrrigationStatus = 'irrigate-today' | 'within-3-days' | 'ok'
@@ -0,0 +1,143 @@
+// FAO-56 Penman-Monteith calculation types
+
+// How incoming solar radiation (Rs) is obtained
+export type SolarRadiationMethod = 'measured' | 'sunshine' | 'temperature'
+
+// Hargreaves' adjustment coefficient KRs location (FAO-56 eq. 50)
+export type HargreavesLocation = 'interior' | 'coastal'
+
+// Climate of a location for the missing humidity procedure (FAO-56 chapter 3, Annex 6)
+export type AridityClass = 'humid' | 'semi-arid' | 'arid'
+
+// Inputs for the FAO-56 radiation model (eqs. 21-40)
+export interface RadiationInputs {
+  latitude: number // decimal degrees (+ for North, - for South)
+  dayOfYear: number // 1-366
+  elevation: number // m above sea level
+  maxTemperature: number // °C
+  minTemperature: number // °C
+  actualVaporPressure: number // kPa
+  solarRadiationMethod: SolarRadiationMethod
+  solarRadiation?: number // MJ/m²/day, required for 'measured'
+  sunshineHours?: number // h, actual duration of sunshine n, required for 'sunshine'
+  hargreavesLocation?: HargreavesLocation // used for 'temperature', defaults to 'interior'
+  albedo?: number // defaults to 0.23 for the grass reference crop
+}
+
+// Radiation terms computed along the way to net radiation
+export interface RadiationResult {
+  inverseRelativeDistance: number // dr, dimensionless
+  solarDeclination: number // δ, rad
+  sunsetHourAngle: number // ωs, rad
+  extraterrestrialRadiation: number // Ra, MJ/m²/day
+  maxDaylightHours: number // N, h
+  clearSkyRadiation: number // Rso, MJ/m²/day
+  solarRadiation: number // Rs, MJ/m²/day
+  netShortwaveRadiation: number // Rns, MJ/m²/day
+  netLongwaveRadiation: number // Rnl, MJ/m²/day
+  netRadiation: number // Rn, MJ/m²/day
+}
+
+// Daily meteorological and site inputs for the FAO-56 reference equation
+export interface PenmanMonteithInputs {
+  maxTemperature: number // °C
+  minTemperature: number // °C
+  relativeHumidity: number // % (daily mean)
+  maxRelativeHumidity?: number // %, used with minRelativeHumidity in preference to the mean
+  minRelativeHumidity?: number // %
+  dewpoint?: number // °C, preferred over relative humidity when available
+  windSpeed: number // m/s at 2 m height
+  elevation: number // m above sea level
+  latitude: number // decimal degrees (+ for North, - for South)
+  dayOfYear: number // 1-366
+  solarRadiationMethod?: SolarRadiationMethod // defaults to 'measured'
+  solarRadiation?: number // MJ/m²/day
+  sunshineHours?: number // h
+  hargreavesLocation?: HargreavesLocation
+  albedo?: number
+}
+
+// Reference evapotranspiration with every intermediate term of FAO-56 eq. 6
+export interface PenmanMonteithResult {
+  et0: number // mm/day
+  meanTemperature: number // °C
+  atmosphericPressure: number // kPa
+  saturationVaporPressure: number // kPa
+  actualVaporPressure: number // kPa
+  vaporPressureDeficit: number // kPa
+  slopeVaporPressure: number // kPa/°C
+  psychrometricConstant: number // kPa/°C
+  netRadiation: number // MJ/m²/day
+  radiation: RadiationResult
+  soilHeatFlux: number // MJ/m²/day
+  aerodynamicResistance: number // s/m
+  surfaceResistance: number // s/m
+}
+
+// Site data for the hourly FAO-56 equation (eq. 53)
+export interface HourlyPenmanMonteithSite {
+  latitude: number // decimal degrees
+  longitude: number // decimal degrees (+ for East, - for West)
+  elevation: number // m above sea level
+}
+
+// Reference evapotranspiration for a single hour
+export interface HourlyEt0Result {
+  time: string // ISO-8601 start of the hour
+  date: string // YYYY-MM-DD calendar day the hour belongs to
+  isDaytime: boolean
+  temperature: number // °C
+  actualVaporPressure: number // kPa
+  vaporPressureDeficit: number // kPa
+  windSpeed: number // m/s
+  extraterrestrialRadiation: number // MJ/m²/hour
+  solarRadiation: number // MJ/m²/hour
+  netRadiation: number // MJ/m²/hour
+  soilHeatFlux: number // MJ/m²/hour
+  et0: number // mm/hour
+}
+
+// Sum of hourly ET₀ for one calendar day
+export interface DailyEt0Total {
+  date: string // YYYY-MM-DD
+  et0: number // mm/day
+  hours: number // number of hourly values included
+}
+
+export interface HourlyEt0Series {
+  hours: HourlyEt0Result[]
+  dailyTotals: DailyEt0Total[]
+}
+
+// One day of a multi-day ET₀/ETc forecast
+export interface DailyEt0Row {
+  date: string // YYYY-MM-DD
+  maxTemperature: number // °C
+  minTemperature: number // °C
+  relativeHumidity: number // %
+  windSpeed: number // m/s
+  solarRadiation: number // MJ/m²/day
+  et0: number // mm/day
+  etc: number // mm/day
+  precipitation: number // mm/day
+  precipitationProbability?: number // %
+  effectiveRainfall: number // mm/day
+  netIrrigationRequirement: number // mm/day, ETc minus effective rainfall
+  hoursAvailable?: number // hourly forecast values behind the daily inputs
+}
+
+// Yesterday's ET₀ computed from one station's observations, for side-by-side comparison
+export interface StationEt0Row {
+  stationId: string
+  stationName: string
+  date: string // YYYY-MM-DD
+  distance: number // km from the field
+  elevation: number // m
+  maxTemperature: number // °C
+  minTemperature: number // °C
+  maxRelativeHumidity?: number // %
+  minRelativeHumidity?: number // %
+  windSpeed: number // m/s
+  solarRadiation: number // MJ/m²/day
+  et0: number // mm/day
+}
@@ -0,0 +1,50 @@
+// FAO-56 root-zone soil water balance types (chapter 8)
+
+// Soil water and evaporation characteristics of a texture class (FAO-56 Table 19)
+export interface SoilTexture {
+  id: string
+  name: string
+  fieldCapacity: number // θFC, m³/m³
+  wiltingPoint: number // θWP, m³/m³
+  readilyEvaporableWater: number // REW, mm
+}
+
+// Soil and crop parameters of the root zone
+export interface SoilWaterParameters {
+  fieldCapacity: number // θFC, m³/m³
+  wiltingPoint: number // θWP, m³/m³
+  rootDepth: number // Zr, m
+  depletionFraction: number // p for ETc ≈ 5 mm/day (FAO-56 Table 22)
+  initialDepletion?: number // Dr at the start of the first day, mm (0 = field capacity)
+}
+
+// Water fluxes of one day entering the balance
+export interface WaterBalanceInput {
+  date: string // YYYY-MM-DD
+  etc: number // mm, crop evapotranspiration under standard conditions (Ks = 1)
+  precipitation?: number // mm
+  irrigation?: number // mm, net depth infiltrated
+  runoff?: number // mm of precipitation lost as surface runoff
+  soilEvaporation?: number // mm, Ke × ET₀ in dual coefficient mode; not reduced by Ks
+}
+
+// Root-zone state at the end of one day
+export interface WaterBalanceDay {
+  date: string // YYYY-MM-DD
+  etc: number // mm, under standard conditions
+  etcAdjusted: number // mm, Ks × ETc (eq. 80), plus soil evaporation in dual coefficient mode
+  ks: number // water stress coefficient (eq. 84), from the depletion at the start of the day
+  precipitation: number // mm
+  irrigation: number // mm
+  runoff: number // mm
+  deepPercolation: number // mm (eq. 88)
+  depletion: number // Dr at the end of the day, mm (eq. 85)
+  depletionFraction: number // p adjusted for the day's ETc
+  readilyAvailableWater: number // RAW, mm (eq. 83)
+}
+
+export interface WaterBalanceResult {
+  totalAvailableWater: number // TAW, mm (eq. 82)
+  days: WaterBalanceDay[]
+  daysUntilRaw: number | null // days until Dr first reaches RAW; 0 if already reached, null if not in the series
+}
@@ -0,0 +1,88 @@
+// On-farm weather station data imported from logger exports (Davis, Campbell, Onset)
+
+// Logger columns the import reads; a timestamp and a temperature are required
+export type StationVariable =
+  | 'timestamp'
+  | 'time' // time of day, when the export splits it from the date
+  | 'temperature' // sample or interval mean
+  | 'maxTemperature' // interval or daily high
+  | 'minTemperature' // interval or daily low
+  | 'relativeHumidity'
+  | 'dewpoint'
+  | 'windSpeed' // interval or daily mean
+  | 'solarRadiation' // mean irradiance or daily total
+  | 'precipitation' // interval or daily total
+
+// Column of the export that holds each variable
+export type ColumnMapping = Partial<Record<StationVariable, string>>
+
+// Units of the export's columns
+export interface StationUnits {
+  temperature: 'C' | 'F'
+  windSpeed: 'm/s' | 'mph' | 'km/h'
+  solarRadiation: 'W/m2' | 'MJ/m2/day'
+  precipitation: 'mm' | 'in'
+}
+
+// A logger export read into cells keyed by column name
+export interface StationTable {
+  columns: string[]
+  units: Record<string, string> // unit row under the header, e.g. 'Deg C' in Campbell TOA5 files
+  rows: Array<Record<string, string>>
+}
+
+// A row of the export in metric units: °C, %, m/s, W/m² and mm
+export interface StationRecord {
+  time: number // ms since the epoch, end of the logging interval
+  date?: string // YYYY-MM-DD for rows of daily data, which have no time of day
+  temperature?: number
+  maxTemperature?: number
+  minTemperature?: number
+  relativeHumidity?: number
+  dewpoint?: number
+  windSpeed?: number // m/s at the anemometer height
+  solarRadiation?: number // W/m², mean irradiance over the interval or the day
+  precipitation?: number
+}
+
+// Daily FAO-56 inputs aggregated from the records of one calendar day
+export interface StationDay {
+  date: string // YYYY-MM-DD in the station's time zone
+  maxTemperature: number // °C
+  minTemperature: number // °C
+  relativeHumidity?: number // %, daily mean
+  maxRelativeHumidity?: number // %
+  minRelativeHumidity?: number // %
+  dewpoint?: number // °C, daily mean
+  windSpeed?: number // m/s at the anemometer height, daily mean
+  solarRadiation?: number // MJ/m²/day, measured
+  precipitation?: number // mm, daily total
+  recordCount: number
+  coverage: number // 0-1, share of the day's logging intervals with a record; 1 for daily data
+  source: string // file the day was imported from
+}
+
+// One import of a logger export, kept as provenance of the days it added
+export interface StationImport {
+  fileName: string
+  importedAt: string // ISO-8601
+  mapping: ColumnMapping
+  units: StationUnits
+  timeZone: string // IANA time zone of the logger clock
+  firstDate: string // YYYY-MM-DD
+  lastDate: string // YYYY-MM-DD
+  dayCount: number
+  skippedRows: number // rows without a readable timestamp or temperature
+}
+
+// The imported station data of a field; later imports replace the days they overlap
+export interface StationDataset {
+  fieldId: string
+  stationName: string // e.g. 'Davis Vantage Pro2, north block'
+  elevation: number // m above sea level
+  windHeight: number // m, anemometer height above ground
+  timeZone: string // IANA time zone of the station's days
+  days: StationDay[] // in date order
+  imports: StationImport[]
+  updatedAt: string // ISO-8601
+}
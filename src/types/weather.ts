@@ -1,4 +1,5 @@
 // Weather.gov API TypeScript interfaces
+import type { AridityClass } from './penmanMonteith'
 
 export interface WeatherStation {
   id: string
@@ -125,6 +126,75 @@ export interface WeatherObservationsResponse {
   features: WeatherObservationResponse[]
 }
 
+// A quantitative value of the weather.gov API, e.g. { value: 12.2, unitCode: 'wmoUnit:degC' }
+export interface QuantitativeValue {
+  value: number | null
+  unitCode: string
+}
+
+// /points/{lat},{lon}: the forecast office grid cell and links for a location
+export interface NwsPointResponse {
+  id?: string
+  properties: {
+    gridId: string // forecast office, e.g. SEW
+    gridX: number
+    gridY: number
+    forecast: string // URL of the 12-hour period forecast
+    forecastHourly: string // URL of the hourly forecast
+    forecastGridData: string // URL of the raw gridpoint forecast
+    observationStations: string // URL of the stations near the grid cell
+    timeZone: string // IANA time zone
+    relativeLocation?: {
+      properties: {
+        city: string
+        state: string
+      }
+    }
+  }
+}
+
+// One period of /gridpoints/{wfo}/{x},{y}/forecast (12-hour) or .../forecast/hourly
+export interface NwsForecastPeriod {
+  number: number
+  name: string // e.g. 'Tonight', '' in the hourly forecast
+  startTime: string // ISO-8601
+  endTime: string // ISO-8601
+  isDaytime: boolean
+  temperature: number
+  temperatureUnit: 'F' | 'C'
+  probabilityOfPrecipitation?: QuantitativeValue
+  dewpoint?: QuantitativeValue // hourly forecast only
+  relativeHumidity?: QuantitativeValue // hourly forecast only
+  windSpeed: string // e.g. '5 to 10 mph'
+  windDirection: string
+  shortForecast: string
+  detailedForecast: string
+}
+
+// /gridpoints/{wfo}/{x},{y}/forecast and /gridpoints/{wfo}/{x},{y}/forecast/hourly
+export interface NwsForecastResponse {
+  properties: {
+    updated?: string // ISO-8601
+    elevation?: QuantitativeValue
+    periods: NwsForecastPeriod[]
+  }
+}
+
+// /gridpoints/{wfo}/{x},{y}: raw forecast layers of a grid cell; only the layers used are listed
+export interface NwsGridpointResponse {
+  properties: {
+    updateTime?: string // ISO-8601
+    elevation?: QuantitativeValue
+    temperature: GridpointLayer
+    dewpoint: GridpointLayer
+    relativeHumidity: GridpointLayer
+    windSpeed: GridpointLayer
+    skyCover: GridpointLayer
+    quantitativePrecipitation?: GridpointLayer
+    probabilityOfPrecipitation?: GridpointLayer
+  }
+}
+
 // Source data for each meteorological parameter
 export interface WeatherDataSource {
   value: number
@@ -133,30 +203,160 @@ export interface WeatherDataSource {
   period?: string
   url?: string
   valueCelsius?: number // For temperature sources that come in Fahrenheit
+  measurementHeight?: number // m, for wind measured above 2 m and converted to u₂
+}
+
+// A gridpoint forecast layer, e.g. properties.temperature of /gridpoints/{wfo}/{x},{y}
+export interface GridpointLayer {
+  uom?: string
+  values: Array<{
+    validTime: string // ISO-8601 interval, e.g. 2026-10-19T06:00:00+00:00/PT3H
+    value: number | null
+  }>
+}
+
+// A gridpoint layer value expanded to one hour
+export interface HourlyValue {
+  time: string // ISO-8601 UTC start of the hour
+  localDate: string // YYYY-MM-DD in the station's time zone
+  localHour: number // 0-23 in the station's time zone
+  value: number
+}
+
+// Calendar-day statistics of an hourly series
+export interface DailyAggregate {
+  date: string // YYYY-MM-DD in the station's time zone
+  min: number
+  max: number
+  mean: number
+  sum: number // daily total, for accumulated amounts such as precipitation
+  count: number // number of hourly values
+}
+
+// One hour of gridpoint weather, in metric units
+export interface HourlyWeatherPoint {
+  time: string // ISO-8601 start of the hour
+  temperature: number // °C
+  dewpoint?: number // °C
+  relativeHumidity?: number // %
+  windSpeed: number // m/s at 2 m
+  skyCover: number // %
+}
+
+// An observation station near a location, from the point's observationStations link
+export interface NearbyStation {
+  id: string // station identifier, e.g. KSEA
+  name: string
+  latitude: number
+  longitude: number
+  elevation: number // m, 0 when the station reports none
+  elevationDefaulted?: boolean // the station reports no elevation
+  timeZone?: string // IANA time zone of the station
+  distance: number // km, great-circle distance from the location
+  bearing: number // degrees clockwise from north, from the location to the station
+  elevationDifference: number // m, station elevation minus location elevation
+}
+
+// How well a station has been reporting the variables needed for ET₀
+export interface StationDataStatus {
+  stationId: string
+  lastObservation?: string // ISO-8601 timestamp of the latest observation
+  observationCount: number // observations inspected
+  completeness: number // 0-1, share of required variables reported across those observations
+}
+
+// One calendar day summarised from station observations, in metric units
+export interface ObservedDailySummary {
+  date: string // YYYY-MM-DD in the station's time zone
+  maxTemperature: number // °C
+  minTemperature: number // °C
+  maxRelativeHumidity: number // %
+  minRelativeHumidity: number // %
+  meanRelativeHumidity: number // %
+  windSpeed: number // m/s at the anemometer height, mean of the observations
+  dewpoint?: number // °C, mean of the observations
+  precipitation?: number // mm, from the 6-hour (or hourly) precipitation groups
+  observationCount: number // observations with a temperature
+  firstObservation: string // ISO-8601 timestamp
+  lastObservation: string // ISO-8601 timestamp
+}
+
+// Whether daily inputs come from the forecast, from yesterday's station observations or from an
+// on-farm station's imported records
+export type WeatherDataMode = 'forecast' | 'observed' | 'imported'
+
+// Where a daily input comes from, or that it failed a quality check (ASCE-EWRI 2005 Appendix D)
+export type QualityFlag = 'measured' | 'forecast' | 'estimated' | 'defaulted' | 'suspect'
+
+// Daily inputs that carry a quality flag
+export type QualityVariable =
+  | 'maxTemperature'
+  | 'minTemperature'
+  | 'relativeHumidity'
+  | 'dewpoint'
+  | 'windSpeed'
+  | 'solarRadiation'
+  | 'elevation'
+
+export interface InputQuality {
+  flag: QualityFlag
+  note?: string // why the value is estimated, defaulted or suspect
+}
+
+export type WeatherQuality = Partial<Record<QualityVariable, InputQuality>>
+
+// An input the provider had no data for and estimated or filled with a default value
+export interface FilledValue {
+  variable: 'relativeHumidity' | 'windSpeed' | 'elevation'
+  value: number // in the metric unit of the variable
+  flag: 'estimated' | 'defaulted'
+  reason: string // e.g. 'No forecast wind speed for 2026-10-19; FAO-56 global default'
 }
 
 // Processed weather data for Penman-Monteith calculations
 export interface ProcessedWeatherData {
+  date?: string // YYYY-MM-DD calendar day in the station's time zone
+  mode?: WeatherDataMode // 'forecast' when omitted
   maxTemperature: number // °C
   minTemperature: number // °C
   relativeHumidity: number // %
-  windSpeed: number // m/s
+  maxRelativeHumidity?: number // % (observed mode)
+  minRelativeHumidity?: number // % (observed mode)
+  dewpoint?: number // °C, daily mean (observed mode)
+  windSpeed: number // m/s at 2 m
+  windMeasurementHeight?: number // m, height of the wind data before conversion to 2 m
   solarRadiation?: number // MJ/m²/day (may need to be estimated)
+  precipitation?: number // mm, daily total (quantitative forecast or observed)
+  precipitationProbability?: number // %, highest hourly probability of the day (forecast mode)
   station: {
     id: string
     name: string
     latitude: number
     longitude: number
     elevation: number
+    timeZone?: string // IANA time zone of the station
   }
   timestamp: string
+  quality?: WeatherQuality // per input, from services/qualityControl.ts
+  hourly?: HourlyWeatherPoint[] // Gridpoint time series for hourly ET₀
   sourceData?: {
     temperatures: WeatherDataSource[]
     humidity: WeatherDataSource[]
     windSpeed: WeatherDataSource[]
+    precipitation?: WeatherDataSource[]
     forecastDate: string
+    provider?: string // Name of the weather provider that produced the data
     forecastUrl?: string
     pointDataUrl?: string
+    gridpointsUrl?: string
+    periodStart?: string // First hour aggregated into the daily values
+    periodEnd?: string // Last hour aggregated into the daily values
+    hoursAvailable?: number
+    retrievedAt?: string
+    cachedAt?: string // Time the offline cache stored the response the data came from
+    filledValues?: FilledValue[] // Inputs the provider had no data for
+    observationsUrl?: string // Station observations behind the observed mode
+    stationDistance?: number // km from the location to the observing station
   }
 }
 
@@ -164,11 +364,5 @@ export interface ProcessedWeatherData {
 export interface Location {
   latitude: number
   longitude: number
+  aridity?: AridityClass // for estimating missing humidity, 'humid' when omitted
 }
-
-// Weather service error types
-export interface WeatherServiceError {
-  message: string
-  code: string
-  details?: Record<string, unknown>
-}
\ No newline at end of file
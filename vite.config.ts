@@ -1,16 +1,89 @@
 import { fileURLToPath, URL } from 'node:url'
+import { createHash } from 'node:crypto'
+import { readFileSync, readdirSync } from 'node:fs'
+import { join, relative } from 'node:path'
+import type { IncomingMessage, ServerResponse } from 'node:http'
 
-import { defineConfig } from 'vite'
+import { defineConfig, type Plugin } from 'vite'
 import vue from '@vitejs/plugin-vue'
 import vueJsx from '@vitejs/plugin-vue-jsx'
 import vueDevTools from 'vite-plugin-vue-devtools'
 
+import { createProxy } from './server/proxy'
+
+// Pages the shell answers navigations with; listed outright because Vite's HTML plugin adds
+// index.html to the bundle after the plugins that see it in generateBundle
+const SHELL_PAGES = ['./', 'index.html']
+
+/**
+ * Write sw.js from src/service-worker.js with the build's files and the public files as the
+ * precached app shell
+ */
+export function serviceWorker(): Plugin {
+  const template = fileURLToPath(new URL('./src/service-worker.js', import.meta.url))
+  let publicDir = ''
+
+  return {
+    name: 'pme-service-worker',
+    apply: 'build',
+    enforce: 'post',
+    configResolved(config) {
+      publicDir = config.publicDir
+    },
+    generateBundle(_options, bundle) {
+      const files = [
+        ...Object.keys(bundle),
+        ...(publicDir ? readdirSync(publicDir, { recursive: true, withFileTypes: true }) : [])
+          .filter((entry) => entry.isFile())
+          .map((entry) => relative(publicDir, join(entry.parentPath, entry.name))),
+      ]
+        .map((file) => file.replace(/\\/g, '/'))
+        .filter((file) => !file.endsWith('.map'))
+        .sort()
+      const urls = [...new Set([...SHELL_PAGES, ...files])]
+      const version = createHash('sha256').update(urls.join('\n')).digest('hex').slice(0, 12)
+
+      this.emitFile({
+        type: 'asset',
+        fileName: 'sw.js',
+        source: readFileSync(template, 'utf8').replace(
+          'self.__PRECACHE_MANIFEST',
+          JSON.stringify({ version, urls }),
+        ),
+      })
+    },
+  }
+}
+
+/**
+ * Serve the weather.gov and Nominatim proxy under /proxy in dev and preview; point the app at it
+ * with VITE_API_PROXY_URL=/proxy
+ */
+function apiProxy(): Plugin {
+  const proxy = createProxy({ userAgent: process.env.PME_PROXY_USER_AGENT })
+  const middleware = (req: IncomingMessage, res: ServerResponse, next: () => void) => {
+    proxy(req, res, next).catch(next)
+  }
+
+  return {
+    name: 'pme-api-proxy',
+    configureServer(server) {
+      server.middlewares.use('/proxy', middleware)
+    },
+    configurePreviewServer(server) {
+      server.middlewares.use('/proxy', middleware)
+    },
+  }
+}
+
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [
     vue(),
     vueJsx(),
     vueDevTools(),
+    serviceWorker(),
+    apiProxy(),
   ],
   resolve: {
     alias: {